@@ -0,0 +1,204 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FORMULA_LOCALES, getFormulaLocale } from '../lib/formulaLocale';
+import type { CalculationSettings } from '../hooks/useCalculationSettings';
+
+// e.g. "1.234,5 · 31.12.2024 · =SUMME(A1;2)" for German
+function localeExample(localeId: string): string {
+  const locale = getFormulaLocale(localeId);
+  const number = `1${locale.thousandsSeparator}234${locale.decimalSeparator}5`;
+  const date = { mdy: ['12', '31', '2024'], dmy: ['31', '12', '2024'], ymd: ['2024', '12', '31'] }[locale.dateOrder].join(locale.dateSeparator);
+  const sum = locale.functionNames.SUM ?? 'SUM';
+  return `${number} · ${date} · =${sum}(A1${locale.argumentSeparator}2)`;
+}
+
+interface CalculationOptionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  settings: CalculationSettings;
+  onSettingsChange: (settings: CalculationSettings) => void;
+}
+
+export function CalculationOptionsDialog({
+  open,
+  onOpenChange,
+  settings,
+  onSettingsChange,
+}: CalculationOptionsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Calculation Options</DialogTitle>
+          <DialogDescription>
+            Configure how formulas are calculated in this spreadsheet
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6 py-4">
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="iterative-calculation">Enable iterative calculation</Label>
+              <p className="text-sm text-muted-foreground">
+                Resolve circular references by recalculating them repeatedly
+              </p>
+            </div>
+            <Switch
+              id="iterative-calculation"
+              checked={settings.iterative}
+              onCheckedChange={(iterative) =>
+                onSettingsChange({ ...settings, iterative })
+              }
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="max-iterations">Maximum Iterations</Label>
+              <Input
+                id="max-iterations"
+                type="number"
+                min={1}
+                max={32767}
+                value={settings.maxIterations}
+                disabled={!settings.iterative}
+                onChange={(e) => {
+                  const maxIterations = parseInt(e.target.value);
+                  if (maxIterations >= 1) {
+                    onSettingsChange({ ...settings, maxIterations });
+                  }
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="max-change">Maximum Change</Label>
+              <Input
+                id="max-change"
+                type="number"
+                min={0}
+                step={0.001}
+                value={settings.maxChange}
+                disabled={!settings.iterative}
+                onChange={(e) => {
+                  const maxChange = parseFloat(e.target.value);
+                  if (maxChange >= 0) {
+                    onSettingsChange({ ...settings, maxChange });
+                  }
+                }}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="volatile-interval">Recalculate volatile functions every (seconds)</Label>
+            <Input
+              id="volatile-interval"
+              type="number"
+              min={0}
+              value={settings.volatileInterval}
+              disabled={settings.mode === 'manual'}
+              onChange={(e) => {
+                const volatileInterval = parseInt(e.target.value);
+                if (volatileInterval >= 0) {
+                  onSettingsChange({ ...settings, volatileInterval });
+                }
+              }}
+            />
+            <p className="text-sm text-muted-foreground">
+              Keeps NOW(), TODAY(), RAND() and the like current in automatic mode; 0 to only recalculate them along with other changes
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="date-system">Use 1904 date system</Label>
+              <p className="text-sm text-muted-foreground">
+                Count date serial numbers from January 1, 1904, as in older Mac workbooks
+              </p>
+            </div>
+            <Switch
+              id="date-system"
+              checked={settings.dateSystem === '1904'}
+              onCheckedChange={(use1904) =>
+                onSettingsChange({ ...settings, dateSystem: use1904 ? '1904' : '1900' })
+              }
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor="exact-arithmetic">Exact arithmetic</Label>
+              <p className="text-sm text-muted-foreground">
+                Keep every digit of large or precise numbers, such as token amounts in wei, in +, -, *, /, SUM and comparisons.
+                Saved with the spreadsheet, so everyone sharing it sees the same totals
+              </p>
+            </div>
+            <Switch
+              id="exact-arithmetic"
+              checked={settings.exactArithmetic}
+              onCheckedChange={(exactArithmetic) =>
+                onSettingsChange({ ...settings, exactArithmetic })
+              }
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="formula-locale">Language and region</Label>
+            <Select
+              value={getFormulaLocale(settings.locale).id}
+              onValueChange={(locale) => onSettingsChange({ ...settings, locale })}
+            >
+              <SelectTrigger id="formula-locale">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORMULA_LOCALES.map((locale) => (
+                  <SelectItem key={locale.id} value={locale.id}>
+                    {locale.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">
+              Type numbers, dates and formulas as in {localeExample(settings.locale)}. Everyone editing the spreadsheet
+              uses this language, and cells are saved the same in every language, so changing it changes no results
+            </p>
+          </div>
+
+          <div className="p-4 bg-muted rounded-lg space-y-2">
+            <h4 className="font-semibold text-sm">About Circular References</h4>
+            <p className="text-xs text-muted-foreground">
+              A formula that refers to its own cell, directly or through other cells,
+              shows #CIRCULAR! unless iterative calculation is enabled. Iteration stops
+              after the maximum number of iterations or once no value changes by more
+              than the maximum change.
+            </p>
+          </div>
+
+          {settings.mode === 'manual' && (
+            <div className="p-4 bg-muted rounded-lg space-y-2">
+              <h4 className="font-semibold text-sm">About Manual Calculation</h4>
+              <p className="text-xs text-muted-foreground">
+                Formulas are only recalculated when you press F9 (Calculate Now) or Shift+F9
+                (Calculate Sheet). The status bar shows Calculate while changes are waiting.
+              </p>
+            </div>
+          )}
+
+          {settings.exactArithmetic && (
+            <div className="p-4 bg-muted rounded-lg space-y-2">
+              <h4 className="font-semibold text-sm">About Exact Arithmetic</h4>
+              <p className="text-xs text-muted-foreground">
+                Other functions still calculate with floating point numbers. Formulas that
+                had to round an exact number to do so are listed as Precision Lost in the
+                status bar.
+              </p>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
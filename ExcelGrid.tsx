@@ -2,6 +2,19 @@ import { useRef, useEffect, useState, useCallback } from 'react';
 import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuTrigger, ContextMenuSeparator } from '@/components/ui/context-menu';
 import type { CellFormat } from '../backend';
 
+// Cells covered by one spilled array formula, zero-based and inclusive
+export interface SpillRange {
+    startRow: number;
+    startCol: number;
+    endRow: number;
+    endCol: number;
+}
+
+// A range referenced by the formula being edited, outlined in its colour in the formula bar
+export interface ReferenceHighlight extends SpillRange {
+    color: string;
+}
+
 interface ExcelGridProps {
     rows: number;
     cols: number;
@@ -17,6 +30,8 @@ interface ExcelGridProps {
     onCellEdit?: (row: number, col: number) => void;
     onSelectionChange?: (start: { row: number; col: number }, end: { row: number; col: number } | null) => void;
     onDragFill?: (startRow: number, startCol: number, endRow: number, endCol: number) => void;
+    spillRanges?: SpillRange[];
+    referenceHighlights?: ReferenceHighlight[];
 }
 
 function getColumnLabel(index: number): string {
@@ -65,6 +80,8 @@ export default function ExcelGrid({
     onCellEdit,
     onSelectionChange,
     onDragFill,
+    spillRanges,
+    referenceHighlights,
 }: ExcelGridProps) {
     const scale = zoom / 100;
     const containerRef = useRef<HTMLDivElement>(null);
@@ -270,6 +287,16 @@ export default function ExcelGrid({
     const headerHeight = 24;
     const headerWidth = 48;
 
+    // Like Excel, outline a spilled array while one of its cells is selected
+    const activeSpillRange = selectedCell
+        ? spillRanges?.find(range =>
+              selectedCell.row >= range.startRow &&
+              selectedCell.row <= range.endRow &&
+              selectedCell.col >= range.startCol &&
+              selectedCell.col <= range.endCol
+          )
+        : undefined;
+
     return (
         <div 
             ref={containerRef}
@@ -438,6 +465,38 @@ export default function ExcelGrid({
                             </div>
                         );
                     })}
+
+                    {/* Spill range border */}
+                    {activeSpillRange && (
+                        <div
+                            className="pointer-events-none absolute z-10 border border-dashed border-blue-500"
+                            style={{
+                                top: activeSpillRange.startRow * rowHeight + headerHeight,
+                                left: activeSpillRange.startCol * colWidth + headerWidth,
+                                width: (activeSpillRange.endCol - activeSpillRange.startCol + 1) * colWidth,
+                                height: (activeSpillRange.endRow - activeSpillRange.startRow + 1) * rowHeight,
+                            }}
+                        />
+                    )}
+
+                    {/* Outlines of the references in the formula being edited, clipped to the grid */}
+                    {referenceHighlights
+                        ?.filter(highlight => highlight.startRow < rows && highlight.startCol < cols)
+                        .map((highlight, i) => (
+                            <div
+                                key={i}
+                                className="pointer-events-none absolute z-10 border-2"
+                                style={{
+                                    top: highlight.startRow * rowHeight + headerHeight,
+                                    left: highlight.startCol * colWidth + headerWidth,
+                                    width: (Math.min(highlight.endCol, cols - 1) - highlight.startCol + 1) * colWidth,
+                                    height: (Math.min(highlight.endRow, rows - 1) - highlight.startRow + 1) * rowHeight,
+                                    borderColor: highlight.color,
+                                    // 8-digit hex: the same colour at about 8% opacity
+                                    backgroundColor: `${highlight.color}14`,
+                                }}
+                            />
+                        ))}
                 </div>
             </div>
         </div>
@@ -1,5 +1,6 @@
-import { useState, useRef, useEffect } from 'react';
-import { Save, Undo, Redo, Printer, Share2, Bold, Italic, Underline, AlignLeft, AlignCenter, AlignRight, AlignJustify, Download, Upload, Trash2, Search, BarChart3, FileText, Settings, HelpCircle, ChevronDown, Merge, Palette, Type, Hash, Grid3x3, Filter, ArrowUpDown, Keyboard, Image as ImageIcon, FileSpreadsheet, Code } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { Save, Undo, Redo, Printer, Share2, Bold, Italic, Underline, AlignLeft, AlignCenter, AlignRight, AlignJustify, Download, Upload, Trash2, Search, BarChart3, FileText, Settings, HelpCircle, ChevronDown, Merge, Palette, Type, Hash, Grid3x3, Filter, ArrowUpDown, Keyboard, Image as ImageIcon, FileSpreadsheet, Code, Calculator, Sigma, CalendarDays, Landmark, ToggleLeft, Tag, Table, Puzzle, Boxes, RefreshCw, Check } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -14,9 +15,17 @@ import { KeyTipBadge } from './KeyTipBadge';
 import { KeyTipOverlay } from './KeyTipOverlay';
 import { KeyboardShortcutsDialog } from './KeyboardShortcutsDialog';
 import { KeyTipSettingsDialog } from './KeyTipSettingsDialog';
+import { CalculationOptionsDialog } from './CalculationOptionsDialog';
+import { NameManagerDialog } from './NameManagerDialog';
+import FormulaBarInput from './FormulaBarInput';
 import { useKeyTips } from '../hooks/useKeyTips';
+import { useFunctions } from '../hooks/useFunctions';
+import type { CalculationSettings } from '../hooks/useCalculationSettings';
 import { exportUnifiedSourceCode } from '../lib/unifiedExport';
-import type { SpreadsheetPermission, CellFormat } from '../backend';
+import { getFormulaLocale } from '../lib/formulaLocale';
+import { formatSheetPrefix } from '../lib/formulaParser';
+import type { FunctionCategory } from '../lib/formulaRegistry';
+import type { SpreadsheetPermission, CellFormat, NamedRange } from '../backend';
 
 interface ExcelRibbonProps {
     selectedCell: { row: number; col: number } | null;
@@ -46,6 +55,20 @@ interface ExcelRibbonProps {
     onApplyFontColor: (color: string) => void;
     onApplyFillColor: (color: string) => void;
     onInsertImage: (e: React.ChangeEvent<HTMLInputElement>) => void;
+    calculationSettings: CalculationSettings;
+    onCalculationSettingsChange: (settings: CalculationSettings) => void;
+    // F9 and Shift+F9
+    onCalculateNow: () => void;
+    onCalculateSheet: () => void;
+    names: NamedRange[];
+    sheetNames: string[];
+    activeSheet: string;
+    // Absolute, sheet-qualified reference to the selection, e.g. Sheet1!$A$1:$B$4
+    selectionReference: string;
+    onDefineName: (namedRange: NamedRange, previous?: NamedRange) => void;
+    onDeleteName: (namedRange: NamedRange) => void;
+    // Selects a typed reference or defined name; false when it is neither
+    onNameBoxSubmit: (text: string) => boolean;
 }
 
 function getColumnLabel(index: number): string {
@@ -58,6 +81,21 @@ function getColumnLabel(index: number): string {
     return label;
 }
 
+// Function Library menus, each listing the functions of its categories in turn;
+// a menu without any functions, such as Custom before a pack is registered, is hidden
+const FUNCTION_MENUS: { label: string; icon: LucideIcon; categories: FunctionCategory[] }[] = [
+    { label: 'Text', icon: Type, categories: ['Text'] },
+    { label: 'Math', icon: Hash, categories: ['Math'] },
+    { label: 'Financial', icon: Landmark, categories: ['Financial'] },
+    { label: 'Statistical', icon: BarChart3, categories: ['Statistical'] },
+    { label: 'Conditional', icon: Sigma, categories: ['Conditional'] },
+    { label: 'Logical', icon: ToggleLeft, categories: ['Logical', 'Information'] },
+    { label: 'Lookup & Reference', icon: Table, categories: ['Lookup & Reference'] },
+    { label: 'Date & Time', icon: CalendarDays, categories: ['Date & Time'] },
+    { label: 'Web3', icon: Boxes, categories: ['Web3'] },
+    { label: 'Custom', icon: Puzzle, categories: ['Custom'] },
+];
+
 const COLOR_PALETTE = [
     { name: 'White', value: '#FFFFFF' },
     { name: 'Black', value: '#000000' },
@@ -94,6 +132,17 @@ export default function ExcelRibbon({
     onApplyFontColor,
     onApplyFillColor,
     onInsertImage,
+    calculationSettings,
+    onCalculationSettingsChange,
+    onCalculateNow,
+    onCalculateSheet,
+    names,
+    sheetNames,
+    activeSheet,
+    selectionReference,
+    onDefineName,
+    onDeleteName,
+    onNameBoxSubmit,
 }: ExcelRibbonProps) {
     const [activeTab, setActiveTab] = useState('home');
     const [showShareDialog, setShowShareDialog] = useState(false);
@@ -101,10 +150,16 @@ export default function ExcelRibbon({
     const [sharePermission, setSharePermission] = useState<SpreadsheetPermission>('editor' as any);
     const [showShortcutsDialog, setShowShortcutsDialog] = useState(false);
     const [showSettingsDialog, setShowSettingsDialog] = useState(false);
+    const [showCalculationDialog, setShowCalculationDialog] = useState(false);
+    const [showNameManager, setShowNameManager] = useState(false);
+    const [nameBoxValue, setNameBoxValue] = useState('');
+    const [isEditingNameBox, setIsEditingNameBox] = useState(false);
     const [fontColorOpen, setFontColorOpen] = useState(false);
     const [fillColorOpen, setFillColorOpen] = useState(false);
 
     const keyTips = useKeyTips();
+    const functions = useFunctions();
+    const formulaLocale = useMemo(() => getFormulaLocale(calculationSettings.locale), [calculationSettings.locale]);
 
     // Refs for KeyTip badges
     const fileTabRef = useRef<HTMLButtonElement>(null);
@@ -135,6 +190,7 @@ export default function ExcelRibbon({
     const sortBtnRef = useRef<HTMLButtonElement>(null);
 
     const imageInputRef = useRef<HTMLInputElement>(null);
+    const nameBoxRef = useRef<HTMLInputElement>(null);
     const excelInputRef = useRef<HTMLInputElement>(null);
 
     // Register KeyTips
@@ -204,6 +260,13 @@ export default function ExcelRibbon({
         ? `${getColumnLabel(selectedCell.col)}${selectedCell.row + 1}`
         : '';
 
+    const handleNameBoxSubmit = (text: string) => {
+        if (!text.trim() || onNameBoxSubmit(text.trim())) {
+            setIsEditingNameBox(false);
+            nameBoxRef.current?.blur();
+        }
+    };
+
     const showTabKeyTips = keyTips.isActive && keyTips.state === 'awaitingTab';
     const showCommandKeyTips = keyTips.isActive && keyTips.state === 'awaitingCommand';
 
@@ -708,37 +771,80 @@ export default function ExcelRibbon({
                             <div className="flex flex-col gap-1">
                                 <span className="text-xs text-muted-foreground">Function Library</span>
                                 <div className="flex gap-1">
+                                    {FUNCTION_MENUS.map(({ label, icon: Icon, categories }) => {
+                                        const groups = categories
+                                            .map((category) => functions.filter((info) => info.category === category))
+                                            .filter((group) => group.length > 0);
+                                        if (groups.length === 0) return null;
+                                        return (
+                                            <DropdownMenu key={label}>
+                                                <DropdownMenuTrigger asChild>
+                                                    <Button variant="outline" size="sm">
+                                                        <Icon className="mr-2 h-4 w-4" />
+                                                        {label}
+                                                        <ChevronDown className="ml-2 h-4 w-4" />
+                                                    </Button>
+                                                </DropdownMenuTrigger>
+                                                <DropdownMenuContent className="max-h-96 overflow-y-auto">
+                                                    {groups.map((group, i) => [
+                                                        i > 0 && <DropdownMenuSeparator key={`separator-${i}`} />,
+                                                        ...group.map((info) => (
+                                                            <DropdownMenuItem key={info.name} title={info.description}>
+                                                                {info.name}
+                                                            </DropdownMenuItem>
+                                                        )),
+                                                    ])}
+                                                </DropdownMenuContent>
+                                            </DropdownMenu>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                            <Separator orientation="vertical" className="h-12" />
+                            <div className="flex flex-col gap-1">
+                                <span className="text-xs text-muted-foreground">Defined Names</span>
+                                <div className="flex gap-1">
+                                    <Button variant="outline" size="sm" onClick={() => setShowNameManager(true)}>
+                                        <Tag className="mr-2 h-4 w-4" />
+                                        Name Manager
+                                    </Button>
+                                </div>
+                            </div>
+                            <Separator orientation="vertical" className="h-12" />
+                            <div className="flex flex-col gap-1">
+                                <span className="text-xs text-muted-foreground">Calculation</span>
+                                <div className="flex gap-1">
+                                    <Button variant="outline" size="sm" onClick={() => setShowCalculationDialog(true)}>
+                                        <Calculator className="mr-2 h-4 w-4" />
+                                        Calculation Options
+                                    </Button>
                                     <DropdownMenu>
                                         <DropdownMenuTrigger asChild>
-                                            <Button variant="outline" size="sm">
-                                                <Type className="mr-2 h-4 w-4" />
-                                                Text
-                                                <ChevronDown className="ml-2 h-4 w-4" />
-                                            </Button>
-                                        </DropdownMenuTrigger>
-                                        <DropdownMenuContent>
-                                            <DropdownMenuItem>CONCAT</DropdownMenuItem>
-                                            <DropdownMenuItem>LEN</DropdownMenuItem>
-                                            <DropdownMenuItem>UPPER</DropdownMenuItem>
-                                            <DropdownMenuItem>LOWER</DropdownMenuItem>
-                                        </DropdownMenuContent>
-                                    </DropdownMenu>
-                                    <DropdownMenu>
-                                        <DropdownMenuTrigger asChild>
-                                            <Button variant="outline" size="sm">
-                                                <Hash className="mr-2 h-4 w-4" />
-                                                Math
+                                            <Button variant="outline" size="sm" title="Calculation mode">
+                                                {calculationSettings.mode === 'manual' ? 'Manual' : 'Automatic'}
                                                 <ChevronDown className="ml-2 h-4 w-4" />
                                             </Button>
                                         </DropdownMenuTrigger>
                                         <DropdownMenuContent>
-                                            <DropdownMenuItem>SUM</DropdownMenuItem>
-                                            <DropdownMenuItem>AVERAGE</DropdownMenuItem>
-                                            <DropdownMenuItem>MIN</DropdownMenuItem>
-                                            <DropdownMenuItem>MAX</DropdownMenuItem>
-                                            <DropdownMenuItem>ROUND</DropdownMenuItem>
+                                            {(['automatic', 'manual'] as const).map((mode) => (
+                                                <DropdownMenuItem
+                                                    key={mode}
+                                                    onClick={() => onCalculationSettingsChange({ ...calculationSettings, mode })}
+                                                >
+                                                    <Check className={`mr-2 h-4 w-4 ${calculationSettings.mode === mode ? '' : 'invisible'}`} />
+                                                    {mode === 'automatic' ? 'Automatic' : 'Manual'}
+                                                </DropdownMenuItem>
+                                            ))}
                                         </DropdownMenuContent>
                                     </DropdownMenu>
+                                    <Button variant="outline" size="sm" onClick={onCalculateNow} title="Calculate the whole workbook (F9)">
+                                        <RefreshCw className="mr-2 h-4 w-4" />
+                                        Calculate Now
+                                    </Button>
+                                    <Button variant="outline" size="sm" onClick={onCalculateSheet} title="Calculate the active sheet (Shift+F9)">
+                                        <FileSpreadsheet className="mr-2 h-4 w-4" />
+                                        Calculate Sheet
+                                    </Button>
                                 </div>
                             </div>
                         </div>
@@ -803,37 +909,76 @@ export default function ExcelRibbon({
                         <Label htmlFor="name-box" className="text-xs text-muted-foreground sr-only">
                             Name Box
                         </Label>
-                        <Input
-                            id="name-box"
-                            value={cellReference}
-                            readOnly
-                            className="h-8 w-24 text-sm font-medium bg-background"
-                            aria-label="Cell reference"
-                        />
+                        <div className="flex items-center">
+                            <Input
+                                id="name-box"
+                                ref={nameBoxRef}
+                                value={isEditingNameBox ? nameBoxValue : cellReference}
+                                onFocus={(e) => {
+                                    setNameBoxValue(cellReference);
+                                    setIsEditingNameBox(true);
+                                    e.target.select();
+                                }}
+                                onChange={(e) => setNameBoxValue(e.target.value)}
+                                onBlur={() => setIsEditingNameBox(false)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') {
+                                        handleNameBoxSubmit(nameBoxValue);
+                                    } else if (e.key === 'Escape') {
+                                        setIsEditingNameBox(false);
+                                        nameBoxRef.current?.blur();
+                                    }
+                                }}
+                                className="h-8 w-28 rounded-r-none text-sm font-medium bg-background"
+                                aria-label="Name Box: cell reference or defined name"
+                            />
+                            <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                    <Button
+                                        variant="outline"
+                                        size="icon"
+                                        className="h-8 w-6 rounded-l-none border-l-0"
+                                        aria-label="Defined names"
+                                        disabled={names.length === 0}
+                                    >
+                                        <ChevronDown className="h-3 w-3" />
+                                    </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="start">
+                                    {names.map((namedRange) => (
+                                        <DropdownMenuItem
+                                            key={`${namedRange.scope ?? ''}!${namedRange.name}`}
+                                            onClick={() => onNameBoxSubmit(namedRange.scope ? formatSheetPrefix(namedRange.scope) + namedRange.name : namedRange.name)}
+                                        >
+                                            {namedRange.name}
+                                            {namedRange.scope && <span className="ml-2 text-xs text-muted-foreground">{namedRange.scope}</span>}
+                                        </DropdownMenuItem>
+                                    ))}
+                                </DropdownMenuContent>
+                            </DropdownMenu>
+                        </div>
                         <Separator orientation="vertical" className="h-6" />
                     </div>
                     <div className="flex-1 flex items-center gap-2">
                         <Label htmlFor="formula-bar" className="text-xs text-muted-foreground sr-only">
                             Formula Bar
                         </Label>
-                        <Input
-                            id="formula-bar"
-                            ref={inputRef}
+                        <FormulaBarInput
+                            inputRef={inputRef}
                             value={formulaBarValue}
-                            onChange={(e) => onFormulaBarChange(e.target.value)}
+                            onChange={onFormulaBarChange}
+                            onSubmit={onFormulaBarSubmit}
+                            onCancel={() => {
+                                setIsEditingCell(false);
+                                inputRef.current?.blur();
+                            }}
                             onFocus={() => setIsEditingCell(true)}
                             onBlur={() => setIsEditingCell(false)}
-                            onKeyDown={(e) => {
-                                if (e.key === 'Enter') {
-                                    onFormulaBarSubmit();
-                                } else if (e.key === 'Escape') {
-                                    setIsEditingCell(false);
-                                    inputRef.current?.blur();
-                                }
-                            }}
-                            placeholder="Enter value or formula (e.g. =SUM(A1:A10))"
-                            className="flex-1 h-8 text-sm bg-background"
-                            aria-label="Formula bar"
+                            locale={formulaLocale}
+                            functions={functions}
+                            names={names}
+                            sheetNames={sheetNames}
+                            activeSheet={activeSheet}
                         />
                         <Button
                             size="sm"
@@ -856,6 +1001,21 @@ export default function ExcelRibbon({
                 settings={keyTips.settings}
                 onSettingsChange={keyTips.saveSettings}
             />
+            <CalculationOptionsDialog
+                open={showCalculationDialog}
+                onOpenChange={setShowCalculationDialog}
+                settings={calculationSettings}
+                onSettingsChange={onCalculationSettingsChange}
+            />
+            <NameManagerDialog
+                open={showNameManager}
+                onOpenChange={setShowNameManager}
+                names={names}
+                sheetNames={sheetNames}
+                defaultReference={selectionReference}
+                onDefineName={onDefineName}
+                onDeleteName={onDeleteName}
+            />
         </TooltipProvider>
     );
 }
@@ -2,6 +2,7 @@ import { Plus, Minus, ZoomIn, ChevronLeft, ChevronRight } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import type { RecalculationProgress } from '../lib/formulaEngine';
 
 interface ExcelStatusBarProps {
     sheets: string[];
@@ -13,6 +14,14 @@ interface ExcelStatusBarProps {
     onZoomChange: (zoom: number) => void;
     cellCount: number;
     isAddingSheet: boolean;
+    circularReferences: string[];
+    // Formulas that converted exact decimals to doubles, losing digits
+    lossyCells: string[];
+    // Manual calculation mode has changes waiting; clicking Calculate runs them
+    calculationPending: boolean;
+    onCalculate: () => void;
+    // Set while a long recalculation runs
+    calculationProgress: RecalculationProgress | null;
 }
 
 export default function ExcelStatusBar({
@@ -25,6 +34,11 @@ export default function ExcelStatusBar({
     onZoomChange,
     cellCount,
     isAddingSheet,
+    circularReferences,
+    lossyCells,
+    calculationPending,
+    onCalculate,
+    calculationProgress,
 }: ExcelStatusBarProps) {
     return (
         <div className="border-t bg-card">
@@ -90,6 +104,45 @@ export default function ExcelStatusBar({
             <div className="flex items-center justify-between px-4 py-1 text-xs text-muted-foreground">
                 <div className="flex items-center gap-4">
                     <span>Cells: {cellCount}</span>
+                    {calculationProgress && (
+                        <span className="flex items-center gap-2" role="status">
+                            Calculating: {Math.floor((100 * calculationProgress.evaluatedCells) / Math.max(calculationProgress.totalCells, 1))}%
+                            <span className="h-1.5 w-24 overflow-hidden rounded bg-muted">
+                                <span
+                                    className="block h-full bg-primary transition-[width]"
+                                    style={{ width: `${(100 * calculationProgress.evaluatedCells) / Math.max(calculationProgress.totalCells, 1)}%` }}
+                                />
+                            </span>
+                        </span>
+                    )}
+                    {calculationPending && (
+                        <button
+                            type="button"
+                            className="font-medium text-foreground hover:underline"
+                            onClick={onCalculate}
+                            title="Formulas are out of date. Calculate now (F9)"
+                        >
+                            Calculate
+                        </button>
+                    )}
+                    {circularReferences.length > 0 && (
+                        <span
+                            className="text-destructive font-medium"
+                            title={circularReferences.join(', ')}
+                        >
+                            Circular References: {circularReferences[0]}
+                            {circularReferences.length > 1 && ` (+${circularReferences.length - 1} more)`}
+                        </span>
+                    )}
+                    {lossyCells.length > 0 && (
+                        <span
+                            className="text-amber-600 font-medium"
+                            title={`Converted exact numbers to floating point: ${lossyCells.join(', ')}`}
+                        >
+                            Precision Lost: {lossyCells[0]}
+                            {lossyCells.length > 1 && ` (+${lossyCells.length - 1} more)`}
+                        </span>
+                    )}
                 </div>
 
                 <div className="flex items-center gap-2">
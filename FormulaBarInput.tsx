@@ -0,0 +1,278 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { Input } from '@/components/ui/input';
+import { findFormulaReferences, getCompletionContext, getArgumentContext } from '../lib/formulaAssist';
+import { localizeFunctionName } from '../lib/formulaLocale';
+import type { FormulaLocale } from '../lib/formulaLocale';
+import { formatSheetPrefix } from '../lib/formulaParser';
+import type { FunctionInfo } from '../lib/formulaRegistry';
+import type { NamedRange } from '../backend';
+
+// Colours references take in the formula bar and on the grid, in order of first appearance
+export const REFERENCE_COLORS = ['#2563eb', '#dc2626', '#7c3aed', '#16a34a', '#db2777', '#ca8a04', '#0891b2', '#ea580c'];
+
+export function getReferenceColor(colorIndex: number): string {
+    return REFERENCE_COLORS[colorIndex % REFERENCE_COLORS.length];
+}
+
+// Completions shown at once; typing more narrows them down
+const MAX_COMPLETIONS = 50;
+
+interface Completion {
+    kind: 'function' | 'name' | 'sheet';
+    label: string;
+    // Replaces the word being typed
+    insertText: string;
+    detail?: string;
+}
+
+interface FormulaBarInputProps {
+    inputRef: React.RefObject<HTMLInputElement | null>;
+    value: string;
+    onChange: (value: string) => void;
+    onSubmit: () => void;
+    onCancel: () => void;
+    onFocus: () => void;
+    onBlur: () => void;
+    locale: FormulaLocale;
+    functions: FunctionInfo[];
+    names: NamedRange[];
+    sheetNames: string[];
+    // Names scoped to other sheets need their sheet's prefix here
+    activeSheet: string;
+}
+
+function formatArguments(info: FunctionInfo, locale: FormulaLocale, activeIndex: number) {
+    const lastIndex = info.args.length - 1;
+    // Arguments past the last repeat it, as SUM's number3, number4 and so on
+    const active = info.args[lastIndex]?.repeating ? Math.min(activeIndex, lastIndex) : activeIndex;
+    return info.args.map((arg, i) => {
+        const text = `${arg.optional ? `[${arg.name}]` : arg.name}${arg.repeating ? `${locale.argumentSeparator} ...` : ''}`;
+        return (
+            <span key={arg.name}>
+                {i > 0 && `${locale.argumentSeparator} `}
+                <span className={i === active ? 'font-semibold text-foreground' : undefined}>{text}</span>
+            </span>
+        );
+    });
+}
+
+/**
+ * The formula bar's input. While a formula is typed it lists matching
+ * functions, defined names and sheets (Tab or Enter to insert, arrows to
+ * choose), shows the arguments of the function the caret is in, and colours
+ * each reference the way the grid outlines it.
+ */
+export default function FormulaBarInput({
+    inputRef,
+    value,
+    onChange,
+    onSubmit,
+    onCancel,
+    onFocus,
+    onBlur,
+    locale,
+    functions,
+    names,
+    sheetNames,
+    activeSheet,
+}: FormulaBarInputProps) {
+    const [caret, setCaret] = useState<number | null>(null);
+    const [activeIndex, setActiveIndex] = useState(0);
+    const [dismissed, setDismissed] = useState(false);
+    const mirrorRef = useRef<HTMLDivElement>(null);
+    const pendingCaretRef = useRef<number | null>(null);
+
+    const references = useMemo(() => findFormulaReferences(value, locale), [value, locale]);
+
+    const completions = useMemo<Completion[]>(() => {
+        if (caret === null || dismissed) return [];
+        const context = getCompletionContext(value, caret, locale);
+        if (!context) return [];
+        const prefix = context.prefix.toUpperCase();
+        const sheets = sheetNames
+            .filter((sheetName) => sheetName.toUpperCase().startsWith(prefix))
+            .map((sheetName): Completion => ({ kind: 'sheet', label: sheetName, insertText: formatSheetPrefix(sheetName), detail: 'Sheet' }));
+        if (context.sheet) return sheets;
+
+        const matchingFunctions = functions
+            .map((info) => ({ info, name: localizeFunctionName(info.name, locale) }))
+            .filter(({ name }) => name.toUpperCase().startsWith(prefix))
+            .map(({ info, name }): Completion => ({ kind: 'function', label: name, insertText: `${name}(`, detail: info.description }));
+        const matchingNames = names
+            .filter((namedRange) => namedRange.name.toUpperCase().startsWith(prefix))
+            .map((namedRange): Completion => {
+                const inScope = !namedRange.scope || namedRange.scope.toUpperCase() === activeSheet.toUpperCase();
+                return {
+                    kind: 'name',
+                    label: namedRange.name,
+                    insertText: inScope ? namedRange.name : formatSheetPrefix(namedRange.scope!) + namedRange.name,
+                    detail: namedRange.scope ? `${namedRange.scope}!${namedRange.reference}` : namedRange.reference,
+                };
+            });
+        return [...matchingNames, ...matchingFunctions, ...sheets].slice(0, MAX_COMPLETIONS);
+    }, [value, caret, dismissed, locale, functions, names, sheetNames, activeSheet]);
+
+    const argumentHint = useMemo(() => {
+        if (caret === null || completions.length > 0) return null;
+        const context = getArgumentContext(value, caret, locale);
+        const info = context && functions.find((candidate) => candidate.name === context.name || candidate.aliases?.includes(context.name));
+        return info ? { info, argumentIndex: context.argumentIndex } : null;
+    }, [value, caret, completions.length, locale, functions]);
+
+    useEffect(() => setActiveIndex(0), [completions]);
+
+    // Put the caret back after an insertion once the new value has rendered
+    useEffect(() => {
+        const position = pendingCaretRef.current;
+        if (position === null || !inputRef.current) return;
+        pendingCaretRef.current = null;
+        inputRef.current.setSelectionRange(position, position);
+        setCaret(position);
+    }, [value, inputRef]);
+
+    const syncCaret = () => {
+        const input = inputRef.current;
+        if (!input) return;
+        setCaret(input.selectionStart === input.selectionEnd ? input.selectionStart : null);
+        if (mirrorRef.current) mirrorRef.current.scrollLeft = input.scrollLeft;
+    };
+
+    const insertCompletion = (completion: Completion) => {
+        const context = caret === null ? null : getCompletionContext(value, caret, locale);
+        if (!context) return;
+        pendingCaretRef.current = context.start + completion.insertText.length;
+        onChange(value.slice(0, context.start) + completion.insertText + value.slice(context.end));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (completions.length > 0) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setActiveIndex((index) => (index + step + completions.length) % completions.length);
+                return;
+            }
+            if (e.key === 'Tab' || e.key === 'Enter') {
+                e.preventDefault();
+                insertCompletion(completions[activeIndex]);
+                return;
+            }
+            if (e.key === 'Escape') {
+                // Only closes the list; the next Escape leaves the formula bar
+                e.preventDefault();
+                e.stopPropagation();
+                setDismissed(true);
+                return;
+            }
+        }
+        if (e.key === 'Enter') {
+            onSubmit();
+        } else if (e.key === 'Escape') {
+            onCancel();
+        }
+    };
+
+    // The formula's text, its references coloured, drawn under the input's transparent text
+    const colouredText = useMemo(() => {
+        if (references.length === 0) return null;
+        const parts: React.ReactNode[] = [];
+        let position = 0;
+        references.forEach((reference, i) => {
+            parts.push(value.slice(position, reference.start));
+            parts.push(
+                <span key={i} style={{ color: getReferenceColor(reference.colorIndex) }}>
+                    {value.slice(reference.start, reference.end)}
+                </span>
+            );
+            position = reference.end;
+        });
+        parts.push(value.slice(position));
+        return parts;
+    }, [value, references]);
+
+    return (
+        <div className="relative flex-1">
+            {colouredText && (
+                <div
+                    ref={mirrorRef}
+                    aria-hidden="true"
+                    className="pointer-events-none absolute inset-0 flex items-center overflow-hidden whitespace-pre rounded-md border border-transparent px-3 text-sm"
+                >
+                    {colouredText}
+                </div>
+            )}
+            <Input
+                id="formula-bar"
+                ref={inputRef}
+                value={value}
+                onChange={(e) => {
+                    setDismissed(false);
+                    onChange(e.target.value);
+                    setCaret(e.target.selectionStart);
+                }}
+                onSelect={syncCaret}
+                onScroll={syncCaret}
+                onFocus={onFocus}
+                onBlur={() => {
+                    setCaret(null);
+                    onBlur();
+                }}
+                onKeyDown={handleKeyDown}
+                placeholder="Enter value or formula (e.g. =SUM(A1:A10))"
+                className={`h-8 text-sm ${colouredText ? 'bg-transparent text-transparent caret-foreground' : 'bg-background'}`}
+                aria-label="Formula bar"
+                aria-autocomplete="list"
+                aria-expanded={completions.length > 0}
+                aria-controls="formula-bar-completions"
+                autoComplete="off"
+                spellCheck={false}
+            />
+
+            {completions.length > 0 && (
+                <ul
+                    id="formula-bar-completions"
+                    role="listbox"
+                    className="absolute left-0 top-full z-50 mt-1 max-h-64 w-96 overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+                >
+                    {completions.map((completion, i) => (
+                        <li
+                            key={`${completion.kind}:${completion.label}:${completion.detail ?? ''}`}
+                            role="option"
+                            aria-selected={i === activeIndex}
+                            className={`cursor-pointer rounded-sm px-2 py-1 text-sm ${i === activeIndex ? 'bg-accent text-accent-foreground' : ''}`}
+                            // Keeps focus, and the caret, in the formula bar
+                            onMouseDown={(e) => {
+                                e.preventDefault();
+                                insertCompletion(completion);
+                            }}
+                            onMouseEnter={() => setActiveIndex(i)}
+                        >
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="font-medium">{completion.label}</span>
+                                <span className="text-xs text-muted-foreground">
+                                    {completion.kind === 'function' ? 'Function' : completion.kind === 'name' ? 'Name' : 'Sheet'}
+                                </span>
+                            </div>
+                            {completion.detail && completion.kind !== 'sheet' && (
+                                <div className="truncate text-xs text-muted-foreground">{completion.detail}</div>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {argumentHint && (
+                <div
+                    role="tooltip"
+                    className="absolute left-0 top-full z-50 mt-1 max-w-xl rounded-md border bg-popover px-3 py-2 text-xs text-muted-foreground shadow-md"
+                >
+                    <div>
+                        <span className="font-medium text-foreground">{localizeFunctionName(argumentHint.info.name, locale)}</span>(
+                        {formatArguments(argumentHint.info, locale, argumentHint.argumentIndex)})
+                    </div>
+                    <div className="mt-1">{argumentHint.info.description}</div>
+                </div>
+            )}
+        </div>
+    );
+}
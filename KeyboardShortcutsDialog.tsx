@@ -48,6 +48,7 @@ export function KeyboardShortcutsDialog({ open, onOpenChange }: KeyboardShortcut
                     { keys: ['Shift', 'Tab'], description: 'Confirm entry and move left' },
                     { keys: ['F2'], description: 'Edit active cell' },
                     { keys: ['Esc'], description: 'Cancel editing' },
+                    { keys: ['Tab'], description: 'Insert the highlighted formula suggestion' },
                     { keys: ['Delete'], description: 'Clear cell contents' },
                   ]}
                 />
@@ -86,6 +87,8 @@ export function KeyboardShortcutsDialog({ open, onOpenChange }: KeyboardShortcut
                     { keys: [ctrlKey, 'F'], description: 'Find' },
                     { keys: [ctrlKey, 'H'], description: 'Replace' },
                     { keys: [ctrlKey, 'PgUp/PgDn'], description: 'Switch sheets' },
+                    { keys: ['F9'], description: 'Calculate all sheets' },
+                    { keys: ['Shift', 'F9'], description: 'Calculate active sheet' },
                   ]}
                 />
               </div>
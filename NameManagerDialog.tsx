@@ -0,0 +1,244 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { parseFormula } from '../lib/formulaParser';
+import { isValidName } from '../lib/formulaNames';
+import { isFunctionName } from '../lib/formulaEngine';
+import type { NamedRange } from '../backend';
+
+interface NameManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  names: NamedRange[];
+  sheetNames: string[];
+  // What a new name refers to until edited: the current selection
+  defaultReference: string;
+  onDefineName: (namedRange: NamedRange, previous?: NamedRange) => void;
+  onDeleteName: (namedRange: NamedRange) => void;
+}
+
+interface NameForm {
+  name: string;
+  reference: string;
+  scope: string;
+  comment: string;
+}
+
+// Select values: the workbook, or a sheet prefixed so no sheet name can clash
+const WORKBOOK_SCOPE = 'workbook';
+const toScopeValue = (scope?: string) => (scope === undefined ? WORKBOOK_SCOPE : `sheet:${scope}`);
+const fromScopeValue = (value: string) => (value === WORKBOOK_SCOPE ? undefined : value.slice('sheet:'.length));
+
+const sameName = (left: NamedRange, right: NamedRange) =>
+  left.name.toUpperCase() === right.name.toUpperCase() && (left.scope ?? '') === (right.scope ?? '');
+
+export function NameManagerDialog({
+  open,
+  onOpenChange,
+  names,
+  sheetNames,
+  defaultReference,
+  onDefineName,
+  onDeleteName,
+}: NameManagerDialogProps) {
+  const [selected, setSelected] = useState<NamedRange | null>(null);
+  // The name being created or edited; null while just browsing
+  const [form, setForm] = useState<NameForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setSelected(null);
+      setForm(null);
+      setError(null);
+    }
+  }, [open]);
+
+  const sortedNames = [...names].sort(
+    (a, b) => a.name.localeCompare(b.name) || (a.scope ?? '').localeCompare(b.scope ?? '')
+  );
+
+  const startNew = () => {
+    setSelected(null);
+    setForm({ name: '', reference: defaultReference, scope: WORKBOOK_SCOPE, comment: '' });
+    setError(null);
+  };
+
+  const startEdit = (namedRange: NamedRange) => {
+    setSelected(namedRange);
+    setForm({
+      name: namedRange.name,
+      reference: namedRange.reference,
+      scope: toScopeValue(namedRange.scope),
+      comment: namedRange.comment ?? '',
+    });
+    setError(null);
+  };
+
+  const handleSave = () => {
+    if (!form) return;
+    const name = form.name.trim();
+    const reference = form.reference.trim().replace(/^=/, '');
+    const namedRange: NamedRange = {
+      name,
+      reference,
+      scope: fromScopeValue(form.scope),
+      comment: form.comment.trim() || undefined,
+    };
+
+    if (!isValidName(name)) {
+      setError('Names start with a letter or underscore, use only letters, digits, underscores and periods, and cannot look like a cell reference');
+      return;
+    }
+    if (isFunctionName(name)) {
+      setError(`${name} is a built-in function name`);
+      return;
+    }
+    if (names.some((other) => sameName(other, namedRange) && !(selected && sameName(selected, other)))) {
+      setError(`The name ${name} already exists in this scope`);
+      return;
+    }
+    try {
+      parseFormula(reference);
+    } catch {
+      setError('Refers to must be a valid reference or formula');
+      return;
+    }
+
+    onDefineName(namedRange, selected ?? undefined);
+    setSelected(namedRange);
+    setForm(null);
+    setError(null);
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    onDeleteName(selected);
+    setSelected(null);
+    setForm(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Name Manager</DialogTitle>
+          <DialogDescription>
+            Define names for cells, ranges and constants to use in formulas and the Name Box
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" onClick={startNew}>
+              New...
+            </Button>
+            <Button size="sm" variant="outline" disabled={!selected} onClick={() => selected && startEdit(selected)}>
+              Edit...
+            </Button>
+            <Button size="sm" variant="outline" disabled={!selected} onClick={handleDelete}>
+              Delete
+            </Button>
+          </div>
+
+          <div className="rounded-md border">
+            <div className="grid grid-cols-[1fr_1.5fr_1fr_1.5fr] gap-2 border-b bg-muted px-3 py-2 text-xs font-semibold">
+              <span>Name</span>
+              <span>Refers To</span>
+              <span>Scope</span>
+              <span>Comment</span>
+            </div>
+            <ScrollArea className="h-48">
+              {sortedNames.length === 0 ? (
+                <p className="px-3 py-4 text-sm text-muted-foreground">No names defined</p>
+              ) : (
+                sortedNames.map((namedRange) => (
+                  <button
+                    key={`${namedRange.scope ?? ''}!${namedRange.name}`}
+                    type="button"
+                    className={`grid w-full grid-cols-[1fr_1.5fr_1fr_1.5fr] gap-2 px-3 py-1.5 text-left text-sm hover:bg-accent ${
+                      selected && sameName(selected, namedRange) ? 'bg-accent' : ''
+                    }`}
+                    onClick={() => setSelected(namedRange)}
+                    onDoubleClick={() => startEdit(namedRange)}
+                  >
+                    <span className="truncate font-medium">{namedRange.name}</span>
+                    <span className="truncate font-mono text-xs leading-5">={namedRange.reference}</span>
+                    <span className="truncate">{namedRange.scope ?? 'Workbook'}</span>
+                    <span className="truncate text-muted-foreground">{namedRange.comment}</span>
+                  </button>
+                ))
+              )}
+            </ScrollArea>
+          </div>
+
+          {form && (
+            <div className="space-y-4 rounded-lg bg-muted p-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="defined-name">Name</Label>
+                  <Input
+                    id="defined-name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="TaxRate"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="name-scope">Scope</Label>
+                  <Select
+                    value={form.scope}
+                    onValueChange={(scope) => setForm({ ...form, scope })}
+                    disabled={!!selected}
+                  >
+                    <SelectTrigger id="name-scope">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={WORKBOOK_SCOPE}>Workbook</SelectItem>
+                      {sheetNames.map((sheetName) => (
+                        <SelectItem key={sheetName} value={toScopeValue(sheetName)}>
+                          {sheetName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="name-reference">Refers to</Label>
+                <Input
+                  id="name-reference"
+                  value={form.reference}
+                  onChange={(e) => setForm({ ...form, reference: e.target.value })}
+                  placeholder="Sheet1!$A$1:$A$10"
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="name-comment">Comment</Label>
+                <Input
+                  id="name-comment"
+                  value={form.comment}
+                  onChange={(e) => setForm({ ...form, comment: e.target.value })}
+                />
+              </div>
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <div className="flex justify-end gap-2">
+                <Button size="sm" variant="outline" onClick={() => setForm(null)}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={handleSave}>
+                  OK
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,17 +1,43 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { toast } from 'sonner';
-import { useGetSpreadsheet, useGetSheet, useSaveCell, useAddSheet, useDeleteSheet, useShareSpreadsheet, useDeleteSpreadsheet, useApplyFormatToSelection, useApplyFontColor, useApplyFillColor, useAddImage, useUpdateImage, useDeleteImage, useSwitchSheet } from '../hooks/useQueries';
-import { evaluateFormula } from '../lib/formulaEngine';
+import { useCalculationSettings } from '../hooks/useCalculationSettings';
+import type { CalculationSettings } from '../hooks/useCalculationSettings';
+import { useFunctions } from '../hooks/useFunctions';
+import { useRecalculation } from '../hooks/useRecalculation';
+import type { RecalculationResultMessage } from '../hooks/useRecalculation';
+import { useGetSpreadsheet, useGetSheet, useSaveCell, useAddSheet, useDeleteSheet, useShareSpreadsheet, useDeleteSpreadsheet, useApplyFormatToSelection, useApplyFontColor, useApplyFillColor, useAddImage, useUpdateImage, useDeleteImage, useSwitchSheet, useListNames, useDefineName, useDeleteName } from '../hooks/useQueries';
+import { DEFAULT_CALCULATION_OPTIONS } from '../lib/formulaEngine';
+import { shiftFormulaReferences, retargetFormulaReferences } from '../lib/formulaReferences';
+import { parseCellReference, parseFormula, formatReferenceText, formatSheetPrefix } from '../lib/formulaParser';
+import type { FormulaNode } from '../lib/formulaParser';
+import { expandNames } from '../lib/formulaNames';
+import type { NameDefinition } from '../lib/formulaNames';
+import { hasCustomFunctions } from '../lib/formulaRegistry';
+import type { FunctionInfo } from '../lib/formulaRegistry';
+import { getFormulaLocale, localizeInput, delocalizeInput, localizeValue, localizeDisplayValue } from '../lib/formulaLocale';
+import type { FormulaValue } from '../lib/formulaValues';
+import { findFormulaReferences } from '../lib/formulaAssist';
+import { getChangedCellIds, splitQualifiedCellId } from '../lib/dependencyGraph';
+import { applyComputedCells } from '../lib/recalculationSession';
+import type { CellChange, ComputedCell } from '../lib/recalculationSession';
+import type { CalculationOptions } from '../lib/formulaEngine';
 import { exportToCSV, exportToXLSX, exportToJSON, importFromFile, importFromXLSX } from '../lib/importExport';
-import type { Sheet, SpreadsheetPermission, CellFormat, ImageData } from '../backend';
+import type { SpreadsheetFile, Sheet, SpreadsheetPermission, CellFormat, ImageData, NamedRange } from '../backend';
 import ExcelRibbon from './ExcelRibbon';
 import ExcelGrid from './ExcelGrid';
+import type { SpillRange, ReferenceHighlight } from './ExcelGrid';
+import { getReferenceColor } from './FormulaBarInput';
 import ExcelStatusBar from './ExcelStatusBar';
 import ImageLayer from './ImageLayer';
 
 const INITIAL_ROWS = 10000;
 const INITIAL_COLS = 50;
 
+// Whether formulas evaluate alike under both; the calculation mode and timer change no result
+function sameCalculationOptions(left: CalculationOptions, right: CalculationOptions): boolean {
+    return (Object.keys(DEFAULT_CALCULATION_OPTIONS) as (keyof CalculationOptions)[]).every(key => left[key] === right[key]);
+}
+
 function getColumnLabel(index: number): string {
     let label = '';
     let num = index;
@@ -30,7 +56,17 @@ interface CellData {
     value: string;
     formula?: string;
     displayValue?: string;
+    // Typed result, which tells numbers to show with the locale's separators from text
+    computedValue?: FormulaValue;
     format?: CellFormat;
+    // Anchor cell of the array formula whose result spilled into this cell
+    spilledFrom?: string;
+}
+
+// A spilled cell belongs to its formula; copying it copies the value it shows
+function toCopiedCell(cellData: CellData): CellData {
+    if (!cellData.spilledFrom) return cellData;
+    return { value: cellData.displayValue || '', format: cellData.format };
 }
 
 interface LocalImageData {
@@ -75,6 +111,7 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
     const [formulaBarValue, setFormulaBarValue] = useState('');
     const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
     const [copiedCells, setCopiedCells] = useState<Map<string, CellData> | null>(null);
+    const [isCutPending, setIsCutPending] = useState(false);
     const [isEditingCell, setIsEditingCell] = useState(false);
     const [zoom, setZoom] = useState(100);
     const [currentFormat, setCurrentFormat] = useState<CellFormat>({});
@@ -82,6 +119,12 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
 
     // Store state per sheet
     const [sheetStates, setSheetStates] = useState<Map<string, SheetState>>(new Map());
+    const [circularReferences, setCircularReferences] = useState<string[]>([]);
+    const [lossyCells, setLossyCells] = useState<string[]>([]);
+    // Manual calculation mode has changes that have not been calculated
+    const [calculationPending, setCalculationPending] = useState(false);
+    // A Calculate Now (F9) waiting to run, or with sheetName a Calculate Sheet (Shift+F9)
+    const [calculationRequest, setCalculationRequest] = useState<{ sheetName?: string } | null>(null);
 
     const { data: spreadsheet } = useGetSpreadsheet(spreadsheetId);
     const { data: sheet } = useGetSheet(spreadsheetId, activeSheet);
@@ -97,10 +140,51 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
     const updateImageMutation = useUpdateImage();
     const deleteImageMutation = useDeleteImage();
     const switchSheetMutation = useSwitchSheet();
+    const { data: namedRanges } = useListNames(spreadsheetId);
+    const defineNameMutation = useDefineName();
+    const deleteNameMutation = useDeleteName();
+    const { settings: calculationSettings, saveSettings: saveCalculationSettings } = useCalculationSettings(spreadsheetId);
+    const formulaLocale = useMemo(() => getFormulaLocale(calculationSettings.locale), [calculationSettings.locale]);
+    const functions = useFunctions();
 
     const inputRef = useRef<HTMLInputElement>(null);
     const gridContainerRef = useRef<HTMLDivElement>(null);
 
+    // Snapshot of each sheet as last sent to the recalculation engine, and what it was configured with
+    const recalcStateRef = useRef<{
+        snapshots: Map<string, Map<string, CellData>>;
+        options: CalculationOptions;
+        names: NameDefinition[];
+        functions: FunctionInfo[];
+    } | null>(null);
+    // Whether any formula calls a volatile function, as of the last result
+    const hasVolatileRef = useRef(false);
+
+    const handleRecalculationResult = useCallback((result: RecalculationResultMessage) => {
+        hasVolatileRef.current = result.hasVolatile;
+        setCircularReferences(result.circularCellIds);
+        setLossyCells(result.lossyCellIds);
+        if (result.cells.length === 0) return;
+
+        const cellsBySheet = new Map<string, ComputedCell[]>();
+        result.cells.forEach(cell => cellsBySheet.set(cell.sheetName, [...(cellsBySheet.get(cell.sheetName) ?? []), cell]));
+        setSheetStates(prev => {
+            const newStates = new Map(prev);
+            cellsBySheet.forEach((computedCells, sheetName) => {
+                const state = newStates.get(sheetName);
+                if (state) newStates.set(sheetName, { ...state, cells: applyComputedCells(state.cells, computedCells) });
+            });
+            return newStates;
+        });
+    }, []);
+
+    const { progress: calculationProgress, configure: configureRecalculation, update: updateRecalculation } = useRecalculation(handleRecalculationResult);
+
+    const nameDefinitions = useMemo<NameDefinition[]>(
+        () => (namedRanges ?? []).map(namedRange => ({ name: namedRange.name, reference: namedRange.reference, scope: namedRange.scope ?? undefined })),
+        [namedRanges]
+    );
+
     // Get current sheet state
     const currentSheetState = sheetStates.get(activeSheet) || {
         cells: new Map(),
@@ -144,38 +228,10 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
             
             // Only load from backend if we don't have local state yet
             if (!existingState) {
-                const newCells = new Map<string, CellData>();
-                const cellEntries = extractCellsFromSheet(sheet);
-
-                cellEntries.forEach(([cellId, cell]) => {
-                    newCells.set(cellId, {
-                        value: cell.value,
-                        formula: cell.formula,
-                        format: cell.format,
-                    });
-                });
-
-                // Load images
-                const imageEntries = extractImagesFromSheet(sheet);
-                const loadedImages: LocalImageData[] = imageEntries.map(([_, img]) => ({
-                    id: img.id,
-                    src: img.src,
-                    x: Number(img.x),
-                    y: Number(img.y),
-                    width: Number(img.width),
-                    height: Number(img.height),
-                    anchorCell: img.anchorCell,
-                }));
-
                 // Initialize state for this sheet
                 setSheetStates(prev => {
                     const newStates = new Map(prev);
-                    newStates.set(activeSheet, {
-                        cells: newCells,
-                        images: loadedImages,
-                        history: [],
-                        historyIndex: -1,
-                    });
+                    newStates.set(activeSheet, loadSheetState(sheet));
                     return newStates;
                 });
 
@@ -184,25 +240,88 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
         }
     }, [sheet, activeSheet]);
 
-    // Recalculate formulas when cells change
+    // Load the sheets not visited yet as well, so formulas referring to them calculate instead of showing #REF!
     useEffect(() => {
-        const newCells = new Map(cells);
-        let hasChanges = false;
+        if (!spreadsheet) return;
+        const spreadsheetSheets = extractSheetsFromSpreadsheet(spreadsheet);
+        setSheetStates(prev => {
+            const unloaded = spreadsheetSheets.filter(([sheetName]) => !prev.has(sheetName));
+            if (unloaded.length === 0) return prev;
+            const newStates = new Map(prev);
+            unloaded.forEach(([sheetName, spreadsheetSheet]) => newStates.set(sheetName, loadSheetState(spreadsheetSheet)));
+            return newStates;
+        });
+    }, [spreadsheet]);
 
-        cells.forEach((cellData, cellId) => {
-            if (cellData.formula) {
-                const displayValue = evaluateFormula(cellData.formula, cellId, cells);
-                if (cellData.displayValue !== displayValue) {
-                    newCells.set(cellId, { ...cellData, displayValue });
-                    hasChanges = true;
-                }
+    // Send the cells changed on any sheet to the recalculation engine, which recalculates only the
+    // formulas downstream of them. In manual mode changes wait in the snapshots' differences until
+    // a calculation is requested
+    useEffect(() => {
+        let recalcState = recalcStateRef.current;
+        // Changing calculation options, defined names or registered functions invalidates every computed value
+        if (
+            !recalcState ||
+            !sameCalculationOptions(recalcState.options, calculationSettings) ||
+            recalcState.names !== nameDefinitions ||
+            recalcState.functions !== functions
+        ) {
+            recalcState = {
+                snapshots: new Map(),
+                options: calculationSettings,
+                names: nameDefinitions,
+                functions,
+            };
+            recalcStateRef.current = recalcState;
+            configureRecalculation(calculationSettings, nameDefinitions, !hasCustomFunctions());
+        }
+
+        const workbookCells = new Map<string, Map<string, CellData>>();
+        sheetStates.forEach((state, sheetName) => workbookCells.set(sheetName, state.cells));
+
+        const request = calculationRequest;
+        const automatic = calculationSettings.mode === 'automatic';
+        const changes: CellChange[] = [];
+        // Sheets with changes left for a later calculation keep their old snapshot below
+        const deferredSheets: string[] = [];
+        workbookCells.forEach((sheetCells, sheetName) => {
+            const snapshot = recalcState!.snapshots.get(sheetName);
+            if (snapshot === sheetCells) return;
+            const sheetChanges = getChangedCellIds(snapshot || new Map(), sheetCells);
+            if (sheetChanges.length === 0) return;
+            // A sheet just loaded is calculated in manual mode too
+            const calculated = !snapshot || (request ? request.sheetName === undefined || request.sheetName === sheetName : automatic);
+            if (calculated) {
+                sheetChanges.forEach(cellId => {
+                    const cellData = sheetCells.get(cellId);
+                    changes.push({ sheetName, cellId, cell: cellData ? { value: cellData.value, formula: cellData.formula } : null });
+                });
+            } else {
+                deferredSheets.push(sheetName);
             }
         });
+        setCalculationPending(deferredSheets.length > 0);
+        if (request) setCalculationRequest(null);
 
-        if (hasChanges) {
-            updateSheetState({ cells: newCells });
-        }
-    }, [cells, updateSheetState]);
+        const snapshots = new Map(workbookCells);
+        deferredSheets.forEach(sheetName => snapshots.set(sheetName, recalcState!.snapshots.get(sheetName) || new Map()));
+        recalcState.snapshots = snapshots;
+
+        // A request recalculates volatile formulas even when nothing changed
+        if (changes.length > 0 || request) updateRecalculation(changes);
+    }, [sheetStates, calculationSettings, nameDefinitions, functions, calculationRequest, configureRecalculation, updateRecalculation]);
+
+    // Recalculate volatile formulas such as NOW() on the configured interval
+    useEffect(() => {
+        if (calculationSettings.mode !== 'automatic' || calculationSettings.volatileInterval <= 0) return;
+        const timer = window.setInterval(() => {
+            if (hasVolatileRef.current) setCalculationRequest({});
+        }, calculationSettings.volatileInterval * 1000);
+        return () => window.clearInterval(timer);
+    }, [calculationSettings.mode, calculationSettings.volatileInterval]);
+
+    const handleCalculateNow = useCallback(() => setCalculationRequest({}), []);
+
+    const handleCalculateSheet = useCallback(() => setCalculationRequest({ sheetName: activeSheet }), [activeSheet]);
 
     // Update current format when selection changes
     useEffect(() => {
@@ -644,6 +763,15 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
                 e.preventDefault();
                 toast.info('Format cells dialog coming soon');
             }
+            // Calculate: F9 for the workbook, Shift+F9 for the active sheet
+            else if (e.key === 'F9' && !isEditingCell) {
+                e.preventDefault();
+                if (e.shiftKey) {
+                    handleCalculateSheet();
+                } else {
+                    handleCalculateNow();
+                }
+            }
             // Navigation and editing when not editing
             else if (!isEditingCell && selectedCell) {
                 // Arrow keys
@@ -749,16 +877,16 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
 
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [selectedCell, hasUnsavedChanges, isEditingCell, historyIndex, history, selectionStart, selectionEnd, activeSheet, currentFormat, applyFormatToSelection]);
+    }, [selectedCell, hasUnsavedChanges, isEditingCell, historyIndex, history, selectionStart, selectionEnd, activeSheet, currentFormat, applyFormatToSelection, cells, copiedCells, isCutPending, handleCalculateSheet]);
 
     // Update formula bar when selected cell changes
     useEffect(() => {
         if (selectedCell) {
             const cellId = getCellId(selectedCell.row, selectedCell.col);
             const cellData = cells.get(cellId);
-            setFormulaBarValue(cellData?.formula || cellData?.value || '');
+            setFormulaBarValue(localizeInput(cellData?.formula || cellData?.value || '', formulaLocale));
         }
-    }, [selectedCell, cells]);
+    }, [selectedCell, cells, formulaLocale]);
 
     const extractCellsFromSheet = (sheet: Sheet): [string, any][] => {
         const entries: [string, any][] = [];
@@ -776,6 +904,50 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
         return entries;
     };
 
+    const extractSheetsFromSpreadsheet = (spreadsheetFile: SpreadsheetFile): [string, Sheet][] => {
+        const entries: [string, Sheet][] = [];
+        const traverse = (node: any) => {
+            if (!node) return;
+            if (node.__kind__ === 'leaf') return;
+
+            const [left, key, value, right] = node[node.__kind__];
+            traverse(left);
+            entries.push([key, value]);
+            traverse(right);
+        };
+
+        traverse(spreadsheetFile.sheets.root);
+        return entries;
+    };
+
+    const loadSheetState = (sheet: Sheet): SheetState => {
+        const newCells = new Map<string, CellData>();
+        extractCellsFromSheet(sheet).forEach(([cellId, cell]) => {
+            newCells.set(cellId, {
+                value: cell.value,
+                formula: cell.formula,
+                format: cell.format,
+            });
+        });
+
+        const loadedImages: LocalImageData[] = extractImagesFromSheet(sheet).map(([_, img]) => ({
+            id: img.id,
+            src: img.src,
+            x: Number(img.x),
+            y: Number(img.y),
+            width: Number(img.width),
+            height: Number(img.height),
+            anchorCell: img.anchorCell,
+        }));
+
+        return {
+            cells: newCells,
+            images: loadedImages,
+            history: [],
+            historyIndex: -1,
+        };
+    };
+
     const extractImagesFromSheet = (sheet: Sheet): [string, any][] => {
         const entries: [string, any][] = [];
         const traverse = (node: any) => {
@@ -934,9 +1106,11 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
 
         const cellId = getCellId(selectedCell.row, selectedCell.col);
         const oldCellData = cells.get(cellId);
-        const isFormula = formulaBarValue.startsWith('=');
-        const formula = isFormula ? formulaBarValue : null;
-        const value = isFormula ? '' : formulaBarValue;
+        // Stored the same whatever the locale it was typed in
+        const input = delocalizeInput(formulaBarValue, formulaLocale);
+        const isFormula = input.startsWith('=');
+        const formula = isFormula ? input : null;
+        const value = isFormula ? '' : input;
 
         // Add to history
         const historyEntry: HistoryEntry = {
@@ -980,7 +1154,7 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
             }
         );
         setIsEditingCell(false);
-    }, [selectedCell, formulaBarValue, cells, spreadsheetId, activeSheet, saveCell, history, historyIndex, updateSheetState]);
+    }, [selectedCell, formulaBarValue, formulaLocale, cells, spreadsheetId, activeSheet, saveCell, history, historyIndex, updateSheetState]);
 
     const handleUndo = () => {
         if (historyIndex >= 0) {
@@ -1113,8 +1287,9 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
         const cellData = cells.get(cellId);
         if (cellData) {
             const copiedData = new Map<string, CellData>();
-            copiedData.set(cellId, cellData);
+            copiedData.set(cellId, toCopiedCell(cellData));
             setCopiedCells(copiedData);
+            setIsCutPending(false);
             toast.success('Cell copied');
         }
     };
@@ -1125,8 +1300,9 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
         const cellData = cells.get(cellId);
         if (cellData) {
             const copiedData = new Map<string, CellData>();
-            copiedData.set(cellId, cellData);
+            copiedData.set(cellId, toCopiedCell(cellData));
             setCopiedCells(copiedData);
+            setIsCutPending(true);
             
             const newCells = new Map(cells);
             newCells.delete(cellId);
@@ -1138,10 +1314,69 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
     const handlePaste = () => {
         if (!selectedCell || !copiedCells) return;
         const targetCellId = getCellId(selectedCell.row, selectedCell.col);
-        const copiedData = Array.from(copiedCells.values())[0];
-        
+        const [sourceCellId, copiedData] = Array.from(copiedCells.entries())[0];
+        const sourceRef = parseCellReference(sourceCellId)!;
+
         const newCells = new Map(cells);
-        newCells.set(targetCellId, copiedData);
+        if (isCutPending) {
+            // A move keeps the formula as-is and repoints formulas on every sheet that referenced the old cell
+            newCells.set(targetCellId, copiedData);
+            const movedCells: { sheetName: string; cellId: string; cellData: CellData | undefined }[] = [
+                { sheetName: activeSheet, cellId: targetCellId, cellData: copiedData },
+            ];
+            if (sourceCellId !== targetCellId) movedCells.push({ sheetName: activeSheet, cellId: sourceCellId, cellData: undefined });
+
+            // Rewrites a sheet's cells in place; true if any formula changed
+            const retargetSheet = (sheetName: string, sheetCells: Map<string, CellData>) => {
+                const movedCount = movedCells.length;
+                sheetCells.forEach((cellData, cellId) => {
+                    if (!cellData.formula) return;
+                    const formula = retargetFormulaReferences(cellData.formula, sourceCellId, targetCellId, activeSheet, sheetName);
+                    if (formula === cellData.formula) return;
+                    const retargeted = { ...cellData, formula };
+                    sheetCells.set(cellId, retargeted);
+                    movedCells.push({ sheetName, cellId, cellData: retargeted });
+                });
+                return movedCells.length > movedCount;
+            };
+            retargetSheet(activeSheet, newCells);
+            const retargetedSheets = new Map<string, Map<string, CellData>>();
+            sheetStates.forEach((state, sheetName) => {
+                if (sheetName === activeSheet) return;
+                const sheetCells = new Map(state.cells);
+                if (retargetSheet(sheetName, sheetCells)) retargetedSheets.set(sheetName, sheetCells);
+            });
+            if (retargetedSheets.size > 0) {
+                setSheetStates(prev => {
+                    const newStates = new Map(prev);
+                    retargetedSheets.forEach((sheetCells, sheetName) => {
+                        newStates.set(sheetName, { ...newStates.get(sheetName)!, cells: sheetCells });
+                    });
+                    return newStates;
+                });
+            }
+
+            Promise.all(
+                movedCells.map(({ sheetName, cellId, cellData }) =>
+                    saveCell.mutateAsync({
+                        spreadsheetId,
+                        sheetName,
+                        cellId,
+                        value: cellData?.value ?? '',
+                        formula: cellData?.formula ?? null,
+                    })
+                )
+            ).catch(() => toast.error('Failed to save moved cell'));
+            setCopiedCells(null);
+            setIsCutPending(false);
+        } else {
+            newCells.set(targetCellId, {
+                ...copiedData,
+                formula: copiedData.formula
+                    ? shiftFormulaReferences(copiedData.formula, selectedCell.row - sourceRef.row, selectedCell.col - sourceRef.col)
+                    : undefined,
+            });
+        }
         updateSheetState({ cells: newCells });
         toast.success('Cell pasted');
     };
@@ -1160,9 +1395,10 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
     const handleDragFill = (startRow: number, startCol: number, endRow: number, endCol: number) => {
         // Simple drag fill implementation
         const sourceCellId = getCellId(startRow, startCol);
-        const sourceCell = cells.get(sourceCellId);
+        const sourceCellData = cells.get(sourceCellId);
         
-        if (!sourceCell) return;
+        if (!sourceCellData) return;
+        const sourceCell = toCopiedCell(sourceCellData);
 
         const newCells = new Map(cells);
         const minRow = Math.min(startRow, endRow);
@@ -1174,7 +1410,12 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
             for (let col = minCol; col <= maxCol; col++) {
                 if (row === startRow && col === startCol) continue;
                 const targetCellId = getCellId(row, col);
-                newCells.set(targetCellId, { ...sourceCell });
+                newCells.set(targetCellId, {
+                    ...sourceCell,
+                    formula: sourceCell.formula
+                        ? shiftFormulaReferences(sourceCell.formula, row - startRow, col - startCol)
+                        : undefined,
+                });
             }
         }
 
@@ -1218,6 +1459,17 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
     const handleSheetChange = (sheetName: string) => {
         if (sheetName === activeSheet) return;
 
+        // A cut moves cells within its sheet; leaving the sheet cancels it and puts the cell back
+        if (isCutPending && copiedCells) {
+            const newCells = new Map(cells);
+            copiedCells.forEach((cellData, cellId) => {
+                if (!newCells.has(cellId)) newCells.set(cellId, cellData);
+            });
+            updateSheetState({ cells: newCells });
+            setCopiedCells(null);
+            setIsCutPending(false);
+        }
+
         // Switch to the new sheet
         setActiveSheet(sheetName);
 
@@ -1333,16 +1585,128 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
           })()
         : [];
 
+    // Absolute reference to the selection on the active sheet, the default target of a new name
+    const selectionReference = (() => {
+        const start = selectionStart ?? selectedCell;
+        if (!start) return '';
+        const end = selectionEnd ?? start;
+        const topLeft = { row: Math.min(start.row, end.row), col: Math.min(start.col, end.col), rowAbsolute: true, colAbsolute: true };
+        const bottomRight = { row: Math.max(start.row, end.row), col: Math.max(start.col, end.col), rowAbsolute: true, colAbsolute: true };
+        const range = topLeft.row === bottomRight.row && topLeft.col === bottomRight.col
+            ? formatReferenceText(topLeft)
+            : `${formatReferenceText(topLeft)}:${formatReferenceText(bottomRight)}`;
+        return `${formatSheetPrefix(activeSheet)}${range}`;
+    })();
+
+    const handleDefineName = async (namedRange: NamedRange, previous?: NamedRange) => {
+        try {
+            // Renaming replaces the old entry; the same name and scope is simply overwritten
+            const renamed = previous && previous.name.toUpperCase() !== namedRange.name.toUpperCase();
+            if (previous && renamed) {
+                await deleteNameMutation.mutateAsync({ spreadsheetId, name: previous.name, scope: previous.scope ?? null });
+            }
+            await defineNameMutation.mutateAsync({ spreadsheetId, namedRange });
+            toast.success(`Name ${namedRange.name} saved`);
+        } catch (error) {
+            toast.error('Failed to save name');
+        }
+    };
+
+    const handleDeleteName = async (namedRange: NamedRange) => {
+        try {
+            await deleteNameMutation.mutateAsync({ spreadsheetId, name: namedRange.name, scope: namedRange.scope ?? null });
+            toast.success(`Name ${namedRange.name} deleted`);
+        } catch (error) {
+            toast.error('Failed to delete name');
+        }
+    };
+
+    const handleCalculationSettingsChange = async (settings: CalculationSettings) => {
+        try {
+            await saveCalculationSettings(settings);
+        } catch (error) {
+            toast.error('Failed to save calculation options');
+        }
+    };
+
+    // Name Box: select a typed reference (B2, A1:C3, Sheet2!A1) or the range a defined name refers to
+    const handleNameBoxSubmit = (text: string): boolean => {
+        let node: FormulaNode | null;
+        try {
+            node = expandNames(parseFormula(text), nameDefinitions, activeSheet);
+        } catch {
+            node = null;
+        }
+        if (!node || (node.type !== 'cell' && node.type !== 'range')) {
+            toast.error(`"${text}" is not a cell reference or defined name`);
+            return false;
+        }
+
+        const sheetPrefix = node.sheet;
+        const targetSheet = sheetPrefix === undefined
+            ? activeSheet
+            : sheets.find(sheetName => sheetName.toUpperCase() === sheetPrefix.toUpperCase());
+        const start = node.type === 'cell' ? node.ref : node.start;
+        const end = node.type === 'cell' ? null : node.end;
+        const last = end ?? start;
+        if (!targetSheet || last.row >= INITIAL_ROWS || last.col >= INITIAL_COLS) {
+            toast.error(`"${text}" refers to a range outside the spreadsheet`);
+            return false;
+        }
+
+        handleSheetChange(targetSheet);
+        setSelectedCell({ row: start.row, col: start.col });
+        setSelectionStart({ row: start.row, col: start.col });
+        setSelectionEnd(end ? { row: end.row, col: end.col } : null);
+        setIsEditingCell(false);
+        return true;
+    };
+
     const getCellDisplay = (row: number, col: number): string => {
         const cellId = getCellId(row, col);
         const cellData = cells.get(cellId);
         if (!cellData) return '';
-        if (cellData.formula) {
-            return cellData.displayValue || '';
+        if (cellData.formula || cellData.spilledFrom) {
+            return localizeDisplayValue(cellData.displayValue || '', cellData.computedValue, formulaLocale);
         }
-        return cellData.value;
+        return localizeValue(cellData.value, formulaLocale);
     };
 
+    // Areas covered by spilled arrays, anchor included, for the spill border
+    const spillRanges = useMemo(() => {
+        const ranges = new Map<string, SpillRange>();
+        cells.forEach((cellData, cellId) => {
+            if (!cellData.spilledFrom) return;
+            const anchor = parseCellReference(cellData.spilledFrom);
+            const ref = parseCellReference(cellId);
+            if (!anchor || !ref) return;
+            const range = ranges.get(cellData.spilledFrom) || {
+                startRow: anchor.row,
+                startCol: anchor.col,
+                endRow: anchor.row,
+                endCol: anchor.col,
+            };
+            range.endRow = Math.max(range.endRow, ref.row);
+            range.endCol = Math.max(range.endCol, ref.col);
+            ranges.set(cellData.spilledFrom, range);
+        });
+        return Array.from(ranges.values());
+    }, [cells]);
+
+    // While a formula is edited, outline the ranges it references on this sheet in their formula bar colours
+    const referenceHighlights = useMemo<ReferenceHighlight[]>(() => {
+        if (!isEditingCell) return [];
+        return findFormulaReferences(formulaBarValue, formulaLocale)
+            .filter((reference) => !reference.sheet || reference.sheet.toUpperCase() === activeSheet.toUpperCase())
+            .map(({ startRow, startCol, endRow, endCol, colorIndex }) => ({
+                startRow,
+                startCol,
+                endRow,
+                endCol,
+                color: getReferenceColor(colorIndex),
+            }));
+    }, [isEditingCell, formulaBarValue, formulaLocale, activeSheet]);
+
     const getCellFormat = (row: number, col: number): CellFormat | undefined => {
         const cellId = getCellId(row, col);
         const cellData = cells.get(cellId);
@@ -1361,6 +1725,12 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
         return row >= minRow && row <= maxRow && col >= minCol && col <= maxCol;
     };
 
+    // Cells on the active sheet are listed without their sheet prefix, like Excel
+    const toStatusCellId = (cellId: string) => {
+        const { sheetName, cellId: localCellId } = splitQualifiedCellId(cellId);
+        return sheetName === activeSheet ? localCellId : cellId;
+    };
+
     return (
         <div className="flex h-full flex-col bg-background" role="application" aria-label="Spreadsheet application">
             {/* Excel Ribbon */}
@@ -1392,6 +1762,17 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
                 onApplyFontColor={handleApplyFontColor}
                 onApplyFillColor={handleApplyFillColor}
                 onInsertImage={handleInsertImage}
+                calculationSettings={calculationSettings}
+                onCalculationSettingsChange={handleCalculationSettingsChange}
+                onCalculateNow={handleCalculateNow}
+                onCalculateSheet={handleCalculateSheet}
+                names={namedRanges ?? []}
+                sheetNames={sheets}
+                activeSheet={activeSheet}
+                selectionReference={selectionReference}
+                onDefineName={handleDefineName}
+                onDeleteName={handleDeleteName}
+                onNameBoxSubmit={handleNameBoxSubmit}
             />
 
             {/* Grid with Image Layer */}
@@ -1411,6 +1792,8 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
                     onCellEdit={handleCellEdit}
                     onSelectionChange={handleSelectionChange}
                     onDragFill={handleDragFill}
+                    spillRanges={spillRanges}
+                    referenceHighlights={referenceHighlights}
                 />
                 <ImageLayer
                     images={images}
@@ -1432,6 +1815,11 @@ export default function SpreadsheetGrid({ spreadsheetId }: { spreadsheetId: stri
                 onZoomChange={setZoom}
                 cellCount={cells.size}
                 isAddingSheet={addSheet.isPending}
+                circularReferences={circularReferences.map(toStatusCellId)}
+                lossyCells={lossyCells.map(toStatusCellId)}
+                calculationPending={calculationPending}
+                calculationProgress={calculationProgress}
+                onCalculate={handleCalculateNow}
             />
         </div>
     );
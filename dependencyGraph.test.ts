@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { createDependencyGraph, updateCellDependencies, getDependents, getRecalculationOrder, getChangedCellIds } from './dependencyGraph';
+
+function graphOf(formulas: Record<string, string>) {
+    const graph = createDependencyGraph();
+    Object.entries(formulas).forEach(([cellId, formula]) => updateCellDependencies(graph, cellId, formula));
+    const hasFormula = (cellId: string) => cellId in formulas;
+    return { graph, hasFormula };
+}
+
+describe('updateCellDependencies', () => {
+    it('records single cells and ranges, across sheets', () => {
+        const { graph } = graphOf({ 'Sheet1!C1': '=A1+SUM(Data!B1:B100)' });
+        expect(getDependents(graph, 'Sheet1!A1')).toEqual(['Sheet1!C1']);
+        expect(getDependents(graph, 'Data!B50')).toEqual(['Sheet1!C1']);
+        expect(getDependents(graph, 'Data!B101')).toEqual([]);
+    });
+
+    it('resolves sheet names as the workbook spells them', () => {
+        const graph = createDependencyGraph();
+        updateCellDependencies(graph, 'Sheet1!A1', "='data'!A1", name => (name.toUpperCase() === 'DATA' ? 'Data' : name));
+        expect(getDependents(graph, 'Data!A1')).toEqual(['Sheet1!A1']);
+    });
+
+    it('follows defined names to the cells they stand for', () => {
+        const graph = createDependencyGraph();
+        updateCellDependencies(graph, 'Sheet1!B1', '=Rate*2', undefined, [{ name: 'Rate', reference: 'Sheet1!A1' }]);
+        expect(getDependents(graph, 'Sheet1!A1')).toEqual(['Sheet1!B1']);
+    });
+
+    it('forgets the old references when a formula changes', () => {
+        const graph = createDependencyGraph();
+        updateCellDependencies(graph, 'Sheet1!B1', '=A1');
+        updateCellDependencies(graph, 'Sheet1!B1', '=A2');
+        expect(getDependents(graph, 'Sheet1!A1')).toEqual([]);
+        expect(getDependents(graph, 'Sheet1!A2')).toEqual(['Sheet1!B1']);
+    });
+
+    it('marks formulas calling volatile functions', () => {
+        const { graph } = graphOf({ 'Sheet1!A1': '=NOW()', 'Sheet1!A2': '=1+1' });
+        expect(Array.from(graph.volatileCells)).toEqual(['Sheet1!A1']);
+    });
+});
+
+describe('getRecalculationOrder', () => {
+    it('orders dependents after their precedents', () => {
+        const { graph, hasFormula } = graphOf({ 'Sheet1!C1': '=B1*2', 'Sheet1!B1': '=A1+1', 'Sheet1!D1': '=C1+B1' });
+        const order = getRecalculationOrder(graph, ['Sheet1!A1'], hasFormula).flatMap(step => step.cellIds);
+        expect(order).toEqual(['Sheet1!B1', 'Sheet1!C1', 'Sheet1!D1']);
+    });
+
+    it('groups a reference cycle into one circular step', () => {
+        const { graph, hasFormula } = graphOf({ 'Sheet1!A1': '=B1', 'Sheet1!B1': '=A1+1', 'Sheet1!C1': '=B1' });
+        const steps = getRecalculationOrder(graph, ['Sheet1!A1'], hasFormula);
+        expect(steps.map(step => ({ ...step, cellIds: [...step.cellIds].sort() }))).toEqual([
+            { cellIds: ['Sheet1!A1', 'Sheet1!B1'], circular: true },
+            { cellIds: ['Sheet1!C1'], circular: false },
+        ]);
+    });
+
+    it('flags a cell referring to itself', () => {
+        const { graph, hasFormula } = graphOf({ 'Sheet1!A1': '=A1+1' });
+        expect(getRecalculationOrder(graph, ['Sheet1!A1'], hasFormula)).toEqual([{ cellIds: ['Sheet1!A1'], circular: true }]);
+    });
+
+    it('handles long chains without overflowing the stack', () => {
+        const formulas: Record<string, string> = {};
+        for (let row = 2; row <= 20000; row++) formulas[`Sheet1!A${row}`] = `=A${row - 1}+1`;
+        const { graph, hasFormula } = graphOf(formulas);
+        const steps = getRecalculationOrder(graph, ['Sheet1!A1'], hasFormula);
+        expect(steps).toHaveLength(19999);
+        expect(steps[steps.length - 1].cellIds).toEqual(['Sheet1!A20000']);
+    });
+});
+
+describe('getChangedCellIds', () => {
+    it('ignores calculated values and counts a blank cell as none', () => {
+        const previous = new Map([
+            ['A1', { value: '1' }],
+            ['B1', { value: '', formula: '=A1', displayValue: '1' }],
+            ['C1', { value: '' }],
+        ]);
+        const next = new Map([
+            ['A1', { value: '2' }],
+            ['B1', { value: '', formula: '=A1', displayValue: '2' }],
+        ]);
+        expect(getChangedCellIds(previous, next)).toEqual(['A1']);
+    });
+});
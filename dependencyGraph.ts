@@ -0,0 +1,361 @@
+import { parseFormula, formatCellReference, parseCellReference } from './formulaParser';
+import type { FormulaNode, CellReference } from './formulaParser';
+import { expandNames } from './formulaNames';
+import type { NameDefinition } from './formulaNames';
+import { isVolatileFunction } from './formulaRegistry';
+
+interface CellData {
+    value: string;
+    formula?: string;
+    displayValue?: string;
+}
+
+export interface RangeReference {
+    sheetName: string;
+    start: CellReference;
+    end: CellReference;
+}
+
+/**
+ * Precedents/dependents graph for the formula cells of a whole workbook.
+ * Nodes are sheet-qualified cell ids ("Sheet1!A1") so references between
+ * sheets are tracked like any other. Single-cell references are indexed both
+ * ways; range references are kept as rectangles so a SUM over 10,000 rows
+ * costs one entry, not 10,000.
+ */
+export interface DependencyGraph {
+    precedents: Map<string, Set<string>>;
+    dependents: Map<string, Set<string>>;
+    rangePrecedents: Map<string, RangeReference[]>;
+    // "Sheet!column" -> formula cells with a range covering that column
+    rangeColumns: Map<string, Set<string>>;
+    // Formula with an array result -> the area it spills into (or would, when blocked)
+    spillRanges: Map<string, RangeReference>;
+    // Formulas calling a volatile function such as TODAY, recalculated every time
+    volatileCells: Set<string>;
+}
+
+export function qualifyCellId(sheetName: string, cellId: string): string {
+    return `${sheetName}!${cellId}`;
+}
+
+export function splitQualifiedCellId(qualifiedCellId: string): { sheetName: string; cellId: string } {
+    const separator = qualifiedCellId.lastIndexOf('!');
+    return {
+        sheetName: qualifiedCellId.slice(0, separator),
+        cellId: qualifiedCellId.slice(separator + 1),
+    };
+}
+
+function rangeColumnKey(sheetName: string, col: number): string {
+    return `${sheetName}!${col}`;
+}
+
+export function createDependencyGraph(): DependencyGraph {
+    return {
+        precedents: new Map(),
+        dependents: new Map(),
+        rangePrecedents: new Map(),
+        rangeColumns: new Map(),
+        spillRanges: new Map(),
+        volatileCells: new Set(),
+    };
+}
+
+function collectReferences(
+    node: FormulaNode,
+    sheetName: string,
+    resolveSheetName: (name: string) => string,
+    cellIds: Set<string>,
+    ranges: RangeReference[],
+    volatile: { found: boolean }
+) {
+    const visit = (child: FormulaNode) => collectReferences(child, sheetName, resolveSheetName, cellIds, ranges, volatile);
+
+    switch (node.type) {
+        case 'cell':
+        case 'spill': {
+            // A1# depends on A1 itself, which is re-evaluated whenever its spill changes
+            const targetSheet = node.sheet ? resolveSheetName(node.sheet) : sheetName;
+            cellIds.add(qualifyCellId(targetSheet, formatCellReference(node.ref)));
+            break;
+        }
+        case 'range': {
+            const targetSheet = node.sheet ? resolveSheetName(node.sheet) : sheetName;
+            ranges.push({ sheetName: targetSheet, start: node.start, end: node.end });
+            break;
+        }
+        case 'unary':
+        case 'percent':
+            visit(node.operand);
+            break;
+        case 'binary':
+            visit(node.left);
+            visit(node.right);
+            break;
+        case 'call':
+            if (isVolatileFunction(node.name)) volatile.found = true;
+            node.args.forEach(visit);
+            break;
+        case 'invoke':
+            visit(node.callee);
+            node.args.forEach(visit);
+            break;
+    }
+}
+
+export function removeCellDependencies(graph: DependencyGraph, cellId: string) {
+    graph.precedents.get(cellId)?.forEach(precedent => {
+        const dependents = graph.dependents.get(precedent);
+        dependents?.delete(cellId);
+        if (dependents && dependents.size === 0) graph.dependents.delete(precedent);
+    });
+    graph.rangePrecedents.get(cellId)?.forEach(range => {
+        for (let col = range.start.col; col <= range.end.col; col++) {
+            const key = rangeColumnKey(range.sheetName, col);
+            const formulas = graph.rangeColumns.get(key);
+            formulas?.delete(cellId);
+            if (formulas && formulas.size === 0) graph.rangeColumns.delete(key);
+        }
+    });
+    graph.precedents.delete(cellId);
+    graph.rangePrecedents.delete(cellId);
+    graph.volatileCells.delete(cellId);
+}
+
+/**
+ * Replaces the recorded precedents of a cell with the references found in its formula.
+ * Cells without a formula (or with an unparsable one) end up with no precedents.
+ * `resolveSheetName` maps a sheet name as typed in the formula to the workbook's
+ * spelling so that 'sheet2'!A1 and Sheet2!A1 land on the same node. Defined
+ * names count as the references they stand for. Formulas calling a volatile
+ * function are recorded as such.
+ */
+export function updateCellDependencies(
+    graph: DependencyGraph,
+    cellId: string,
+    formula: string | undefined,
+    resolveSheetName: (name: string) => string = name => name,
+    names: NameDefinition[] = []
+) {
+    removeCellDependencies(graph, cellId);
+    if (!formula || !formula.startsWith('=')) return;
+
+    const cellIds = new Set<string>();
+    const ranges: RangeReference[] = [];
+    const volatile = { found: false };
+    try {
+        const { sheetName } = splitQualifiedCellId(cellId);
+        collectReferences(expandNames(parseFormula(formula), names, sheetName), sheetName, resolveSheetName, cellIds, ranges, volatile);
+    } catch {
+        return;
+    }
+
+    if (volatile.found) graph.volatileCells.add(cellId);
+
+    graph.precedents.set(cellId, cellIds);
+    cellIds.forEach(precedent => {
+        if (!graph.dependents.has(precedent)) graph.dependents.set(precedent, new Set());
+        graph.dependents.get(precedent)!.add(cellId);
+    });
+    if (ranges.length > 0) {
+        graph.rangePrecedents.set(cellId, ranges);
+        ranges.forEach(range => {
+            for (let col = range.start.col; col <= range.end.col; col++) {
+                const key = rangeColumnKey(range.sheetName, col);
+                if (!graph.rangeColumns.has(key)) graph.rangeColumns.set(key, new Set());
+                graph.rangeColumns.get(key)!.add(cellId);
+            }
+        });
+    }
+}
+
+/**
+ * Direct dependents of a cell, including formulas that read it through a range.
+ */
+export function getDependents(graph: DependencyGraph, qualifiedCellId: string): string[] {
+    const result = new Set(graph.dependents.get(qualifiedCellId));
+    const { sheetName, cellId } = splitQualifiedCellId(qualifiedCellId);
+    const ref = parseCellReference(cellId);
+    if (ref) {
+        graph.rangeColumns.get(rangeColumnKey(sheetName, ref.col))?.forEach(dependent => {
+            const inRange = graph.rangePrecedents.get(dependent)!.some(
+                range =>
+                    range.sheetName === sheetName &&
+                    ref.row >= range.start.row &&
+                    ref.row <= range.end.row &&
+                    ref.col >= range.start.col &&
+                    ref.col <= range.end.col
+            );
+            if (inRange) result.add(dependent);
+        });
+    }
+    return Array.from(result);
+}
+
+export function setSpillRange(graph: DependencyGraph, anchorCellId: string, range: RangeReference | null) {
+    if (range) {
+        graph.spillRanges.set(anchorCellId, range);
+    } else {
+        graph.spillRanges.delete(anchorCellId);
+    }
+}
+
+/**
+ * Formulas whose spill area covers the cell, other than the cell itself.
+ * Editing such a cell blocks (or unblocks) their spill.
+ */
+export function getSpillAnchors(graph: DependencyGraph, qualifiedCellId: string): string[] {
+    const { sheetName, cellId } = splitQualifiedCellId(qualifiedCellId);
+    const ref = parseCellReference(cellId);
+    if (!ref) return [];
+
+    const anchors: string[] = [];
+    graph.spillRanges.forEach((range, anchorCellId) => {
+        if (
+            anchorCellId !== qualifiedCellId &&
+            range.sheetName === sheetName &&
+            ref.row >= range.start.row &&
+            ref.row <= range.end.row &&
+            ref.col >= range.start.col &&
+            ref.col <= range.end.col
+        ) {
+            anchors.push(anchorCellId);
+        }
+    });
+    return anchors;
+}
+
+/**
+ * A group of cells to evaluate together. Steps are topologically ordered;
+ * a circular step holds every cell of one reference cycle.
+ */
+export interface RecalculationStep {
+    cellIds: string[];
+    circular: boolean;
+}
+
+/**
+ * Tarjan's algorithm, iterative so that long reference chains cannot
+ * overflow the call stack. Components come out dependents-first.
+ */
+function findStronglyConnectedComponents(nodes: string[], edgesOf: (node: string) => string[]): string[][] {
+    let nextIndex = 0;
+    const indices = new Map<string, number>();
+    const lowlinks = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const components: string[][] = [];
+
+    const visit = (node: string) => {
+        indices.set(node, nextIndex);
+        lowlinks.set(node, nextIndex);
+        nextIndex++;
+        stack.push(node);
+        onStack.add(node);
+    };
+
+    nodes.forEach(root => {
+        if (indices.has(root)) return;
+        visit(root);
+        const work: { node: string; edgeIndex: number }[] = [{ node: root, edgeIndex: 0 }];
+
+        while (work.length > 0) {
+            const frame = work[work.length - 1];
+            const edges = edgesOf(frame.node);
+
+            if (frame.edgeIndex < edges.length) {
+                const next = edges[frame.edgeIndex++];
+                if (!indices.has(next)) {
+                    visit(next);
+                    work.push({ node: next, edgeIndex: 0 });
+                } else if (onStack.has(next)) {
+                    lowlinks.set(frame.node, Math.min(lowlinks.get(frame.node)!, indices.get(next)!));
+                }
+                continue;
+            }
+
+            work.pop();
+            if (work.length > 0) {
+                const parent = work[work.length - 1].node;
+                lowlinks.set(parent, Math.min(lowlinks.get(parent)!, lowlinks.get(frame.node)!));
+            }
+
+            if (lowlinks.get(frame.node) === indices.get(frame.node)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== frame.node);
+                components.push(component);
+            }
+        }
+    });
+
+    return components;
+}
+
+/**
+ * Returns every formula cell affected by the changed cells, grouped into steps
+ * so that each step comes after all of its dirty precedents. Reference cycles
+ * are reported as circular steps instead of being silently ordered.
+ */
+export function getRecalculationOrder(
+    graph: DependencyGraph,
+    changedCellIds: Iterable<string>,
+    hasFormula: (qualifiedCellId: string) => boolean
+): RecalculationStep[] {
+    const dependentsCache = new Map<string, string[]>();
+    const dependentsOf = (cellId: string) => {
+        if (!dependentsCache.has(cellId)) dependentsCache.set(cellId, getDependents(graph, cellId));
+        return dependentsCache.get(cellId)!;
+    };
+
+    // Collect the dirty subgraph
+    const dirty = new Set<string>();
+    const stack = Array.from(changedCellIds);
+    stack.forEach(cellId => {
+        if (hasFormula(cellId)) dirty.add(cellId);
+    });
+    const visited = new Set<string>();
+    while (stack.length > 0) {
+        const cellId = stack.pop()!;
+        if (visited.has(cellId)) continue;
+        visited.add(cellId);
+        dependentsOf(cellId).forEach(dependent => {
+            dirty.add(dependent);
+            stack.push(dependent);
+        });
+    }
+
+    const dirtyEdges = (cellId: string) => dependentsOf(cellId).filter(dependent => dirty.has(dependent));
+    const components = findStronglyConnectedComponents(Array.from(dirty), dirtyEdges);
+
+    return components.reverse().map(cellIds => ({
+        cellIds,
+        circular: cellIds.length > 1 || dirtyEdges(cellIds[0]).includes(cellIds[0]),
+    }));
+}
+
+/**
+ * Lists cells whose input (value or formula) differs between two snapshots.
+ * Computed display values are ignored so writing results back does not
+ * mark the cells dirty again, and a blank cell counts as no cell, as one a
+ * result spills into or clears is.
+ */
+export function getChangedCellIds(previous: Map<string, CellData>, next: Map<string, CellData>): string[] {
+    const sameInput = (old: CellData | undefined, cellData: CellData | undefined) =>
+        (old?.value ?? '') === (cellData?.value ?? '') && old?.formula === cellData?.formula;
+
+    const changed: string[] = [];
+    next.forEach((cellData, cellId) => {
+        const old = previous.get(cellId);
+        if (old !== cellData && !sameInput(old, cellData)) changed.push(cellId);
+    });
+    previous.forEach((old, cellId) => {
+        if (!next.has(cellId) && !sameInput(old, undefined)) changed.push(cellId);
+    });
+    return changed;
+}
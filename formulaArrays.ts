@@ -0,0 +1,103 @@
+import { FormulaError, errorValue, isErrorValue, getValueType, compareValues } from './formulaValues';
+import { isDecimalValue, decimalToString } from './formulaDecimal';
+import type { CellValue, FormulaValue } from './formulaValues';
+
+/**
+ * Largest array a formula may produce. Anything bigger could never spill
+ * onto the grid anyway and would only exhaust memory building it.
+ */
+export const MAX_ARRAY_CELLS = 1000000;
+
+export function checkArraySize(rows: number, cols: number) {
+    if (rows * cols > MAX_ARRAY_CELLS) throw new FormulaError('#NUM!');
+}
+
+/**
+ * Runs a scalar operation, turning the error it raises into an error value
+ * so that one bad element does not fail a whole array.
+ */
+function applySafely(operate: () => CellValue): CellValue {
+    try {
+        return operate();
+    } catch (error) {
+        if (error instanceof FormulaError) return errorValue(error.code);
+        throw error;
+    }
+}
+
+/**
+ * Applies a scalar operation element by element. Scalars stand in for every
+ * element; a single row or column is repeated across the other array's size;
+ * positions one array does not cover become #N/A, as in Excel.
+ */
+export function broadcast(
+    left: FormulaValue,
+    right: FormulaValue,
+    operate: (left: CellValue, right: CellValue) => CellValue
+): FormulaValue {
+    if (!Array.isArray(left) && !Array.isArray(right)) return operate(left, right);
+
+    const a = Array.isArray(left) ? left : [[left]];
+    const b = Array.isArray(right) ? right : [[right]];
+    const rows = Math.max(a.length, b.length);
+    const cols = Math.max(a[0].length, b[0].length);
+
+    const at = (array: CellValue[][], row: number, col: number): CellValue => {
+        const r = array.length === 1 ? 0 : row;
+        const c = array[0].length === 1 ? 0 : col;
+        return r < array.length && c < array[0].length ? array[r][c] : errorValue('#N/A');
+    };
+
+    const result: CellValue[][] = [];
+    for (let row = 0; row < rows; row++) {
+        const resultRow: CellValue[] = [];
+        for (let col = 0; col < cols; col++) {
+            const l = at(a, row, col);
+            const r = at(b, row, col);
+            resultRow.push(applySafely(() => operate(l, r)));
+        }
+        result.push(resultRow);
+    }
+    return result;
+}
+
+export function mapArray(value: FormulaValue, operate: (value: CellValue) => CellValue): FormulaValue {
+    if (!Array.isArray(value)) return operate(value);
+    return value.map(row => row.map(item => applySafely(() => operate(item))));
+}
+
+export function transpose(array: CellValue[][]): CellValue[][] {
+    return array[0].map((_, col) => array.map(row => row[col]));
+}
+
+/**
+ * Sort order used by SORT: numbers, text (case-insensitive), booleans,
+ * errors, and blanks always last whatever the direction.
+ */
+export function compareForSort(left: CellValue, right: CellValue, descending: boolean): number {
+    if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1;
+
+    const rank = (value: CellValue) => {
+        const type = getValueType(value);
+        return type === 'number' ? 0 : type === 'string' ? 1 : type === 'boolean' ? 2 : 3;
+    };
+    let comparison = rank(left) - rank(right);
+    if (comparison === 0 && !isErrorValue(left) && !isErrorValue(right)) comparison = compareValues(left, right);
+    return descending ? -comparison : comparison;
+}
+
+/**
+ * Key under which UNIQUE considers two rows the same: equal values of the
+ * same type, with text compared case-insensitively.
+ */
+export function uniqueKey(values: CellValue[]): string {
+    return JSON.stringify(
+        values.map(value => {
+            if (value === null) return ['empty'];
+            if (isErrorValue(value)) return ['error', value.code];
+            if (typeof value === 'string') return ['string', value.toUpperCase()];
+            if (isDecimalValue(value)) return ['number', decimalToString(value)];
+            return [typeof value, value];
+        })
+    );
+}
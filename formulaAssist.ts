@@ -0,0 +1,201 @@
+import { parseCellReference } from './formulaParser';
+import { canonicalFunctionName } from './formulaLocale';
+import type { FormulaLocale } from './formulaLocale';
+
+type AssistTokenType = 'word' | 'cell' | 'sheet' | 'number' | 'string' | 'lparen' | 'rparen' | 'separator' | 'colon' | 'other';
+
+interface AssistToken {
+    type: AssistTokenType;
+    // Position in the formula, '=' included, and just past the end
+    start: number;
+    end: number;
+    // Sheet name without quotes for 'sheet', the text itself otherwise
+    value: string;
+    // False for a string or quoted sheet name still missing its closing quote
+    closed?: boolean;
+}
+
+const WORD = /^[\p{L}_\\$][\p{L}\p{N}_.$]*/u;
+const CELL = /^\$?[A-Za-z]{1,3}\$?\d+$/;
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Ends at the closing quote, a doubled quote standing for one, or at the end of an unfinished formula
+function readQuoted(formula: string, start: number): { end: number; value: string; closed: boolean } {
+    const quote = formula[start];
+    let value = '';
+    let i = start + 1;
+    while (i < formula.length) {
+        if (formula[i] === quote && formula[i + 1] === quote) {
+            value += quote;
+            i += 2;
+        } else if (formula[i] === quote) {
+            return { end: i + 1, value, closed: true };
+        } else {
+            value += formula[i];
+            i++;
+        }
+    }
+    return { end: i, value, closed: false };
+}
+
+/**
+ * Splits a formula as the formula bar sees it while it is being typed: in
+ * the spreadsheet's locale, possibly unfinished. Unlike the parser's
+ * tokenizer it never throws; anything it does not know is an 'other' token.
+ */
+function scanFormula(formula: string, locale: FormulaLocale): AssistToken[] {
+    const tokens: AssistToken[] = [];
+    const decimal = escapeRegExp(locale.decimalSeparator);
+    const numberPattern = new RegExp(`^(\\d+(${decimal}\\d*)?|${decimal}\\d+)([eE][+-]?\\d+)?`);
+    let i = formula.startsWith('=') ? 1 : 0;
+
+    while (i < formula.length) {
+        const char = formula[i];
+        const rest = formula.slice(i);
+
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '"') {
+            const { end, value, closed } = readQuoted(formula, i);
+            tokens.push({ type: 'string', start: i, end, value, closed });
+            i = end;
+        } else if (char === "'") {
+            const { end, value, closed } = readQuoted(formula, i);
+            const hasBang = formula[end] === '!';
+            tokens.push({ type: 'sheet', start: i, end: hasBang ? end + 1 : end, value, closed });
+            i = hasBang ? end + 1 : end;
+        } else if (numberPattern.test(rest)) {
+            const number = rest.match(numberPattern)![0];
+            tokens.push({ type: 'number', start: i, end: i + number.length, value: number });
+            i += number.length;
+        } else if (WORD.test(rest)) {
+            const word = rest.match(WORD)![0];
+            const end = i + word.length;
+            if (formula[end] === '!') {
+                tokens.push({ type: 'sheet', start: i, end: end + 1, value: word, closed: true });
+                i = end + 1;
+            } else {
+                const type = CELL.test(word) && formula[end] !== '(' ? 'cell' : 'word';
+                tokens.push({ type, start: i, end, value: word });
+                i = end;
+            }
+        } else {
+            const type: AssistTokenType =
+                char === '(' ? 'lparen' : char === ')' ? 'rparen' : char === locale.argumentSeparator ? 'separator' : char === ':' ? 'colon' : 'other';
+            tokens.push({ type, start: i, end: i + 1, value: char });
+            i++;
+        }
+    }
+    return tokens;
+}
+
+/**
+ * A cell or range reference in a formula's text, with the cells it covers
+ * (zero-based, inclusive). References that read the same share a colour.
+ */
+export interface FormulaReference {
+    start: number;
+    end: number;
+    // As written, unquoted; undefined for the formula's own sheet
+    sheet?: string;
+    startRow: number;
+    startCol: number;
+    endRow: number;
+    endCol: number;
+    colorIndex: number;
+}
+
+export function findFormulaReferences(formula: string, locale: FormulaLocale): FormulaReference[] {
+    if (!formula.startsWith('=')) return [];
+
+    const tokens = scanFormula(formula, locale);
+    const references: FormulaReference[] = [];
+    const colorIndexes = new Map<string, number>();
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.type !== 'cell') continue;
+
+        const previous = tokens[i - 1];
+        const sheetToken = previous?.type === 'sheet' && previous.end === token.start ? previous : undefined;
+        const isRange = tokens[i + 1]?.type === 'colon' && tokens[i + 2]?.type === 'cell';
+        const endToken = isRange ? tokens[i + 2] : token;
+        const first = parseCellReference(token.value);
+        const last = parseCellReference(endToken.value);
+        if (isRange) i += 2;
+        if (!first || !last) continue;
+
+        const reference = {
+            start: sheetToken ? sheetToken.start : token.start,
+            end: endToken.end,
+            sheet: sheetToken?.value,
+            startRow: Math.min(first.row, last.row),
+            startCol: Math.min(first.col, last.col),
+            endRow: Math.max(first.row, last.row),
+            endCol: Math.max(first.col, last.col),
+        };
+        const key = `${reference.sheet?.toUpperCase() ?? ''}!${reference.startRow},${reference.startCol}:${reference.endRow},${reference.endCol}`;
+        if (!colorIndexes.has(key)) colorIndexes.set(key, colorIndexes.size);
+        references.push({ ...reference, colorIndex: colorIndexes.get(key)! });
+    }
+    return references;
+}
+
+/**
+ * The word being typed at the caret, to complete with a function, defined
+ * name or sheet name. `sheet` is set while typing a quoted sheet name.
+ */
+export interface CompletionContext {
+    start: number;
+    end: number;
+    prefix: string;
+    sheet: boolean;
+}
+
+export function getCompletionContext(formula: string, caret: number, locale: FormulaLocale): CompletionContext | null {
+    if (!formula.startsWith('=')) return null;
+
+    const token = scanFormula(formula.slice(0, caret), locale).pop();
+    if (!token || token.end !== caret) return null;
+    if (token.type === 'sheet' && !token.closed) return { start: token.start, end: caret, prefix: token.value, sheet: true };
+    if ((token.type !== 'word' && token.type !== 'cell') || token.value.includes('$')) return null;
+    return { start: token.start, end: caret, prefix: token.value, sheet: false };
+}
+
+/**
+ * The innermost function call the caret is inside, with its canonical name
+ * and the zero-based argument the caret is in.
+ */
+export interface ArgumentContext {
+    name: string;
+    argumentIndex: number;
+}
+
+export function getArgumentContext(formula: string, caret: number, locale: FormulaLocale): ArgumentContext | null {
+    if (!formula.startsWith('=')) return null;
+
+    const calls: (ArgumentContext | null)[] = [];
+    // Separators inside an array constant are between its items, not arguments
+    let inArray = false;
+    const tokens = scanFormula(formula.slice(0, caret), locale);
+    tokens.forEach((token, i) => {
+        const previous = tokens[i - 1];
+        if (token.type === 'other' && (token.value === '{' || token.value === '}')) {
+            inArray = token.value === '{';
+        } else if (inArray) {
+            return;
+        } else if (token.type === 'lparen') {
+            // A bracket after a function name opens its call; any other just groups
+            const named = previous?.type === 'word' && previous.end === token.start;
+            calls.push(named ? { name: canonicalFunctionName(previous.value, locale), argumentIndex: 0 } : null);
+        } else if (token.type === 'rparen') {
+            calls.pop();
+        } else if (token.type === 'separator') {
+            const call = calls[calls.length - 1];
+            if (call) call.argumentIndex++;
+        }
+    });
+    return calls[calls.length - 1] ?? null;
+}
@@ -0,0 +1,115 @@
+import { isErrorValue, parseCellValue, compareValues, getValueType } from './formulaValues';
+import type { CellValue } from './formulaValues';
+import type { DateSystem } from './formulaDates';
+
+export type CriteriaMatcher = (value: CellValue) => boolean;
+
+type CriteriaOperator = '=' | '<>' | '<' | '>' | '<=' | '>=';
+
+const OPERATORS: CriteriaOperator[] = ['>=', '<=', '<>', '=', '>', '<'];
+
+/**
+ * Turns a text pattern with Excel wildcards into a regular expression:
+ * * matches any run of characters, ? any single one, and ~ escapes either.
+ * The pattern has to match the whole text unless `whole` is false, as in SEARCH.
+ */
+export function wildcardToRegExp(pattern: string, whole: boolean = true): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '~' && i + 1 < pattern.length && '*?~'.includes(pattern[i + 1])) {
+            source += '\\' + pattern[++i];
+        } else if (char === '*') {
+            source += '[\\s\\S]*';
+        } else if (char === '?') {
+            source += '[\\s\\S]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(whole ? `^${source}$` : source, 'i');
+}
+
+export function hasWildcards(pattern: string): boolean {
+    return /[*?]/.test(pattern);
+}
+
+function matchesComparison(operator: CriteriaOperator, comparison: number): boolean {
+    switch (operator) {
+        case '=':
+            return comparison === 0;
+        case '<>':
+            return comparison !== 0;
+        case '<':
+            return comparison < 0;
+        case '>':
+            return comparison > 0;
+        case '<=':
+            return comparison <= 0;
+        case '>=':
+            return comparison >= 0;
+    }
+}
+
+/**
+ * Builds a matcher for a criteria argument of SUMIF, COUNTIFS and friends.
+ * Text criteria may start with a comparison operator (">100", "<>x") and use
+ * wildcards for equality; "=" alone matches blanks and "<>" alone non-blanks.
+ * Dates in criteria (">3/1/2024") are compared as their serial numbers.
+ * Comparisons only ever match values of the same type, so ">5" skips text.
+ */
+export function parseCriteria(criteria: CellValue, dateSystem: DateSystem = '1900'): CriteriaMatcher {
+    // A reference to an empty cell is treated as 0
+    if (criteria === null) criteria = 0;
+
+    if (typeof criteria !== 'string') {
+        const expected = criteria;
+        return value => {
+            if (isErrorValue(expected)) return isErrorValue(value) && value.code === expected.code;
+            const candidate = getValueType(expected) === 'number' && typeof value === 'string' ? parseCellValue(value, dateSystem) : value;
+            return getValueType(candidate) === getValueType(expected) && compareValues(candidate, expected) === 0;
+        };
+    }
+
+    const operator = OPERATORS.find(op => (criteria as string).startsWith(op));
+    const operandText = operator ? criteria.substring(operator.length) : criteria;
+
+    if (operandText === '') {
+        // "" and "=" match empty cells, "<>" everything else
+        const blank = (value: CellValue) => value === null || value === '';
+        if (operator === '<>') return value => !blank(value);
+        if (!operator || operator === '=') return blank;
+        return () => false;
+    }
+
+    const operand = parseCellValue(operandText, dateSystem);
+    const effectiveOperator: CriteriaOperator = operator ?? '=';
+
+    if (typeof operand === 'string' && (effectiveOperator === '=' || effectiveOperator === '<>') && hasWildcards(operand)) {
+        const pattern = wildcardToRegExp(operand);
+        const equals = (value: CellValue) => typeof value === 'string' && pattern.test(value);
+        return effectiveOperator === '=' ? equals : value => !equals(value);
+    }
+
+    if (typeof operand === 'string' && !hasWildcards(operand)) {
+        // "~*" style escapes still need unescaping for a literal comparison
+        const literal = operand.replace(/~([*?~])/g, '$1');
+        return value => {
+            const sameType = typeof value === 'string';
+            if (effectiveOperator === '<>') return !sameType || compareValues(value, literal) !== 0;
+            return sameType && matchesComparison(effectiveOperator, compareValues(value, literal));
+        };
+    }
+
+    return value => {
+        if (isErrorValue(operand)) {
+            const equal = isErrorValue(value) && value.code === operand.code;
+            return effectiveOperator === '<>' ? !equal : effectiveOperator === '=' && equal;
+        }
+        // Numeric text in the range is compared as the number it holds
+        const candidate = getValueType(operand) === 'number' && typeof value === 'string' ? parseCellValue(value, dateSystem) : value;
+        const sameType = candidate !== null && !isErrorValue(candidate) && getValueType(candidate) === getValueType(operand);
+        if (effectiveOperator === '<>') return !sameType || compareValues(candidate, operand) !== 0;
+        return sameType && matchesComparison(effectiveOperator, compareValues(candidate, operand));
+    };
+}
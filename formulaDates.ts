@@ -0,0 +1,206 @@
+/**
+ * Excel date serial numbers: whole days since the epoch of the workbook's
+ * date system, with the time of day as the fraction.
+ *
+ * In the 1900 system serial 1 is 1900-01-01 and, as in Lotus 1-2-3, 1900 is
+ * treated as a leap year, so serial 60 is the non-existent 1900-02-29.
+ * In the 1904 system (older Mac workbooks) serial 0 is 1904-01-01.
+ */
+export type DateSystem = '1900' | '1904';
+
+export interface DateParts {
+    year: number;
+    month: number;
+    day: number;
+}
+
+const MS_PER_DAY = 86400000;
+const SECONDS_PER_DAY = 86400;
+const EPOCH_DAYS: Record<DateSystem, number> = {
+    '1900': Date.UTC(1899, 11, 31) / MS_PER_DAY,
+    '1904': Date.UTC(1904, 0, 1) / MS_PER_DAY,
+};
+const LEAP_BUG_SERIAL = 60;
+
+export const MONTH_NAMES = [
+    'January',
+    'February',
+    'March',
+    'April',
+    'May',
+    'June',
+    'July',
+    'August',
+    'September',
+    'October',
+    'November',
+    'December',
+];
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Days since 1970-01-01; month and day may overflow like in DATE(2024,14,0)
+function utcDays(year: number, month: number, day: number): number {
+    const date = new Date(0);
+    // setUTCFullYear, unlike Date.UTC, does not map years 0-99 to 1900-1999
+    date.setUTCFullYear(year, month - 1, day);
+    return Math.round(date.getTime() / MS_PER_DAY);
+}
+
+export function dateToSerial(year: number, month: number, day: number, system: DateSystem): number {
+    const serial = utcDays(year, month, day) - EPOCH_DAYS[system];
+    return system === '1900' && serial >= LEAP_BUG_SERIAL ? serial + 1 : serial;
+}
+
+/**
+ * Largest serial Excel accepts: the last second of 9999-12-31.
+ */
+export function maxDateSerial(system: DateSystem): number {
+    return dateToSerial(10000, 1, 1, system) - 1 / SECONDS_PER_DAY;
+}
+
+export function isValidSerial(serial: number, system: DateSystem): boolean {
+    return serial >= 0 && serial <= maxDateSerial(system);
+}
+
+export function serialToDate(serial: number, system: DateSystem): DateParts {
+    let days = Math.floor(serial);
+    if (system === '1900') {
+        if (days === 0) return { year: 1900, month: 1, day: 0 };
+        if (days === LEAP_BUG_SERIAL) return { year: 1900, month: 2, day: 29 };
+        if (days > LEAP_BUG_SERIAL) days--;
+    }
+    const date = new Date((EPOCH_DAYS[system] + days) * MS_PER_DAY);
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/**
+ * Day of the week, 0 for Sunday. Counted from the serial itself so that the
+ * 1900 system agrees with Excel on the days before the phantom leap day.
+ */
+export function serialWeekday(serial: number, system: DateSystem): number {
+    const days = Math.floor(serial);
+    const offset = system === '1900' ? 6 : 5;
+    return (((days + offset) % 7) + 7) % 7;
+}
+
+/**
+ * Time of day of a serial as whole hours, minutes and seconds.
+ */
+export function serialToTime(serial: number): { hours: number; minutes: number; seconds: number } {
+    let totalSeconds = Math.round((serial - Math.floor(serial)) * SECONDS_PER_DAY);
+    if (totalSeconds >= SECONDS_PER_DAY) totalSeconds = 0;
+    return {
+        hours: Math.floor(totalSeconds / 3600),
+        minutes: Math.floor((totalSeconds % 3600) / 60),
+        seconds: totalSeconds % 60,
+    };
+}
+
+export function timeToSerial(hours: number, minutes: number, seconds: number): number {
+    return (hours * 3600 + minutes * 60 + seconds) / SECONDS_PER_DAY;
+}
+
+export function daysInMonth(year: number, month: number): number {
+    const date = new Date(0);
+    date.setUTCFullYear(year, month, 0);
+    return date.getUTCDate();
+}
+
+/**
+ * Serial of a JavaScript date's local calendar date and time, for TODAY and NOW.
+ */
+export function localDateToSerial(date: Date, system: DateSystem, includeTime: boolean): number {
+    const serial = dateToSerial(date.getFullYear(), date.getMonth() + 1, date.getDate(), system);
+    if (!includeTime) return serial;
+    return serial + timeToSerial(date.getHours(), date.getMinutes(), date.getSeconds());
+}
+
+function monthFromName(name: string): number | null {
+    const lower = name.toLowerCase();
+    if (lower.length < 3) return null;
+    const index = MONTH_NAMES.findIndex(month => month.toLowerCase().startsWith(lower));
+    return index < 0 ? null : index + 1;
+}
+
+// Two-digit years follow Excel: 00-29 are 2000-2029, 30-99 are 1930-1999
+export function expandYear(year: string): number {
+    const value = parseInt(year, 10);
+    if (year.length > 2) return value;
+    return value < 30 ? 2000 + value : 1900 + value;
+}
+
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM|A|P)?$/i;
+
+function parseTimeText(text: string): number | null {
+    const match = text.match(TIME_PATTERN);
+    if (!match) return null;
+
+    let hours = parseInt(match[1], 10);
+    const minutes = parseInt(match[2], 10);
+    const seconds = match[3] ? parseInt(match[3], 10) : 0;
+    const meridiem = match[4]?.toUpperCase();
+    if (meridiem) {
+        if (hours < 1 || hours > 12) return null;
+        if (hours === 12) hours = 0;
+        if (meridiem.startsWith('P')) hours += 12;
+    }
+    if (hours > 23 || minutes > 59 || seconds > 59) return null;
+    return timeToSerial(hours, minutes, seconds);
+}
+
+function splitDateAndTime(text: string): { datePart: string; time: number } | null {
+    const match = text.match(/^(.*?)(?:[ T]+(\d{1,2}:\d{2}(?::\d{2})?\s*(?:AM|PM|A|P)?))?$/i);
+    if (!match) return null;
+    if (!match[2]) return { datePart: match[1], time: 0 };
+    const time = parseTimeText(match[2]);
+    return time === null ? null : { datePart: match[1], time };
+}
+
+function parseDatePart(text: string): DateParts | null {
+    let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (match) return { year: parseInt(match[1], 10), month: parseInt(match[2], 10), day: parseInt(match[3], 10) };
+
+    // Month/day/year, the en-US order
+    match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+    if (match) return { year: expandYear(match[3]), month: parseInt(match[1], 10), day: parseInt(match[2], 10) };
+
+    // 15-Mar-2024, 15 March 2024
+    match = text.match(/^(\d{1,2})[-\s]([A-Za-z]+)[-\s](\d{2}|\d{4})$/);
+    if (match) {
+        const month = monthFromName(match[2]);
+        return month ? { year: expandYear(match[3]), month, day: parseInt(match[1], 10) } : null;
+    }
+
+    // Mar 15, 2024
+    match = text.match(/^([A-Za-z]+)\s+(\d{1,2}),?\s+(\d{2}|\d{4})$/);
+    if (match) {
+        const month = monthFromName(match[1]);
+        return month ? { year: expandYear(match[3]), month, day: parseInt(match[2], 10) } : null;
+    }
+
+    return null;
+}
+
+/**
+ * Recognizes a date and/or time typed into a cell and returns its serial,
+ * or null when the text is not a valid date. Impossible dates such as
+ * 2/30/2024 are rejected rather than rolled over.
+ */
+export function parseDateText(text: string, system: DateSystem): number | null {
+    const trimmed = text.trim();
+    if (!/[-/:A-Za-z]/.test(trimmed) || !/\d/.test(trimmed)) return null;
+
+    const time = parseTimeText(trimmed);
+    if (time !== null) return time;
+
+    const parts = splitDateAndTime(trimmed);
+    if (!parts) return null;
+    const date = parseDatePart(parts.datePart.trim());
+    if (!date) return null;
+
+    const { year, month, day } = date;
+    if (year < 1900 || year > 9999 || month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+
+    const serial = dateToSerial(year, month, day, system) + parts.time;
+    return isValidSerial(serial, system) ? serial : null;
+}
@@ -0,0 +1,177 @@
+/**
+ * Exact decimal numbers for spreadsheets calculating in exact arithmetic mode,
+ * such as token balances in wei that a double cannot hold: an integer of any
+ * size scaled down by a power of ten, so 1.25 is 125 with scale 2. Values are
+ * kept normalized, without trailing zeros after the point, so equal numbers
+ * have equal digits and scale.
+ */
+export interface DecimalValue {
+    type: 'decimal';
+    digits: bigint;
+    scale: number;
+}
+
+// Digits after the point kept by a division that does not come out even
+export const DIVISION_SCALE = 40;
+
+// Exponents beyond this in decimal text are not read as exact numbers
+const MAX_EXPONENT = 1000;
+
+const DECIMAL_TEXT = /^\s*([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?\s*$/;
+
+// Decimals converted to doubles with digits lost since the page loaded
+let lossyConversions = 0;
+
+function normalize(digits: bigint, scale: number): DecimalValue {
+    while (scale > 0 && digits % 10n === 0n) {
+        digits /= 10n;
+        scale--;
+    }
+    return { type: 'decimal', digits, scale };
+}
+
+function pow10(exponent: number): bigint {
+    return 10n ** BigInt(exponent);
+}
+
+export function isDecimalValue(value: unknown): value is DecimalValue {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && (value as DecimalValue).type === 'decimal';
+}
+
+/**
+ * Reads decimal text such as "-12.5" or "1.5e21" exactly; null for anything else.
+ */
+export function parseDecimal(text: string): DecimalValue | null {
+    const match = DECIMAL_TEXT.exec(text);
+    if (!match) return null;
+    const [, sign, whole, fraction = '', exponentText = '0'] = match;
+    if (whole === '' && fraction === '') return null;
+
+    const exponent = Number(exponentText);
+    if (Math.abs(exponent) > MAX_EXPONENT) return null;
+    let digits = BigInt(whole + fraction || '0');
+    let scale = fraction.length - exponent;
+    if (scale < 0) {
+        digits *= pow10(-scale);
+        scale = 0;
+    }
+    return normalize(sign === '-' ? -digits : digits, scale);
+}
+
+/**
+ * The exact value of a double as it reads back: 0.1 is 0.1, not the binary
+ * fraction nearest to it.
+ */
+export function toDecimal(value: number): DecimalValue {
+    return parseDecimal(String(value))!;
+}
+
+export function decimalToString(value: DecimalValue): string {
+    const negative = value.digits < 0n;
+    const text = (negative ? -value.digits : value.digits).toString().padStart(value.scale + 1, '0');
+    const whole = text.slice(0, text.length - value.scale);
+    const fraction = text.slice(text.length - value.scale);
+    return (negative ? '-' : '') + whole + (fraction ? `.${fraction}` : '');
+}
+
+export function compareDecimals(left: DecimalValue, right: DecimalValue): number {
+    const scale = Math.max(left.scale, right.scale);
+    const a = left.digits * pow10(scale - left.scale);
+    const b = right.digits * pow10(scale - right.scale);
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * A double when it holds the decimal exactly, otherwise the decimal itself.
+ * Results are only kept as decimals where they have to be.
+ */
+export function simplifyDecimal(value: DecimalValue): number | DecimalValue {
+    const approximation = Number(decimalToString(value));
+    if (isFinite(approximation) && compareDecimals(toDecimal(approximation), value) === 0) return approximation;
+    return value;
+}
+
+/**
+ * The nearest double to a decimal, for operations that only work on doubles.
+ * Conversions that lose digits are counted; see getLossyConversionCount.
+ */
+export function approximateDecimal(value: DecimalValue): number {
+    const approximation = simplifyDecimal(value);
+    if (typeof approximation === 'number') return approximation;
+    lossyConversions++;
+    return Number(decimalToString(value));
+}
+
+/**
+ * How many decimals have been converted to doubles with digits lost. The
+ * engine compares the count before and after evaluating a formula to flag it.
+ */
+export function getLossyConversionCount(): number {
+    return lossyConversions;
+}
+
+export function negateDecimal(value: DecimalValue): DecimalValue {
+    return { type: 'decimal', digits: -value.digits, scale: value.scale };
+}
+
+export function addDecimals(left: DecimalValue, right: DecimalValue): DecimalValue {
+    const scale = Math.max(left.scale, right.scale);
+    return normalize(left.digits * pow10(scale - left.scale) + right.digits * pow10(scale - right.scale), scale);
+}
+
+export function subtractDecimals(left: DecimalValue, right: DecimalValue): DecimalValue {
+    return addDecimals(left, negateDecimal(right));
+}
+
+export function multiplyDecimals(left: DecimalValue, right: DecimalValue): DecimalValue {
+    return normalize(left.digits * right.digits, left.scale + right.scale);
+}
+
+/**
+ * Multiplies by a power of ten exactly, dividing for a negative exponent:
+ * moving the point, as converting ether to wei does.
+ */
+export function scaleDecimal(value: DecimalValue, exponent: number): DecimalValue {
+    const scale = value.scale - exponent;
+    return scale < 0 ? normalize(value.digits * pow10(-scale), 0) : normalize(value.digits, scale);
+}
+
+/**
+ * Rounds to a number of digits after the point, half away from zero; a
+ * negative count rounds to tens, hundreds and so on. Being exact, 1.005 to
+ * two places is 1.01, where scaling the double 1.005 gives 1.
+ */
+export function roundDecimal(value: DecimalValue, places: number): DecimalValue {
+    if (value.scale <= places) return value;
+    const magnitude = value.digits < 0n ? -value.digits : value.digits;
+    // Dropping more digits than there are leaves nothing to round up
+    if (value.scale - places > magnitude.toString().length) return { type: 'decimal', digits: 0n, scale: 0 };
+
+    const divisor = pow10(value.scale - places);
+    let rounded = magnitude / divisor;
+    if (2n * (magnitude % divisor) >= divisor) rounded++;
+    return scaleDecimal(normalize(value.digits < 0n ? -rounded : rounded, 0), -places);
+}
+
+/**
+ * Divides to DIVISION_SCALE digits after the point, rounding half away from
+ * zero. The divisor must not be zero.
+ */
+export function divideDecimals(left: DecimalValue, right: DecimalValue): DecimalValue {
+    const numerator = left.digits * pow10(right.scale + DIVISION_SCALE);
+    const denominator = right.digits * pow10(left.scale);
+    let quotient = numerator / denominator;
+    const remainder = numerator % denominator;
+    const absolute = (n: bigint) => (n < 0n ? -n : n);
+    if (2n * absolute(remainder) >= absolute(denominator)) {
+        quotient += (numerator < 0n) === (denominator < 0n) ? 1n : -1n;
+    }
+    return normalize(quotient, DIVISION_SCALE);
+}
+
+/**
+ * Raises a decimal to a whole, non-negative power exactly.
+ */
+export function powerDecimal(base: DecimalValue, exponent: number): DecimalValue {
+    return normalize(base.digits ** BigInt(exponent), base.scale * exponent);
+}
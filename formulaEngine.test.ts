@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateFormula, evaluateFormulaValue } from './formulaEngine';
+import type { WorkbookContext } from './formulaEngine';
+
+const EXACT: WorkbookContext = { sheets: new Map(), dateSystem: '1900', names: [], exactArithmetic: true };
+
+function value(formula: string) {
+    return evaluateFormulaValue(formula, 'Z1', new Map());
+}
+
+function text(formula: string, workbook?: WorkbookContext) {
+    return evaluateFormula(formula, 'Z1', new Map(), workbook);
+}
+
+describe('arrays', () => {
+    it('returns dynamic array results whole', () => {
+        expect(value('=SEQUENCE(3)')).toEqual([[1], [2], [3]]);
+        expect(value('=SEQUENCE(2,2)*10')).toEqual([
+            [10, 20],
+            [30, 40],
+        ]);
+    });
+
+    it('evaluates array constants', () => {
+        expect(value('={1,2;3,4}')).toEqual([
+            [1, 2],
+            [3, 4],
+        ]);
+        expect(value('=SUM({1;2;3})')).toBe(6);
+        expect(value('=INDEX({1,2;3,4},2,1)')).toBe(3);
+    });
+});
+
+describe('LET and LAMBDA', () => {
+    it('binds names in order', () => {
+        expect(value('=LET(x,2,y,x+1,x*y)')).toBe(6);
+    });
+
+    it('calls a LAMBDA directly or through a LET name', () => {
+        expect(value('=LAMBDA(a,b,a+b)(2,3)')).toBe(5);
+        expect(value('=LET(double,LAMBDA(n,n*2),double(21))')).toBe(42);
+    });
+
+    it('cannot show a LAMBDA in a cell', () => {
+        expect(text('=LAMBDA(x,x)')).toBe('#CALC!');
+        expect(text('=LAMBDA(x,x)(1,2)')).toBe('#VALUE!');
+    });
+});
+
+describe('arithmetic', () => {
+    it('rounds to doubles by default', () => {
+        expect(value('=0.1+0.2')).toBe(0.30000000000000004);
+    });
+
+    it('keeps every digit with exact arithmetic', () => {
+        expect(text('=0.1+0.2', EXACT)).toBe('0.3');
+        expect(text('=123456789012345678901234567890+1', EXACT)).toBe('123456789012345678901234567891');
+    });
+
+    it('rounds half away from zero on the decimal digits', () => {
+        expect(value('=ROUND(1.005,2)')).toBe(1.01);
+        expect(value('=ROUND(-1.005,2)')).toBe(-1.01);
+        expect(value('=ROUND(1250,-2)')).toBe(1300);
+    });
+
+    it('reports errors as their codes', () => {
+        expect(text('=1/0')).toBe('#DIV/0!');
+        expect(text('=NA()')).toBe('#N/A');
+        expect(text('=1+')).toBe('#ERROR!');
+        expect(text('=NOSUCHFUNCTION(1)')).toBe('#NAME?');
+    });
+});
+
+describe('financial functions', () => {
+    it('match Excel', () => {
+        expect(value('=PMT(0.05/12,360,200000)')).toBeCloseTo(-1073.64, 2);
+        expect(value('=FV(0.06/12,10,-200,-500,1)')).toBeCloseTo(2581.4, 2);
+        expect(value('=NPV(0.1,-10000,3000,4200,6800)')).toBeCloseTo(1188.44, 2);
+        expect(value('=IRR({-100,60,60})')).toBeCloseTo(0.1307, 4);
+    });
+});
+
+describe('date functions', () => {
+    it('count whole years, months and days', () => {
+        expect(value('=DATEDIF(DATE(2000,2,15),DATE(2024,2,14),"Y")')).toBe(23);
+        expect(value('=DATEDIF(DATE(2024,1,15),DATE(2024,3,14),"M")')).toBe(1);
+    });
+
+    it('never give a negative "MD" at month ends', () => {
+        expect(value('=DATEDIF(DATE(2020,1,31),DATE(2020,3,1),"MD")')).toBe(1);
+    });
+
+    it('clamp EDATE to the end of a shorter month', () => {
+        expect(text('=TEXT(EDATE(DATE(2024,1,31),1),"yyyy-mm-dd")')).toBe('2024-02-29');
+    });
+});
@@ -1,272 +1,2360 @@
+import { parseFormula, formatCellReference, parseCellReference, FormulaSyntaxError, MAX_ROWS, MAX_COLS } from './formulaParser';
+import type { FormulaNode, CellReference } from './formulaParser';
+import {
+    updateCellDependencies,
+    getRecalculationOrder,
+    qualifyCellId,
+    splitQualifiedCellId,
+    setSpillRange,
+    getSpillAnchors,
+} from './dependencyGraph';
+import type { DependencyGraph, RangeReference, RecalculationStep } from './dependencyGraph';
+import {
+    FormulaError,
+    errorValue,
+    isErrorValue,
+    parseCellValue,
+    parseNumericText,
+    checkNumber,
+    throwIfError,
+    toNumber,
+    toText,
+    toBoolean,
+    toDecimalValue,
+    compareValues,
+    getValueType,
+} from './formulaValues';
+import type { CellValue, FormulaValue } from './formulaValues';
+import {
+    isDecimalValue,
+    parseDecimal,
+    simplifyDecimal,
+    compareDecimals,
+    negateDecimal,
+    addDecimals,
+    subtractDecimals,
+    multiplyDecimals,
+    divideDecimals,
+    powerDecimal,
+    scaleDecimal,
+    roundDecimal,
+    toDecimal,
+    decimalToString,
+    getLossyConversionCount,
+} from './formulaDecimal';
+import type { DecimalValue } from './formulaDecimal';
+import { parseCriteria, wildcardToRegExp } from './formulaCriteria';
+import { lookupIndex } from './formulaLookup';
+import { expandNames, isLambdaNode } from './formulaNames';
+import type { NameDefinition } from './formulaNames';
+import { getBuiltInFunctions, getCustomFunction } from './formulaRegistry';
+import type { ArgumentSpec, ArgumentValue, CustomFunction } from './formulaRegistry';
+import type { MatchMode, SearchMode } from './formulaLookup';
+import {
+    keccak256,
+    sha256,
+    bytesToHex,
+    toHashInput,
+    checksumAddress,
+    isValidPrincipal,
+    unitDecimals,
+    parseHex,
+    formatHex,
+    MAX_TOKEN_DECIMALS,
+} from './formulaWeb3';
+import { broadcast, mapArray, transpose, compareForSort, uniqueKey, checkArraySize } from './formulaArrays';
+import {
+    dateToSerial,
+    serialToDate,
+    serialWeekday,
+    maxDateSerial,
+    isValidSerial,
+    daysInMonth,
+    localDateToSerial,
+    parseDateText,
+} from './formulaDates';
+import type { DateSystem } from './formulaDates';
+import {
+    futureValue,
+    presentValue,
+    payment,
+    periods,
+    interestRate,
+    netPresentValue,
+    internalRateOfReturn,
+    scheduledNetPresentValue,
+    scheduledInternalRateOfReturn,
+} from './formulaFinancial';
+import { variance, median, mode, percentile, kthValue, rank, correlation, linearFit } from './formulaStatistics';
+import {
+    DATE_FORMAT,
+    TIME_FORMAT,
+    DATE_TIME_FORMAT,
+    isDateFormat,
+    formatForSerial,
+    formatCellValue,
+    formatWithCode,
+} from './formulaFormats';
+
 interface CellData {
     value: string;
     formula?: string;
     displayValue?: string;
+    // Typed result of the formula, kept so "TRUE" text and TRUE stay distinct;
+    // the whole array for a formula that spills
+    computedValue?: FormulaValue;
+    // Set on cells showing part of another formula's spilled array
+    spilledFrom?: string;
+    // Number format the result is displayed with, e.g. a date format for DATE()
+    numberFormat?: string;
+}
+
+export interface WorkbookContext {
+    // Cells of every loaded sheet by name, for sheet-qualified references
+    sheets: Map<string, Map<string, CellData>>;
+    dateSystem: DateSystem;
+    // Defined names, workbook-wide and sheet-local
+    names: NameDefinition[];
+    // Numbers keep every digit, and + - * / SUM and comparisons work on them exactly
+    exactArithmetic?: boolean;
+}
+
+interface EvaluationContext {
+    cells: Map<string, CellData>;
+    currentCellId: string;
+    workbook: WorkbookContext;
+    // Sheet of the formula, for sheet-local names looked up while evaluating
+    sheetName?: string;
+    // Names bound by the enclosing LET and LAMBDA calls
+    locals?: Map<string, LocalValue>;
+    lambdaDepth?: number;
+}
+
+type FormulaFunction = (args: FormulaNode[], context: EvaluationContext) => FormulaValue;
+
+/**
+ * A LAMBDA: its parameters, its body and the LET and LAMBDA names it closed
+ * over. Lambdas only live inside a formula; one left as a result is #CALC!.
+ */
+interface Lambda {
+    type: 'lambda';
+    params: string[];
+    body: FormulaNode;
+    locals: Map<string, LocalValue>;
+}
+
+type LocalValue = FormulaValue | Lambda;
+
+// Nested LAMBDA calls allowed before recursion is cut off with #NUM!, well
+// within what the JavaScript stack takes
+const MAX_LAMBDA_DEPTH = 256;
+
+/**
+ * Finds a sheet by name the way Excel does, ignoring case.
+ */
+export function findSheetName(sheets: Map<string, unknown>, name: string): string | undefined {
+    if (sheets.has(name)) return name;
+    const upper = name.toUpperCase();
+    return Array.from(sheets.keys()).find(sheetName => sheetName.toUpperCase() === upper);
+}
+
+function getSheetCells(sheet: string | undefined, context: EvaluationContext): Map<string, CellData> {
+    if (sheet === undefined) return context.cells;
+    const sheetName = findSheetName(context.workbook.sheets, sheet);
+    if (sheetName === undefined) throw new FormulaError('#REF!');
+    return context.workbook.sheets.get(sheetName)!;
+}
+
+/**
+ * A cell's value as formulas read it: typed text parsed, a formula's result,
+ * null for a blank cell.
+ */
+export function getCellValue(cellId: string, cells: Map<string, CellData>, workbook: WorkbookContext): CellValue {
+    const cellData = cells.get(cellId);
+    if (!cellData) return null;
+    if (!cellData.formula && !cellData.spilledFrom) return parseCellValue(cellData.value, workbook.dateSystem, workbook.exactArithmetic);
+    // A spilling formula's own cell holds the top-left element
+    if (Array.isArray(cellData.computedValue)) return cellData.computedValue[0][0];
+    if (cellData.computedValue !== undefined) return cellData.computedValue;
+    return parseCellValue(cellData.displayValue ?? '');
+}
+
+function getSpilledArray(ref: CellReference, cells: Map<string, CellData>): FormulaValue {
+    const computedValue = cells.get(formatCellReference(ref))?.computedValue;
+    if (Array.isArray(computedValue)) return computedValue;
+    // A blocked spill reports #SPILL! through A1# as well
+    if (isErrorValue(computedValue)) return computedValue;
+    throw new FormulaError('#REF!');
+}
+
+function getRangeValues(start: CellReference, end: CellReference, cells: Map<string, CellData>, workbook: WorkbookContext): CellValue[][] {
+    const rows: CellValue[][] = [];
+    for (let row = start.row; row <= end.row; row++) {
+        const rowValues: CellValue[] = [];
+        for (let col = start.col; col <= end.col; col++) {
+            rowValues.push(getCellValue(formatCellReference({ col, row }), cells, workbook));
+        }
+        rows.push(rowValues);
+    }
+    return rows;
+}
+
+function evaluateNode(node: FormulaNode, context: EvaluationContext): FormulaValue {
+    switch (node.type) {
+        case 'number': {
+            // The literal's own digits, which the double may not hold
+            const decimal = context.workbook.exactArithmetic && node.text ? parseDecimal(node.text) : null;
+            return decimal ? simplifyDecimal(decimal) : checkNumber(node.value);
+        }
+        case 'string':
+        case 'boolean':
+            return node.value;
+        case 'error':
+            return errorValue(node.code);
+        case 'empty':
+            return null;
+        case 'cell':
+            return getCellValue(formatCellReference(node.ref), getSheetCells(node.sheet, context), context.workbook);
+        case 'range':
+            return getRangeValues(node.start, node.end, getSheetCells(node.sheet, context), context.workbook);
+        case 'spill':
+            return getSpilledArray(node.ref, getSheetCells(node.sheet, context));
+        case 'array':
+            // The parser allows only literals here, each a single value
+            return node.rows.map(row => row.map(item => evaluateNode(item, context) as CellValue));
+        case 'name':
+        case 'invoke':
+            return toFormulaValue(evaluateLocal(node, context));
+        case 'unary': {
+            const operator = node.operator;
+            if (context.workbook.exactArithmetic) {
+                return mapArray(evaluateNode(node.operand, context), value => {
+                    const operand = toDecimalValue(value);
+                    return simplifyDecimal(operator === '-' ? negateDecimal(operand) : operand);
+                });
+            }
+            return mapArray(evaluateNode(node.operand, context), value => {
+                const operand = toNumber(value);
+                return operator === '-' ? -operand : operand;
+            });
+        }
+        case 'percent':
+            if (context.workbook.exactArithmetic) {
+                return mapArray(evaluateNode(node.operand, context), value => simplifyDecimal(divideDecimals(toDecimalValue(value), HUNDRED)));
+            }
+            return mapArray(evaluateNode(node.operand, context), value => checkNumber(toNumber(value) / 100));
+        case 'binary': {
+            const exact = context.workbook.exactArithmetic === true;
+            return evaluateBinary(node.operator, evaluateNode(node.left, context), evaluateNode(node.right, context), exact);
+        }
+        case 'call': {
+            // A LET or LAMBDA name bound to a LAMBDA is called like a function
+            const local = context.locals?.get(node.name);
+            if (isLambda(local)) return toFormulaValue(invokeLambda(local, node.args, context));
+            const fn = FUNCTIONS[node.name];
+            if (fn) return fn(node.args, context);
+            const custom = getCustomFunction(node.name);
+            if (!custom) throw new FormulaError('#NAME?');
+            return callCustomFunction(custom, node.args, context);
+        }
+    }
+}
+
+function isLambda(value: LocalValue | undefined): value is Lambda {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && value.type === 'lambda';
+}
+
+// A LAMBDA can be passed around and called but not shown in a cell
+function toFormulaValue(value: LocalValue): FormulaValue {
+    if (isLambda(value)) throw new FormulaError('#CALC!');
+    return value;
+}
+
+function makeLambda(args: FormulaNode[], context: EvaluationContext): Lambda {
+    if (args.length === 0) throw new FormulaError('#VALUE!');
+    const params = args.slice(0, -1).map(param => {
+        if (param.type !== 'name' || param.sheet !== undefined) throw new FormulaError('#VALUE!');
+        return param.name;
+    });
+    if (new Set(params).size !== params.length) throw new FormulaError('#VALUE!');
+    return { type: 'lambda', params, body: args[args.length - 1], locals: new Map(context.locals) };
+}
+
+/**
+ * Evaluates a node that may stand for a LAMBDA rather than a value: a LAMBDA
+ * call, a name bound to one, a named LAMBDA recursing, or a call returning one.
+ */
+function evaluateLocal(node: FormulaNode, context: EvaluationContext): LocalValue {
+    switch (node.type) {
+        case 'name': {
+            if (node.sheet === undefined && context.locals?.has(node.name)) return context.locals.get(node.name)!;
+            // Left unexpanded by expandNames where a named LAMBDA refers to itself
+            const expression = expandNames(node, context.workbook.names, context.sheetName);
+            if (isLambdaNode(expression)) return evaluateLocal(expression, { ...context, locals: undefined });
+            return evaluateNode(expression, context);
+        }
+        case 'call': {
+            if (node.name === 'LAMBDA') return makeLambda(node.args, context);
+            const local = context.locals?.get(node.name);
+            if (isLambda(local)) return invokeLambda(local, node.args, context);
+            return evaluateNode(node, context);
+        }
+        case 'invoke':
+            return invokeLambda(evaluateLambda(node.callee, context), node.args, context);
+        default:
+            return evaluateNode(node, context);
+    }
+}
+
+function evaluateLambda(node: FormulaNode, context: EvaluationContext): Lambda {
+    const value = evaluateLocal(node, context);
+    if (!isLambda(value)) throw new FormulaError('#VALUE!');
+    return value;
+}
+
+function applyLambda(lambda: Lambda, values: LocalValue[], context: EvaluationContext): LocalValue {
+    if (values.length !== lambda.params.length) throw new FormulaError('#VALUE!');
+    const lambdaDepth = (context.lambdaDepth ?? 0) + 1;
+    if (lambdaDepth > MAX_LAMBDA_DEPTH) throw new FormulaError('#NUM!');
+
+    const locals = new Map(lambda.locals);
+    lambda.params.forEach((param, i) => locals.set(param, values[i]));
+    return evaluateLocal(lambda.body, { ...context, locals, lambdaDepth });
+}
+
+function invokeLambda(lambda: Lambda, args: FormulaNode[], context: EvaluationContext): LocalValue {
+    return applyLambda(lambda, args.map(arg => evaluateLocal(arg, context)), context);
+}
+
+/**
+ * Calls a LAMBDA for one element of MAP, BYROW or BYCOL. Each call must give
+ * a single value; an error in one call only affects its own element.
+ */
+function applyLambdaToElement(lambda: Lambda, values: FormulaValue[], context: EvaluationContext): CellValue {
+    try {
+        const result = toFormulaValue(applyLambda(lambda, values, context));
+        if (!Array.isArray(result)) return result;
+        if (result.length === 1 && result[0].length === 1) return result[0][0];
+        throw new FormulaError('#CALC!');
+    } catch (error) {
+        if (error instanceof FormulaError) return errorValue(error.code);
+        throw error;
+    }
+}
+
+// The LAMBDA argument of MAP, REDUCE, BYROW and BYCOL, taking `params` parameters
+function lambdaArg(node: FormulaNode, params: number, context: EvaluationContext): Lambda {
+    const lambda = evaluateLambda(node, context);
+    if (lambda.params.length !== params) throw new FormulaError('#VALUE!');
+    return lambda;
+}
+
+// An argument of a registered function, evaluated as its spec says
+function customArgument(node: FormulaNode, spec: ArgumentSpec, context: EvaluationContext): ArgumentValue {
+    if (node.type === 'empty') return undefined;
+    switch (spec.type) {
+        case 'number':
+            return toNumber(evaluateNode(node, context));
+        case 'text':
+            return toText(evaluateNode(node, context));
+        case 'boolean':
+            return toBoolean(evaluateNode(node, context));
+        case 'array': {
+            const value = evaluateCatchingErrors(node, context);
+            return Array.isArray(value) ? value : [[value]];
+        }
+        case 'lambda': {
+            const lambda = evaluateLambda(node, context);
+            return (...values: FormulaValue[]) => toFormulaValue(applyLambda(lambda, values, context));
+        }
+        case 'any':
+            return evaluateCatchingErrors(node, context);
+    }
+}
+
+/**
+ * Calls a function registered from outside the engine. Its result is checked
+ * like any other: numbers have to be finite and arrays rectangular.
+ */
+function callCustomFunction(definition: CustomFunction, args: FormulaNode[], context: EvaluationContext): FormulaValue {
+    const specs = definition.args;
+    const repeating = specs.length > 0 && specs[specs.length - 1].repeating;
+    expectArgs(args, specs.filter(spec => !spec.optional).length, repeating ? Infinity : specs.length);
+    const values = args.map((arg, i) => customArgument(arg, specs[Math.min(i, specs.length - 1)], context));
+
+    let result: FormulaValue | undefined;
+    try {
+        result = definition.implementation(values, { cellId: context.currentCellId, sheetName: context.sheetName });
+    } catch (error) {
+        if (error instanceof FormulaError) throw error;
+        throw new FormulaError('#VALUE!');
+    }
+    if (result === undefined) return null;
+    if (typeof result === 'number') return checkNumber(result);
+    if (Array.isArray(result)) {
+        const width = result[0]?.length;
+        if (!width || result.some(row => row.length !== width)) throw new FormulaError('#VALUE!');
+        checkArraySize(result.length, width);
+    }
+    return result;
+}
+
+/**
+ * Operators work element by element on arrays (=A1:A10*2), so a range
+ * operand produces an array result that spills.
+ */
+function evaluateBinary(operator: string, left: FormulaValue, right: FormulaValue, exact: boolean): FormulaValue {
+    return broadcast(left, right, (l, r) => evaluateScalarBinary(operator, l, r, exact));
+}
+
+function evaluateScalarBinary(operator: string, left: CellValue, right: CellValue, exact: boolean): CellValue {
+    // Errors propagate left to right, before any type mismatch is reported
+    throwIfError(left);
+    throwIfError(right);
+
+    if (exact && EXACT_OPERATORS.includes(operator)) {
+        const result = evaluateExactBinary(operator, toDecimalValue(left), toDecimalValue(right));
+        if (result !== undefined) return result;
+    }
+
+    switch (operator) {
+        case '+':
+            return checkNumber(toNumber(left) + toNumber(right));
+        case '-':
+            return checkNumber(toNumber(left) - toNumber(right));
+        case '*':
+            return checkNumber(toNumber(left) * toNumber(right));
+        case '/': {
+            const dividend = toNumber(left);
+            const divisor = toNumber(right);
+            if (divisor === 0) throw new FormulaError('#DIV/0!');
+            return checkNumber(dividend / divisor);
+        }
+        case '^': {
+            const base = toNumber(left);
+            const exponent = toNumber(right);
+            // 0^0 and 0^negative are errors in Excel, not 1 and Infinity
+            if (base === 0 && exponent === 0) throw new FormulaError('#NUM!');
+            if (base === 0 && exponent < 0) throw new FormulaError('#DIV/0!');
+            return checkNumber(Math.pow(base, exponent));
+        }
+        case '&':
+            return toText(left) + toText(right);
+    }
+
+    const comparison = compareValues(left, right);
+    switch (operator) {
+        case '=':
+            return comparison === 0;
+        case '<>':
+            return comparison !== 0;
+        case '<':
+            return comparison < 0;
+        case '>':
+            return comparison > 0;
+        case '<=':
+            return comparison <= 0;
+        case '>=':
+            return comparison >= 0;
+    }
+
+    throw new FormulaError('#VALUE!');
+}
+
+const ZERO: DecimalValue = { type: 'decimal', digits: 0n, scale: 0 };
+const HUNDRED: DecimalValue = { type: 'decimal', digits: 100n, scale: 0 };
+const EXACT_OPERATORS = ['+', '-', '*', '/', '^'];
+// Largest result, in digits, of a power worked out exactly; beyond it ^ uses doubles
+const MAX_EXACT_POWER_DIGITS = 10000;
+
+/**
+ * Arithmetic in exact arithmetic mode, on decimals so that no digit is lost.
+ * Only whole, non-negative powers are exact; undefined for any other, which
+ * then falls back to doubles.
+ */
+function evaluateExactBinary(operator: string, left: DecimalValue, right: DecimalValue): CellValue | undefined {
+    switch (operator) {
+        case '+':
+            return simplifyDecimal(addDecimals(left, right));
+        case '-':
+            return simplifyDecimal(subtractDecimals(left, right));
+        case '*':
+            return simplifyDecimal(multiplyDecimals(left, right));
+        case '/':
+            if (right.digits === 0n) throw new FormulaError('#DIV/0!');
+            return simplifyDecimal(divideDecimals(left, right));
+        case '^': {
+            if (right.scale !== 0 || right.digits < 0n) return undefined;
+            if (left.digits === 0n && right.digits === 0n) throw new FormulaError('#NUM!');
+            const exponent = Number(right.digits);
+            if (decimalToString(left).length * exponent > MAX_EXACT_POWER_DIGITS) return undefined;
+            return simplifyDecimal(powerDecimal(left, exponent));
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Evaluates every argument and flattens ranges into a single list.
+ * Values coming from ranges are flagged so aggregate functions can
+ * skip text and blanks the way Excel does.
+ */
+function collectValues(args: FormulaNode[], context: EvaluationContext): { value: CellValue; fromRange: boolean }[] {
+    const values: { value: CellValue; fromRange: boolean }[] = [];
+    args.forEach(arg => {
+        const value = evaluateNode(arg, context);
+        if (Array.isArray(value)) {
+            value.forEach(row => row.forEach(item => values.push({ value: item, fromRange: true })));
+        } else {
+            values.push({ value, fromRange: arg.type === 'cell' });
+        }
+    });
+    return values;
+}
+
+/**
+ * Numbers for aggregate functions. Text, booleans and blanks in ranges are
+ * skipped, but an error anywhere makes the whole aggregate that error.
+ */
+function collectNumbers(args: FormulaNode[], context: EvaluationContext): number[] {
+    return collectNumericValues(args, context).map(toNumber);
+}
+
+// The values collectNumbers converts, for exact arithmetic to take as they are
+function collectNumericValues(args: FormulaNode[], context: EvaluationContext): CellValue[] {
+    return collectValues(args, context)
+        .filter(({ value, fromRange }) => !fromRange || getValueType(value) === 'number' || isErrorValue(value))
+        .map(({ value }) => value);
 }
 
-function parseCellReference(ref: string): { col: number; row: number } | null {
-    const match = ref.match(/^([A-Z]+)(\d+)$/);
+/**
+ * Evaluates a node, returning any error it raises as an error value instead.
+ */
+function evaluateCatchingErrors(node: FormulaNode, context: EvaluationContext): FormulaValue {
+    try {
+        return evaluateNode(node, context);
+    } catch (error) {
+        if (error instanceof FormulaError) return errorValue(error.code);
+        throw error;
+    }
+}
+
+/**
+ * The IS* family never fails: an error is just another value to test, and a
+ * range or array is tested element by element.
+ */
+function informationFunction(test: (value: CellValue) => boolean): FormulaFunction {
+    return (args, context) => {
+        expectArgs(args, 1);
+        return mapArray(evaluateCatchingErrors(args[0], context), test);
+    };
+}
+
+/**
+ * Logical values of one AND/OR/XOR argument. References and arrays contribute
+ * their booleans and numbers, skipping text and blanks; any other value has
+ * to convert to TRUE or FALSE.
+ */
+function logicalValues(node: FormulaNode, context: EvaluationContext): boolean[] {
+    const value = evaluateNode(node, context);
+    if (!Array.isArray(value) && node.type !== 'cell') return [toBoolean(value)];
+    const values = Array.isArray(value) ? value.flat() : [value];
+    return values.filter(item => ['boolean', 'number', 'error'].includes(getValueType(item))).map(toBoolean);
+}
+
+/**
+ * Evaluates an argument that has to be a reference; a single cell counts as a 1x1 range.
+ */
+function evaluateRangeArg(node: FormulaNode, context: EvaluationContext): CellValue[][] {
+    const value = evaluateNode(node, context);
+    if (Array.isArray(value)) return value;
+    if (node.type === 'cell') return [[value]];
+    throw new FormulaError('#VALUE!');
+}
+
+/**
+ * Evaluates (criteria_range, criteria) argument pairs into a mask of the
+ * positions that meet every criterion. All ranges must have the same shape.
+ */
+function matchCriteriaPairs(args: FormulaNode[], context: EvaluationContext): boolean[][] {
+    if (args.length < 2 || args.length % 2 !== 0) throw new FormulaError('#VALUE!');
+
+    let mask: boolean[][] | null = null;
+    for (let i = 0; i < args.length; i += 2) {
+        const range = evaluateRangeArg(args[i], context);
+        const criteria = evaluateNode(args[i + 1], context);
+        if (Array.isArray(criteria)) throw new FormulaError('#VALUE!');
+        const matches = parseCriteria(criteria, context.workbook.dateSystem);
+
+        const previous: boolean[][] | null = mask;
+        if (previous && (range.length !== previous.length || range[0].length !== previous[0].length)) {
+            throw new FormulaError('#VALUE!');
+        }
+        mask = range.map((row, r) => row.map((value, c) => (previous ? previous[r][c] : true) && matches(value)));
+    }
+    return mask!;
+}
+
+/**
+ * Picks the values at the masked positions. SUMIF and AVERAGEIF tolerate a
+ * differently sized value range (positions past its end are skipped); the
+ * *IFS functions require matching shapes.
+ */
+function selectMatching(values: CellValue[][], mask: boolean[][], strict: boolean): CellValue[] {
+    if (strict && (values.length !== mask.length || values[0].length !== mask[0].length)) {
+        throw new FormulaError('#VALUE!');
+    }
+    const selected: CellValue[] = [];
+    mask.forEach((row, r) =>
+        row.forEach((matched, c) => {
+            if (matched && r < values.length && c < values[r].length) selected.push(values[r][c]);
+        })
+    );
+    return selected;
+}
+
+/**
+ * Numbers among the selected cells; text and blanks are ignored, errors propagate.
+ */
+function matchingNumbers(values: CellValue[]): number[] {
+    return values.filter(value => getValueType(value) === 'number' || isErrorValue(value)).map(toNumber);
+}
+
+function sumOf(numbers: number[]): number {
+    return checkNumber(numbers.reduce((acc, value) => acc + value, 0));
+}
+
+function averageOf(numbers: number[]): number {
+    if (numbers.length === 0) throw new FormulaError('#DIV/0!');
+    return checkNumber(sumOf(numbers) / numbers.length);
+}
+
+/**
+ * Shared shape of SUMIF and AVERAGEIF: (range, criteria, [value_range]).
+ */
+function conditionalNumbers(args: FormulaNode[], context: EvaluationContext): number[] {
+    expectArgs(args, 2, 3);
+    const mask = matchCriteriaPairs(args.slice(0, 2), context);
+    const values = args.length === 3 ? evaluateRangeArg(args[2], context) : evaluateRangeArg(args[0], context);
+    return matchingNumbers(selectMatching(values, mask, false));
+}
+
+/**
+ * Shared shape of SUMIFS, AVERAGEIFS, MAXIFS and MINIFS: (value_range, range1, criteria1, ...).
+ */
+function multiConditionalNumbers(args: FormulaNode[], context: EvaluationContext): number[] {
+    if (args.length < 3) throw new FormulaError('#VALUE!');
+    const mask = matchCriteriaPairs(args.slice(1), context);
+    return matchingNumbers(selectMatching(evaluateRangeArg(args[0], context), mask, true));
+}
+
+/**
+ * Evaluates an argument that may be a range, an array result or a single
+ * value; a single value counts as a 1x1 array.
+ */
+function evaluateArrayArg(node: FormulaNode, context: EvaluationContext): CellValue[][] {
+    const value = evaluateNode(node, context);
+    return Array.isArray(value) ? value : [[value]];
+}
+
+function evaluateLookupValue(node: FormulaNode, context: EvaluationContext): CellValue {
+    const value = evaluateNode(node, context);
+    if (Array.isArray(value)) throw new FormulaError('#VALUE!');
+    throwIfError(value);
+    return value;
+}
+
+/**
+ * Flattens a single row or column; lookups reject two-dimensional arrays.
+ */
+function toVector(array: CellValue[][]): { values: CellValue[]; horizontal: boolean } {
+    if (array.length === 1) return { values: array[0], horizontal: true };
+    if (array[0].length === 1) return { values: array.map(row => row[0]), horizontal: false };
+    throw new FormulaError('#VALUE!');
+}
+
+function optionalNumberArg(node: FormulaNode | undefined, defaultValue: number, context: EvaluationContext): number {
+    if (!node || node.type === 'empty') return defaultValue;
+    return Math.trunc(toNumber(evaluateNode(node, context)));
+}
+
+// Like optionalNumberArg, for arguments that may be fractional
+function optionalValueArg(node: FormulaNode | undefined, defaultValue: number, context: EvaluationContext): number {
+    if (!node || node.type === 'empty') return defaultValue;
+    return toNumber(evaluateNode(node, context));
+}
+
+/**
+ * The shared tail of PMT, PV, FV, NPER and RATE: [fv or pv], [type]. Any
+ * non-zero type means payments at the start of each period.
+ */
+function annuityArgs(args: FormulaNode[], from: number, context: EvaluationContext): { value: number; type: number } {
+    return {
+        value: optionalValueArg(args[from], 0, context),
+        type: optionalValueArg(args[from + 1], 0, context) !== 0 ? 1 : 0,
+    };
+}
+
+// Numbers of an array argument, such as IRR's cash flows; text, booleans and blanks are skipped
+function evaluateNumbersArg(node: FormulaNode, context: EvaluationContext): number[] {
+    return matchingNumbers(evaluateArrayArg(node, context).flat());
+}
+
+/**
+ * Pairs up the y and x arrays of CORREL, SLOPE and friends, keeping only the
+ * positions where both hold numbers. Arrays of different sizes are #N/A.
+ */
+function evaluatePairs(yNode: FormulaNode, xNode: FormulaNode, context: EvaluationContext): { xs: number[]; ys: number[] } {
+    const yValues = evaluateArrayArg(yNode, context).flat();
+    const xValues = evaluateArrayArg(xNode, context).flat();
+    if (yValues.length !== xValues.length) throw new FormulaError('#N/A');
+
+    const xs: number[] = [];
+    const ys: number[] = [];
+    yValues.forEach((y, i) => {
+        const x = xValues[i];
+        throwIfError(y);
+        throwIfError(x);
+        if (getValueType(x) === 'number' && getValueType(y) === 'number') {
+            xs.push(toNumber(x));
+            ys.push(toNumber(y));
+        }
+    });
+    return { xs, ys };
+}
+
+function rankOf(args: FormulaNode[], context: EvaluationContext, average: boolean): number {
+    expectArgs(args, 2, 3);
+    const value = toNumber(evaluateNode(args[0], context));
+    const numbers = evaluateNumbersArg(args[1], context);
+    const ascending = optionalValueArg(args[2], 0, context) !== 0;
+    return rank(value, numbers, ascending, average);
+}
+
+function quartileOf(args: FormulaNode[], context: EvaluationContext, exclusive: boolean): number {
+    expectArgs(args, 2);
+    const numbers = evaluateNumbersArg(args[0], context);
+    const quart = Math.trunc(toNumber(evaluateNode(args[1], context)));
+    if (exclusive ? quart < 1 || quart > 3 : quart < 0 || quart > 4) throw new FormulaError('#NUM!');
+    return percentile(numbers, quart / 4, exclusive);
+}
+
+function percentileOf(args: FormulaNode[], context: EvaluationContext, exclusive: boolean): number {
+    expectArgs(args, 2);
+    const numbers = evaluateNumbersArg(args[0], context);
+    return percentile(numbers, toNumber(evaluateNode(args[1], context)), exclusive);
+}
+
+// k is rounded up, so LARGE(A1:A5,1.5) is the second largest
+function kthValueOf(args: FormulaNode[], context: EvaluationContext, largest: boolean): number {
+    expectArgs(args, 2);
+    const numbers = evaluateNumbersArg(args[0], context);
+    return kthValue(numbers, Math.ceil(toNumber(evaluateNode(args[1], context))), largest);
+}
+
+function forecastOf(args: FormulaNode[], context: EvaluationContext): number {
+    expectArgs(args, 3);
+    const x = toNumber(evaluateNode(args[0], context));
+    const { xs, ys } = evaluatePairs(args[1], args[2], context);
+    const { slope, intercept } = linearFit(xs, ys);
+    return checkNumber(intercept + slope * x);
+}
+
+// Values or dates of XNPV and XIRR, where every entry has to be a number
+function evaluateSchedule(node: FormulaNode, context: EvaluationContext): number[] {
+    return evaluateArrayArg(node, context)
+        .flat()
+        .map(value => {
+            throwIfError(value);
+            if (getValueType(value) !== 'number') throw new FormulaError('#VALUE!');
+            return toNumber(value);
+        });
+}
+
+// Patterns use JavaScript regular expression syntax; an invalid one is #VALUE!
+function compileRegExp(pattern: string, caseInsensitive: boolean, global: boolean): RegExp {
+    try {
+        return new RegExp(pattern, (caseInsensitive ? 'i' : '') + (global ? 'g' : ''));
+    } catch {
+        throw new FormulaError('#VALUE!');
+    }
+}
+
+// One or more delimiters for TEXTSPLIT, given as text or an array of texts
+function evaluateDelimiters(node: FormulaNode | undefined, context: EvaluationContext): string[] {
+    if (!node || node.type === 'empty') return [];
+    const delimiters = evaluateArrayArg(node, context).flat().map(toText);
+    if (delimiters.includes('')) throw new FormulaError('#VALUE!');
+    return delimiters;
+}
+
+function splitText(text: string, delimiters: string[], caseInsensitive: boolean, ignoreEmpty: boolean): string[] {
+    if (delimiters.length === 0) return [text];
+    const pattern = delimiters.map(delimiter => delimiter.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+    const parts = text.split(new RegExp(pattern, caseInsensitive ? 'i' : ''));
+    return ignoreEmpty ? parts.filter(part => part !== '') : parts;
+}
+
+const XLOOKUP_MATCH_MODES: Record<number, MatchMode> = { 0: 'exact', [-1]: 'nextSmaller', 1: 'nextLarger', 2: 'wildcard' };
+const XLOOKUP_SEARCH_MODES: Record<number, SearchMode> = {
+    1: 'forward',
+    [-1]: 'reverse',
+    2: 'binaryAscending',
+    [-2]: 'binaryDescending',
+};
+
+/**
+ * Decimals of a TOWEI or FROMWEI unit: a unit name such as "gwei", or the
+ * token's own number of decimals. Ether when omitted.
+ */
+function evaluateUnitArg(node: FormulaNode | undefined, context: EvaluationContext): number {
+    if (!node || node.type === 'empty') return 18;
+    const unit = evaluateNode(node, context);
+    if (typeof unit === 'string' && unitDecimals(unit) !== undefined) return unitDecimals(unit)!;
+    const decimals = toNumber(unit);
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_TOKEN_DECIMALS) throw new FormulaError('#NUM!');
+    return decimals;
+}
+
+// References OFFSET and INDIRECT return, evaluated like a reference written in the formula
+type ReferenceNode = Extract<FormulaNode, { type: 'cell' | 'range' }>;
+
+function referenceNode(start: CellReference, end: CellReference, sheet: string | undefined): ReferenceNode {
+    if (start.row < 0 || start.col < 0 || end.row >= MAX_ROWS || end.col >= MAX_COLS) throw new FormulaError('#REF!');
+    return start.row === end.row && start.col === end.col ? { type: 'cell', ref: start, sheet } : { type: 'range', start, end, sheet };
+}
+
+const R1C1_REFERENCE = /^R(\[-?\d+\]|\d+)?C(\[-?\d+\]|\d+)?$/i;
+
+/**
+ * An R1C1 reference such as R2C3 (row 2, column 3) or R[-1]C (the row above
+ * in the same column), relative to the formula's own cell.
+ */
+function parseR1C1Reference(text: string, origin: CellReference): CellReference | null {
+    const match = R1C1_REFERENCE.exec(text);
     if (!match) return null;
+    const position = (part: string | undefined, own: number) => {
+        if (part === undefined) return own;
+        return part.startsWith('[') ? own + Number(part.slice(1, -1)) : Number(part) - 1;
+    };
+    return { row: position(match[1], origin.row), col: position(match[2], origin.col) };
+}
+
+/**
+ * The reference INDIRECT's text stands for: an A1 reference or defined name,
+ * or with a1 FALSE an R1C1 reference, either with a sheet in front.
+ */
+function parseIndirectReference(text: string, a1: boolean, context: EvaluationContext): ReferenceNode {
+    if (a1) {
+        let node: FormulaNode;
+        try {
+            node = expandNames(parseFormula(text), context.workbook.names, context.sheetName);
+        } catch (error) {
+            if (error instanceof FormulaSyntaxError) throw new FormulaError('#REF!');
+            throw error;
+        }
+        if (node.type !== 'cell' && node.type !== 'range') throw new FormulaError('#REF!');
+        return node;
+    }
 
-    const colStr = match[1];
-    const rowStr = match[2];
+    const origin = parseCellReference(context.currentCellId) ?? { row: 0, col: 0 };
+    const separator = text.lastIndexOf('!');
+    const sheetText = separator < 0 ? undefined : text.slice(0, separator);
+    const sheet = sheetText?.startsWith("'") ? sheetText.slice(1, -1).replace(/''/g, "'") : sheetText;
+    const [first, second = first] = text.slice(separator + 1).split(':');
+    const start = parseR1C1Reference(first, origin);
+    const end = parseR1C1Reference(second, origin);
+    if (!start || !end) throw new FormulaError('#REF!');
+    return referenceNode(
+        { row: Math.min(start.row, end.row), col: Math.min(start.col, end.col) },
+        { row: Math.max(start.row, end.row), col: Math.max(start.col, end.col) },
+        sheet
+    );
+}
+
+function expectArgs(args: FormulaNode[], min: number, max: number = min) {
+    if (args.length < min || args.length > max) throw new FormulaError('#VALUE!');
+}
+
+/**
+ * A date argument as a whole-day serial. Date text such as "2024-03-15" is
+ * accepted like in Excel; anything outside the date system is #NUM!.
+ */
+function evaluateDateArg(node: FormulaNode, context: EvaluationContext): number {
+    const value = evaluateNode(node, context);
+    const { dateSystem } = context.workbook;
+    const serial = typeof value === 'string' ? (parseDateText(value, dateSystem) ?? toNumber(value)) : toNumber(value);
+    if (!isValidSerial(serial, dateSystem)) throw new FormulaError('#NUM!');
+    return Math.floor(serial);
+}
+
+function checkSerial(serial: number, dateSystem: DateSystem): number {
+    if (!isValidSerial(serial, dateSystem)) throw new FormulaError('#NUM!');
+    return serial;
+}
+
+// Same day of the month a number of months away, clamped to the month's last day
+function addMonths(serial: number, months: number, dateSystem: DateSystem, endOfMonth: boolean): number {
+    const { year, month, day } = serialToDate(serial, dateSystem);
+    const total = year * 12 + (month - 1) + months;
+    const targetYear = Math.floor(total / 12);
+    const targetMonth = (total % 12) + 1;
+    if (targetYear < 1900 || targetYear > 9999) throw new FormulaError('#NUM!');
+    const lastDay = daysInMonth(targetYear, targetMonth);
+    return checkSerial(dateToSerial(targetYear, targetMonth, endOfMonth ? lastDay : Math.min(day, lastDay), dateSystem), dateSystem);
+}
 
-    let col = 0;
-    for (let i = 0; i < colStr.length; i++) {
-        col = col * 26 + (colStr.charCodeAt(i) - 64);
+function isWeekend(serial: number, dateSystem: DateSystem): boolean {
+    const weekday = serialWeekday(serial, dateSystem);
+    return weekday === 0 || weekday === 6;
+}
+
+function evaluateHolidays(node: FormulaNode | undefined, context: EvaluationContext): Set<number> {
+    const holidays = new Set<number>();
+    if (!node || node.type === 'empty') return holidays;
+    evaluateArrayArg(node, context).forEach(row =>
+        row.forEach(value => {
+            if (value !== null) holidays.add(Math.floor(toNumber(value)));
+        })
+    );
+    return holidays;
+}
+
+// Monday to Friday between two serials, both included, less any holidays
+function countWorkdays(start: number, end: number, holidays: Set<number>, dateSystem: DateSystem): number {
+    const weeks = Math.floor((end - start + 1) / 7);
+    let count = weeks * 5;
+    for (let serial = start + weeks * 7; serial <= end; serial++) {
+        if (!isWeekend(serial, dateSystem)) count++;
     }
-    col -= 1;
+    holidays.forEach(holiday => {
+        if (holiday >= start && holiday <= end && !isWeekend(holiday, dateSystem)) count--;
+    });
+    return count;
+}
 
-    const row = parseInt(rowStr) - 1;
+// WEEKDAY return types 11-17 number the week from Monday through Sunday
+function weekdayNumber(weekday: number, returnType: number): number {
+    if (returnType === 1) return weekday + 1;
+    if (returnType === 2) return ((weekday + 6) % 7) + 1;
+    if (returnType === 3) return (weekday + 6) % 7;
+    if (returnType >= 11 && returnType <= 17) {
+        const firstDay = (returnType - 10) % 7;
+        return ((weekday - firstDay + 7) % 7) + 1;
+    }
+    throw new FormulaError('#NUM!');
+}
 
-    return { col, row };
+// Whole months from start to end, counting a month only once its day is reached
+function completeMonths(start: number, end: number, dateSystem: DateSystem): number {
+    const from = serialToDate(start, dateSystem);
+    const to = serialToDate(end, dateSystem);
+    return (to.year - from.year) * 12 + (to.month - from.month) - (to.day < from.day ? 1 : 0);
+}
+
+function dateDifference(start: number, end: number, unit: string, dateSystem: DateSystem): number {
+    const from = serialToDate(start, dateSystem);
+    const to = serialToDate(end, dateSystem);
+
+    switch (unit) {
+        case 'D':
+            return end - start;
+        case 'M':
+            return completeMonths(start, end, dateSystem);
+        case 'Y':
+            return Math.floor(completeMonths(start, end, dateSystem) / 12);
+        case 'YM':
+            return completeMonths(start, end, dateSystem) % 12;
+        case 'MD': {
+            if (to.day >= from.day) return to.day - from.day;
+            // Count from the start's day in the month before the end date, clamped to that month's
+            // length: Jan 31 to Mar 1 counts from Feb 29 and is 1, never negative
+            const previousMonth = to.month === 1 ? 12 : to.month - 1;
+            const previousYear = to.month === 1 ? to.year - 1 : to.year;
+            const previousMonthDays = daysInMonth(previousYear, previousMonth);
+            return Math.max(0, previousMonthDays - Math.min(from.day, previousMonthDays) + to.day);
+        }
+        case 'YD': {
+            const anniversary = (year: number) => dateToSerial(year, from.month, Math.min(from.day, daysInMonth(year, from.month)), dateSystem);
+            const last = anniversary(to.year) <= end ? anniversary(to.year) : anniversary(to.year - 1);
+            return end - last;
+        }
+    }
+    throw new FormulaError('#NUM!');
 }
 
-function parseRange(range: string): string[] {
-    const [start, end] = range.split(':');
-    if (!start || !end) return [];
+const FUNCTIONS: Record<string, FormulaFunction> = {
+    SUM: (args, context) => {
+        if (!context.workbook.exactArithmetic) return sumOf(collectNumbers(args, context));
+        const total = collectNumericValues(args, context).reduce<DecimalValue>((acc, value) => addDecimals(acc, toDecimalValue(value)), ZERO);
+        return simplifyDecimal(total);
+    },
+
+    AVERAGE: (args, context) => averageOf(collectNumbers(args, context)),
+
+    MIN: (args, context) => {
+        const numbers = collectNumbers(args, context);
+        return numbers.length === 0 ? 0 : numbers.reduce((acc, value) => Math.min(acc, value));
+    },
+
+    MAX: (args, context) => {
+        const numbers = collectNumbers(args, context);
+        return numbers.length === 0 ? 0 : numbers.reduce((acc, value) => Math.max(acc, value));
+    },
+
+    COUNT: (args, context) =>
+        collectValues(args, context).filter(({ value, fromRange }) => {
+            if (getValueType(value) === 'number') return true;
+            if (fromRange) return false;
+            return typeof value === 'boolean' || (typeof value === 'string' && parseNumericText(value) !== null);
+        }).length,
+
+    COUNTA: (args, context) => collectValues(args, context).filter(({ value }) => value !== null).length,
+
+    'STDEV.S': (args, context) => Math.sqrt(variance(collectNumbers(args, context), true)),
+
+    'STDEV.P': (args, context) => Math.sqrt(variance(collectNumbers(args, context), false)),
+
+    'VAR.S': (args, context) => variance(collectNumbers(args, context), true),
+
+    'VAR.P': (args, context) => variance(collectNumbers(args, context), false),
+
+    MEDIAN: (args, context) => median(collectNumbers(args, context)),
+
+    'MODE.SNGL': (args, context) => mode(collectNumbers(args, context)),
+
+    'PERCENTILE.INC': (args, context) => percentileOf(args, context, false),
 
-    const startRef = parseCellReference(start);
-    const endRef = parseCellReference(end);
+    'PERCENTILE.EXC': (args, context) => percentileOf(args, context, true),
 
-    if (!startRef || !endRef) return [];
+    'QUARTILE.INC': (args, context) => quartileOf(args, context, false),
 
-    const cells: string[] = [];
-    for (let row = startRef.row; row <= endRef.row; row++) {
-        for (let col = startRef.col; col <= endRef.col; col++) {
-            let colLabel = '';
-            let num = col;
-            while (num >= 0) {
-                colLabel = String.fromCharCode(65 + (num % 26)) + colLabel;
-                num = Math.floor(num / 26) - 1;
+    'QUARTILE.EXC': (args, context) => quartileOf(args, context, true),
+
+    'RANK.EQ': (args, context) => rankOf(args, context, false),
+
+    'RANK.AVG': (args, context) => rankOf(args, context, true),
+
+    LARGE: (args, context) => kthValueOf(args, context, true),
+
+    SMALL: (args, context) => kthValueOf(args, context, false),
+
+    CORREL: (args, context) => {
+        expectArgs(args, 2);
+        const { xs, ys } = evaluatePairs(args[0], args[1], context);
+        return correlation(xs, ys);
+    },
+
+    SLOPE: (args, context) => {
+        expectArgs(args, 2);
+        const { xs, ys } = evaluatePairs(args[0], args[1], context);
+        return linearFit(xs, ys).slope;
+    },
+
+    INTERCEPT: (args, context) => {
+        expectArgs(args, 2);
+        const { xs, ys } = evaluatePairs(args[0], args[1], context);
+        return linearFit(xs, ys).intercept;
+    },
+
+    'FORECAST.LINEAR': forecastOf,
+
+    SUMIF: (args, context) => sumOf(conditionalNumbers(args, context)),
+
+    SUMIFS: (args, context) => sumOf(multiConditionalNumbers(args, context)),
+
+    COUNTIF: (args, context) => {
+        expectArgs(args, 2);
+        return matchCriteriaPairs(args, context).flat().filter(Boolean).length;
+    },
+
+    COUNTIFS: (args, context) => matchCriteriaPairs(args, context).flat().filter(Boolean).length,
+
+    AVERAGEIF: (args, context) => averageOf(conditionalNumbers(args, context)),
+
+    AVERAGEIFS: (args, context) => averageOf(multiConditionalNumbers(args, context)),
+
+    MAXIFS: (args, context) => {
+        const numbers = multiConditionalNumbers(args, context);
+        return numbers.length === 0 ? 0 : numbers.reduce((acc, value) => Math.max(acc, value));
+    },
+
+    MINIFS: (args, context) => {
+        const numbers = multiConditionalNumbers(args, context);
+        return numbers.length === 0 ? 0 : numbers.reduce((acc, value) => Math.min(acc, value));
+    },
+
+    ROUND: (args, context) => {
+        expectArgs(args, 2);
+        const value = evaluateNode(args[0], context);
+        const digits = Math.trunc(toNumber(evaluateNode(args[1], context)));
+        // Rounded on the decimal digits the number shows, as Excel does, not on its binary value
+        const decimal = isDecimalValue(value) ? value : toDecimal(toNumber(value));
+        return simplifyDecimal(roundDecimal(decimal, digits));
+    },
+
+    // Volatile: a new number every time the workbook recalculates
+    RAND: (args) => {
+        expectArgs(args, 0);
+        return Math.random();
+    },
+
+    // RANDBETWEEN(bottom, top): a whole number from bottom to top, both included
+    RANDBETWEEN: (args, context) => {
+        expectArgs(args, 2);
+        const bottom = Math.ceil(toNumber(evaluateNode(args[0], context)));
+        const top = Math.floor(toNumber(evaluateNode(args[1], context)));
+        if (bottom > top) throw new FormulaError('#NUM!');
+        return bottom + Math.floor(Math.random() * (top - bottom + 1));
+    },
+
+    CONCAT: (args, context) =>
+        collectValues(args, context)
+            .map(({ value }) => toText(value))
+            .join(''),
+
+    LEN: (args, context) => {
+        expectArgs(args, 1);
+        return toText(evaluateNode(args[0], context)).length;
+    },
+
+    UPPER: (args, context) => {
+        expectArgs(args, 1);
+        return toText(evaluateNode(args[0], context)).toUpperCase();
+    },
+
+    LOWER: (args, context) => {
+        expectArgs(args, 1);
+        return toText(evaluateNode(args[0], context)).toLowerCase();
+    },
+
+    // TEXT(value, format_text) with Excel format codes, e.g. "#,##0.00" or "yyyy-mm-dd"
+    TEXT: (args, context) => {
+        expectArgs(args, 2);
+        const value = evaluateLookupValue(args[0], context);
+        return formatWithCode(value, toText(evaluateNode(args[1], context)), context.workbook.dateSystem);
+    },
+
+    LEFT: (args, context) => {
+        expectArgs(args, 1, 2);
+        const text = toText(evaluateNode(args[0], context));
+        const count = optionalNumberArg(args[1], 1, context);
+        if (count < 0) throw new FormulaError('#VALUE!');
+        return text.substring(0, count);
+    },
+
+    RIGHT: (args, context) => {
+        expectArgs(args, 1, 2);
+        const text = toText(evaluateNode(args[0], context));
+        const count = optionalNumberArg(args[1], 1, context);
+        if (count < 0) throw new FormulaError('#VALUE!');
+        return text.substring(Math.max(0, text.length - count));
+    },
+
+    MID: (args, context) => {
+        expectArgs(args, 3);
+        const text = toText(evaluateNode(args[0], context));
+        const start = Math.trunc(toNumber(evaluateNode(args[1], context)));
+        const count = Math.trunc(toNumber(evaluateNode(args[2], context)));
+        if (start < 1 || count < 0) throw new FormulaError('#VALUE!');
+        return text.substring(start - 1, start - 1 + count);
+    },
+
+    // Case-sensitive, without wildcards; not found is #VALUE!
+    FIND: (args, context) => {
+        expectArgs(args, 2, 3);
+        const findText = toText(evaluateNode(args[0], context));
+        const withinText = toText(evaluateNode(args[1], context));
+        const start = optionalNumberArg(args[2], 1, context);
+        if (start < 1 || start > withinText.length + 1) throw new FormulaError('#VALUE!');
+        const index = withinText.indexOf(findText, start - 1);
+        if (index < 0) throw new FormulaError('#VALUE!');
+        return index + 1;
+    },
+
+    // Case-insensitive, with * and ? wildcards
+    SEARCH: (args, context) => {
+        expectArgs(args, 2, 3);
+        const findText = toText(evaluateNode(args[0], context));
+        const withinText = toText(evaluateNode(args[1], context));
+        const start = optionalNumberArg(args[2], 1, context);
+        if (start < 1 || start > withinText.length + 1) throw new FormulaError('#VALUE!');
+        const match = wildcardToRegExp(findText, false).exec(withinText.substring(start - 1));
+        if (!match) throw new FormulaError('#VALUE!');
+        return match.index + start;
+    },
+
+    // Replaces every occurrence, or only the given one
+    SUBSTITUTE: (args, context) => {
+        expectArgs(args, 3, 4);
+        const text = toText(evaluateNode(args[0], context));
+        const oldText = toText(evaluateNode(args[1], context));
+        const newText = toText(evaluateNode(args[2], context));
+        if (oldText === '') return text;
+        if (args.length < 4) return text.split(oldText).join(newText);
+
+        const instance = Math.trunc(toNumber(evaluateNode(args[3], context)));
+        if (instance < 1) throw new FormulaError('#VALUE!');
+        let index = -1;
+        for (let found = 0; found < instance; found++) {
+            index = text.indexOf(oldText, index + 1);
+            if (index < 0) return text;
+        }
+        return text.substring(0, index) + newText + text.substring(index + oldText.length);
+    },
+
+    // Only spaces are trimmed, and runs of them inside the text become one
+    TRIM: (args, context) => {
+        expectArgs(args, 1);
+        return toText(evaluateNode(args[0], context))
+            .replace(/^ +| +$/g, '')
+            .replace(/ {2,}/g, ' ');
+    },
+
+    // TEXTJOIN(delimiter, ignore_empty, text1, ...); several delimiters are used in turn
+    TEXTJOIN: (args, context) => {
+        if (args.length < 3) throw new FormulaError('#VALUE!');
+        const delimiters = evaluateArrayArg(args[0], context).flat().map(toText);
+        const ignoreEmpty = toBoolean(evaluateNode(args[1], context));
+        const texts = collectValues(args.slice(2), context)
+            .filter(({ value }) => !ignoreEmpty || (value !== null && value !== ''))
+            .map(({ value }) => toText(value));
+        return texts.reduce((acc, text, i) => (i === 0 ? text : acc + delimiters[(i - 1) % delimiters.length] + text), '');
+    },
+
+    // TEXTSPLIT(text, col_delimiter, [row_delimiter], [ignore_empty], [match_mode], [pad_with]) spills the parts
+    TEXTSPLIT: (args, context) => {
+        expectArgs(args, 2, 6);
+        const text = toText(evaluateLookupValue(args[0], context));
+        const columnDelimiters = evaluateDelimiters(args[1], context);
+        const rowDelimiters = evaluateDelimiters(args[2], context);
+        const ignoreEmpty = args[3] && args[3].type !== 'empty' ? toBoolean(evaluateNode(args[3], context)) : false;
+        const caseInsensitive = optionalNumberArg(args[4], 0, context) === 1;
+        const padWith: CellValue = args[5] && args[5].type !== 'empty' ? evaluateLookupValue(args[5], context) : errorValue('#N/A');
+        if (columnDelimiters.length === 0 && rowDelimiters.length === 0) throw new FormulaError('#VALUE!');
+
+        const rows = splitText(text, rowDelimiters, caseInsensitive, ignoreEmpty).map(row =>
+            splitText(row, columnDelimiters, caseInsensitive, ignoreEmpty)
+        );
+        if (rows.length === 0) throw new FormulaError('#CALC!');
+        const width = Math.max(1, ...rows.map(row => row.length));
+        checkArraySize(rows.length, width);
+        return rows.map(row => Array.from({ length: width }, (_, col): CellValue => (col < row.length ? row[col] : padWith)));
+    },
+
+    // REGEXMATCH(text, pattern, [case_sensitivity]): 1 ignores case
+    REGEXMATCH: (args, context) => {
+        expectArgs(args, 2, 3);
+        const text = toText(evaluateNode(args[0], context));
+        const pattern = toText(evaluateNode(args[1], context));
+        return compileRegExp(pattern, optionalNumberArg(args[2], 0, context) === 1, false).test(text);
+    },
+
+    // REGEXEXTRACT(text, pattern, [return_mode], [case_sensitivity]): 0 the first match,
+    // 1 every match down a column, 2 the first match's capture groups across a row
+    REGEXEXTRACT: (args, context) => {
+        expectArgs(args, 2, 4);
+        const text = toText(evaluateNode(args[0], context));
+        const pattern = toText(evaluateNode(args[1], context));
+        const returnMode = optionalNumberArg(args[2], 0, context);
+        const regExp = compileRegExp(pattern, optionalNumberArg(args[3], 0, context) === 1, true);
+
+        const matches = Array.from(text.matchAll(regExp));
+        if (matches.length === 0) throw new FormulaError('#N/A');
+        switch (returnMode) {
+            case 0:
+                return matches[0][0];
+            case 1:
+                return matches.map(match => [match[0]]);
+            case 2: {
+                const groups = matches[0].slice(1);
+                return groups.length === 0 ? matches[0][0] : [groups.map(group => group ?? '')];
             }
-            cells.push(`${colLabel}${row + 1}`);
         }
+        throw new FormulaError('#VALUE!');
+    },
+
+    // REGEXREPLACE(text, pattern, replacement, [occurrence], [case_sensitivity]); occurrence 0
+    // replaces every match, a negative one counts from the end; $1 inserts a capture group
+    REGEXREPLACE: (args, context) => {
+        expectArgs(args, 3, 5);
+        const text = toText(evaluateNode(args[0], context));
+        const pattern = toText(evaluateNode(args[1], context));
+        const replacement = toText(evaluateNode(args[2], context));
+        const occurrence = optionalNumberArg(args[3], 0, context);
+        const regExp = compileRegExp(pattern, optionalNumberArg(args[4], 0, context) === 1, true);
+
+        if (occurrence === 0) return text.replace(regExp, replacement);
+        const matches = Array.from(text.matchAll(regExp));
+        const match = matches[occurrence > 0 ? occurrence - 1 : matches.length + occurrence];
+        if (!match) return text;
+        const start = match.index!;
+        const replaced = match[0].replace(compileRegExp(pattern, regExp.ignoreCase, false), replacement);
+        return text.substring(0, start) + replaced + text.substring(start + match[0].length);
+    },
+
+    TODAY: (args, context) => {
+        expectArgs(args, 0);
+        return localDateToSerial(new Date(), context.workbook.dateSystem, false);
+    },
+
+    NOW: (args, context) => {
+        expectArgs(args, 0);
+        return localDateToSerial(new Date(), context.workbook.dateSystem, true);
+    },
+
+    // Months and days outside their range roll over, so DATE(2024,14,0) is 2025-01-31
+    DATE: (args, context) => {
+        expectArgs(args, 3);
+        let year = Math.trunc(toNumber(evaluateNode(args[0], context)));
+        const month = Math.trunc(toNumber(evaluateNode(args[1], context)));
+        const day = Math.trunc(toNumber(evaluateNode(args[2], context)));
+        if (year < 0 || year > 9999) throw new FormulaError('#NUM!');
+        if (year < 1900) year += 1900;
+        const { dateSystem } = context.workbook;
+        return checkSerial(dateToSerial(year, month, day, dateSystem), dateSystem);
+    },
+
+    YEAR: (args, context) => {
+        expectArgs(args, 1);
+        return serialToDate(evaluateDateArg(args[0], context), context.workbook.dateSystem).year;
+    },
+
+    MONTH: (args, context) => {
+        expectArgs(args, 1);
+        return serialToDate(evaluateDateArg(args[0], context), context.workbook.dateSystem).month;
+    },
+
+    DAY: (args, context) => {
+        expectArgs(args, 1);
+        return serialToDate(evaluateDateArg(args[0], context), context.workbook.dateSystem).day;
+    },
+
+    WEEKDAY: (args, context) => {
+        expectArgs(args, 1, 2);
+        const serial = evaluateDateArg(args[0], context);
+        const returnType = optionalNumberArg(args[1], 1, context);
+        return weekdayNumber(serialWeekday(serial, context.workbook.dateSystem), returnType);
+    },
+
+    EDATE: (args, context) => {
+        expectArgs(args, 2);
+        const start = evaluateDateArg(args[0], context);
+        const months = Math.trunc(toNumber(evaluateNode(args[1], context)));
+        return addMonths(start, months, context.workbook.dateSystem, false);
+    },
+
+    EOMONTH: (args, context) => {
+        expectArgs(args, 2);
+        const start = evaluateDateArg(args[0], context);
+        const months = Math.trunc(toNumber(evaluateNode(args[1], context)));
+        return addMonths(start, months, context.workbook.dateSystem, true);
+    },
+
+    // Counts backwards (as a negative number) when the start date is after the end date
+    NETWORKDAYS: (args, context) => {
+        expectArgs(args, 2, 3);
+        const start = evaluateDateArg(args[0], context);
+        const end = evaluateDateArg(args[1], context);
+        const holidays = evaluateHolidays(args[2], context);
+        const { dateSystem } = context.workbook;
+        return start <= end ? countWorkdays(start, end, holidays, dateSystem) : -countWorkdays(end, start, holidays, dateSystem);
+    },
+
+    WORKDAY: (args, context) => {
+        expectArgs(args, 2, 3);
+        let serial = evaluateDateArg(args[0], context);
+        let remaining = Math.trunc(toNumber(evaluateNode(args[1], context)));
+        const holidays = evaluateHolidays(args[2], context);
+        const { dateSystem } = context.workbook;
+        const step = remaining < 0 ? -1 : 1;
+        const lastSerial = maxDateSerial(dateSystem);
+
+        while (remaining !== 0) {
+            serial += step;
+            if (serial < 0 || serial > lastSerial) throw new FormulaError('#NUM!');
+            if (!isWeekend(serial, dateSystem) && !holidays.has(serial)) remaining -= step;
+        }
+        return serial;
+    },
+
+    DATEDIF: (args, context) => {
+        expectArgs(args, 3);
+        const start = evaluateDateArg(args[0], context);
+        const end = evaluateDateArg(args[1], context);
+        const unit = toText(evaluateNode(args[2], context)).toUpperCase();
+        if (start > end) throw new FormulaError('#NUM!');
+        return dateDifference(start, end, unit, context.workbook.dateSystem);
+    },
+
+    PMT: (args, context) => {
+        expectArgs(args, 3, 5);
+        const rate = toNumber(evaluateNode(args[0], context));
+        const nper = toNumber(evaluateNode(args[1], context));
+        const pv = toNumber(evaluateNode(args[2], context));
+        const { value: fv, type } = annuityArgs(args, 3, context);
+        return payment(rate, nper, pv, fv, type);
+    },
+
+    FV: (args, context) => {
+        expectArgs(args, 3, 5);
+        const rate = toNumber(evaluateNode(args[0], context));
+        const nper = toNumber(evaluateNode(args[1], context));
+        const pmt = toNumber(evaluateNode(args[2], context));
+        const { value: pv, type } = annuityArgs(args, 3, context);
+        return futureValue(rate, nper, pmt, pv, type);
+    },
+
+    PV: (args, context) => {
+        expectArgs(args, 3, 5);
+        const rate = toNumber(evaluateNode(args[0], context));
+        const nper = toNumber(evaluateNode(args[1], context));
+        const pmt = toNumber(evaluateNode(args[2], context));
+        const { value: fv, type } = annuityArgs(args, 3, context);
+        return presentValue(rate, nper, pmt, fv, type);
+    },
+
+    NPER: (args, context) => {
+        expectArgs(args, 3, 5);
+        const rate = toNumber(evaluateNode(args[0], context));
+        const pmt = toNumber(evaluateNode(args[1], context));
+        const pv = toNumber(evaluateNode(args[2], context));
+        const { value: fv, type } = annuityArgs(args, 3, context);
+        return periods(rate, pmt, pv, fv, type);
+    },
+
+    RATE: (args, context) => {
+        expectArgs(args, 3, 6);
+        const nper = toNumber(evaluateNode(args[0], context));
+        const pmt = toNumber(evaluateNode(args[1], context));
+        const pv = toNumber(evaluateNode(args[2], context));
+        const { value: fv, type } = annuityArgs(args, 3, context);
+        return interestRate(nper, pmt, pv, fv, type, optionalValueArg(args[5], 0.1, context));
+    },
+
+    NPV: (args, context) => {
+        if (args.length < 2) throw new FormulaError('#VALUE!');
+        const rate = toNumber(evaluateNode(args[0], context));
+        return netPresentValue(rate, collectNumbers(args.slice(1), context));
+    },
+
+    IRR: (args, context) => {
+        expectArgs(args, 1, 2);
+        return internalRateOfReturn(evaluateNumbersArg(args[0], context), optionalValueArg(args[1], 0.1, context));
+    },
+
+    XNPV: (args, context) => {
+        expectArgs(args, 3);
+        const rate = toNumber(evaluateNode(args[0], context));
+        return scheduledNetPresentValue(rate, evaluateSchedule(args[1], context), evaluateSchedule(args[2], context));
+    },
+
+    XIRR: (args, context) => {
+        expectArgs(args, 2, 3);
+        const values = evaluateSchedule(args[0], context);
+        const dates = evaluateSchedule(args[1], context);
+        return scheduledInternalRateOfReturn(values, dates, optionalValueArg(args[2], 0.1, context));
+    },
+
+    // Only the chosen branch is evaluated
+    IF: (args, context) => {
+        expectArgs(args, 2, 3);
+        const condition = toBoolean(evaluateNode(args[0], context));
+        if (condition) return evaluateNode(args[1], context);
+        return args.length === 3 ? evaluateNode(args[2], context) : false;
+    },
+
+    // Conditions are tried in order and only the first true one's value is evaluated
+    IFS: (args, context) => {
+        if (args.length < 2 || args.length % 2 !== 0) throw new FormulaError('#VALUE!');
+        for (let i = 0; i < args.length; i += 2) {
+            if (toBoolean(evaluateNode(args[i], context))) return evaluateNode(args[i + 1], context);
+        }
+        throw new FormulaError('#N/A');
+    },
+
+    // SWITCH(expression, value1, result1, ..., [default]); values only match their own type
+    SWITCH: (args, context) => {
+        if (args.length < 3) throw new FormulaError('#VALUE!');
+        const expression = evaluateLookupValue(args[0], context);
+        let i = 1;
+        for (; i + 1 < args.length; i += 2) {
+            const candidate = evaluateLookupValue(args[i], context);
+            if (typeof candidate === typeof expression && compareValues(candidate, expression) === 0) {
+                return evaluateNode(args[i + 1], context);
+            }
+        }
+        if (i < args.length) return evaluateNode(args[i], context);
+        throw new FormulaError('#N/A');
+    },
+
+    // AND and OR stop at the first argument that decides the result
+    AND: (args, context) => {
+        if (args.length === 0) throw new FormulaError('#VALUE!');
+        let found = false;
+        for (const arg of args) {
+            const values = logicalValues(arg, context);
+            if (values.includes(false)) return false;
+            found = found || values.length > 0;
+        }
+        if (!found) throw new FormulaError('#VALUE!');
+        return true;
+    },
+
+    OR: (args, context) => {
+        if (args.length === 0) throw new FormulaError('#VALUE!');
+        let found = false;
+        for (const arg of args) {
+            const values = logicalValues(arg, context);
+            if (values.includes(true)) return true;
+            found = found || values.length > 0;
+        }
+        if (!found) throw new FormulaError('#VALUE!');
+        return false;
+    },
+
+    // TRUE when an odd number of the arguments are TRUE
+    XOR: (args, context) => {
+        const values = args.flatMap(arg => logicalValues(arg, context));
+        if (values.length === 0) throw new FormulaError('#VALUE!');
+        return values.filter(Boolean).length % 2 === 1;
+    },
+
+    NOT: (args, context) => {
+        expectArgs(args, 1);
+        return mapArray(evaluateNode(args[0], context), value => !toBoolean(value));
+    },
+
+    IFERROR: (args, context) => {
+        expectArgs(args, 2);
+        const value = evaluateCatchingErrors(args[0], context);
+        return isErrorValue(value) ? evaluateNode(args[1], context) : value;
+    },
+
+    IFNA: (args, context) => {
+        expectArgs(args, 2);
+        const value = evaluateCatchingErrors(args[0], context);
+        if (isErrorValue(value) && value.code === '#N/A') return evaluateNode(args[1], context);
+        throwIfError(value);
+        return value;
+    },
+
+    ISERROR: informationFunction(isErrorValue),
+
+    // Any error except #N/A
+    ISERR: informationFunction(value => isErrorValue(value) && value.code !== '#N/A'),
+
+    ISNA: informationFunction(value => isErrorValue(value) && value.code === '#N/A'),
+
+    // Marks a value as not available, for IFNA, ISNA and lookups to pass on
+    NA: (args) => {
+        expectArgs(args, 0);
+        throw new FormulaError('#N/A');
+    },
+
+    ISBLANK: informationFunction(value => value === null),
+
+    ISNUMBER: informationFunction(value => getValueType(value) === 'number'),
+
+    ISTEXT: informationFunction(value => typeof value === 'string'),
+
+    ISNONTEXT: informationFunction(value => typeof value !== 'string'),
+
+    ISLOGICAL: informationFunction(value => typeof value === 'boolean'),
+
+    ISFORMULA: (args, context) => {
+        expectArgs(args, 1);
+        const node = args[0];
+        if (node.type !== 'cell' && node.type !== 'range') throw new FormulaError('#VALUE!');
+        const ref = node.type === 'cell' ? node.ref : node.start;
+        return !!getSheetCells(node.sheet, context).get(formatCellReference(ref))?.formula;
+    },
+
+    // 1 number (or blank), 2 text, 4 logical, 16 error, 64 array
+    TYPE: (args, context) => {
+        expectArgs(args, 1);
+        const value = evaluateCatchingErrors(args[0], context);
+        if (Array.isArray(value)) return 64;
+        if (isErrorValue(value)) return 16;
+        if (typeof value === 'string') return 2;
+        if (typeof value === 'boolean') return 4;
+        return 1;
+    },
+
+    VLOOKUP: (args, context) => {
+        expectArgs(args, 3, 4);
+        const lookupValue = evaluateLookupValue(args[0], context);
+        const table = evaluateRangeArg(args[1], context);
+        const columnIndex = Math.trunc(toNumber(evaluateNode(args[2], context)));
+        // Approximate match on sorted data unless range_lookup is FALSE
+        const approximate = args.length < 4 || toBoolean(evaluateNode(args[3], context));
+
+        if (columnIndex < 1) throw new FormulaError('#VALUE!');
+        if (columnIndex > table[0].length) throw new FormulaError('#REF!');
+
+        const index = lookupIndex(
+            table.map(row => row[0]),
+            lookupValue,
+            approximate ? 'nextSmaller' : 'wildcard',
+            approximate ? 'binaryAscending' : 'forward'
+        );
+        if (index < 0) throw new FormulaError('#N/A');
+        return table[index][columnIndex - 1];
+    },
+
+    HLOOKUP: (args, context) => {
+        expectArgs(args, 3, 4);
+        const lookupValue = evaluateLookupValue(args[0], context);
+        const table = evaluateRangeArg(args[1], context);
+        const rowIndex = Math.trunc(toNumber(evaluateNode(args[2], context)));
+        const approximate = args.length < 4 || toBoolean(evaluateNode(args[3], context));
+
+        if (rowIndex < 1) throw new FormulaError('#VALUE!');
+        if (rowIndex > table.length) throw new FormulaError('#REF!');
+
+        const index = lookupIndex(
+            table[0],
+            lookupValue,
+            approximate ? 'nextSmaller' : 'wildcard',
+            approximate ? 'binaryAscending' : 'forward'
+        );
+        if (index < 0) throw new FormulaError('#N/A');
+        return table[rowIndex - 1][index];
+    },
+
+    MATCH: (args, context) => {
+        expectArgs(args, 2, 3);
+        const lookupValue = evaluateLookupValue(args[0], context);
+        const { values } = toVector(evaluateRangeArg(args[1], context));
+        const matchType = args.length === 3 ? Math.sign(toNumber(evaluateNode(args[2], context))) : 1;
+
+        const index =
+            matchType === 0
+                ? lookupIndex(values, lookupValue, 'wildcard', 'forward')
+                : matchType > 0
+                  ? lookupIndex(values, lookupValue, 'nextSmaller', 'binaryAscending')
+                  : lookupIndex(values, lookupValue, 'nextLarger', 'binaryDescending');
+        if (index < 0) throw new FormulaError('#N/A');
+        return index + 1;
+    },
+
+    INDEX: (args, context) => {
+        expectArgs(args, 2, 3);
+        const array = evaluateRangeArg(args[0], context);
+        let rowNum = Math.trunc(toNumber(evaluateNode(args[1], context)));
+        let colNum = args.length === 3 ? Math.trunc(toNumber(evaluateNode(args[2], context))) : undefined;
+
+        // A single row takes its one index as the column
+        if (colNum === undefined) {
+            if (array.length === 1) {
+                colNum = rowNum;
+                rowNum = 1;
+            } else {
+                colNum = array[0].length === 1 ? 1 : 0;
+            }
+        }
+
+        if (rowNum < 0 || colNum < 0 || rowNum > array.length || colNum > array[0].length) {
+            throw new FormulaError('#REF!');
+        }
+        // 0 selects the whole row or column
+        const rows = rowNum === 0 ? array : [array[rowNum - 1]];
+        const result = colNum === 0 ? rows : rows.map(row => [row[colNum! - 1]]);
+        return result.length === 1 && result[0].length === 1 ? result[0][0] : result;
+    },
+
+    XLOOKUP: (args, context) => {
+        expectArgs(args, 3, 6);
+        const lookupValue = evaluateLookupValue(args[0], context);
+        const { values, horizontal } = toVector(evaluateRangeArg(args[1], context));
+        const returnArray = evaluateRangeArg(args[2], context);
+
+        const matchModeArg = optionalNumberArg(args[4], 0, context);
+        const searchModeArg = optionalNumberArg(args[5], 1, context);
+        const matchMode = XLOOKUP_MATCH_MODES[matchModeArg];
+        const searchMode = XLOOKUP_SEARCH_MODES[searchModeArg];
+        if (!matchMode || !searchMode) throw new FormulaError('#VALUE!');
+
+        const returnLength = horizontal ? returnArray[0].length : returnArray.length;
+        if (returnLength !== values.length) throw new FormulaError('#VALUE!');
+
+        const index = lookupIndex(values, lookupValue, matchMode, searchMode);
+        if (index < 0) {
+            if (args.length > 3 && args[3].type !== 'empty') return evaluateNode(args[3], context);
+            throw new FormulaError('#N/A');
+        }
+
+        // The matching column (or row) of the return array
+        const result = horizontal ? returnArray.map(row => [row[index]]) : [returnArray[index]];
+        return result.length === 1 && result[0].length === 1 ? result[0][0] : result;
+    },
+
+    FILTER: (args, context) => {
+        expectArgs(args, 2, 3);
+        const array = evaluateArrayArg(args[0], context);
+        const include = evaluateArrayArg(args[1], context);
+
+        // A column of conditions keeps rows, a row of conditions keeps columns
+        let result: CellValue[][];
+        if (include[0].length === 1 && include.length === array.length) {
+            result = array.filter((_, row) => toBoolean(include[row][0]));
+        } else if (include.length === 1 && include[0].length === array[0].length) {
+            const keep = include[0].map(toBoolean);
+            result = keep.some(Boolean) ? array.map(row => row.filter((_, col) => keep[col])) : [];
+        } else {
+            throw new FormulaError('#VALUE!');
+        }
+
+        if (result.length === 0) {
+            if (args.length === 3 && args[2].type !== 'empty') return evaluateNode(args[2], context);
+            throw new FormulaError('#CALC!');
+        }
+        return result;
+    },
+
+    SORT: (args, context) => {
+        expectArgs(args, 1, 4);
+        const array = evaluateArrayArg(args[0], context);
+        const sortIndex = optionalNumberArg(args[1], 1, context);
+        const sortOrder = optionalNumberArg(args[2], 1, context);
+        const byColumn = args.length > 3 && args[3].type !== 'empty' && toBoolean(evaluateNode(args[3], context));
+
+        const lines = byColumn ? transpose(array) : array;
+        if (sortOrder !== 1 && sortOrder !== -1) throw new FormulaError('#VALUE!');
+        if (sortIndex < 1 || sortIndex > lines[0].length) throw new FormulaError('#VALUE!');
+
+        // Array.prototype.sort is stable, so ties keep their original order
+        const sorted = [...lines].sort((a, b) => compareForSort(a[sortIndex - 1], b[sortIndex - 1], sortOrder < 0));
+        return byColumn ? transpose(sorted) : sorted;
+    },
+
+    UNIQUE: (args, context) => {
+        expectArgs(args, 1, 3);
+        const array = evaluateArrayArg(args[0], context);
+        const byColumn = args.length > 1 && args[1].type !== 'empty' && toBoolean(evaluateNode(args[1], context));
+        const exactlyOnce = args.length > 2 && args[2].type !== 'empty' && toBoolean(evaluateNode(args[2], context));
+
+        const lines = byColumn ? transpose(array) : array;
+        const counts = new Map<string, number>();
+        lines.forEach(line => {
+            const key = uniqueKey(line);
+            counts.set(key, (counts.get(key) ?? 0) + 1);
+        });
+
+        const seen = new Set<string>();
+        const result = lines.filter(line => {
+            const key = uniqueKey(line);
+            if (exactlyOnce) return counts.get(key) === 1;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+
+        if (result.length === 0) throw new FormulaError('#CALC!');
+        return byColumn ? transpose(result) : result;
+    },
+
+    // OFFSET(reference, rows, cols, [height], [width]): the area that many rows and
+    // columns away, by default the size of reference
+    OFFSET: (args, context) => {
+        expectArgs(args, 3, 5);
+        const node = args[0];
+        if (node.type !== 'cell' && node.type !== 'range') throw new FormulaError('#VALUE!');
+        const start = node.type === 'cell' ? node.ref : node.start;
+        const end = node.type === 'cell' ? node.ref : node.end;
+        const rows = Math.trunc(toNumber(evaluateNode(args[1], context)));
+        const cols = Math.trunc(toNumber(evaluateNode(args[2], context)));
+        const height = optionalNumberArg(args[3], end.row - start.row + 1, context);
+        const width = optionalNumberArg(args[4], end.col - start.col + 1, context);
+        if (height < 1 || width < 1) throw new FormulaError('#REF!');
+
+        const topLeft = { row: start.row + rows, col: start.col + cols };
+        const bottomRight = { row: topLeft.row + height - 1, col: topLeft.col + width - 1 };
+        return evaluateNode(referenceNode(topLeft, bottomRight, node.sheet), context);
+    },
+
+    // INDIRECT(ref_text, [a1]): the cells a reference written as text refers to
+    INDIRECT: (args, context) => {
+        expectArgs(args, 1, 2);
+        const text = toText(evaluateNode(args[0], context)).trim();
+        const a1 = args.length < 2 || args[1].type === 'empty' || toBoolean(evaluateNode(args[1], context));
+        return evaluateNode(parseIndirectReference(text, a1, context), context);
+    },
+
+    SEQUENCE: (args, context) => {
+        expectArgs(args, 1, 4);
+        const rows = optionalNumberArg(args[0], 1, context);
+        const cols = optionalNumberArg(args[1], 1, context);
+        const start = args.length > 2 && args[2].type !== 'empty' ? toNumber(evaluateNode(args[2], context)) : 1;
+        const step = args.length > 3 && args[3].type !== 'empty' ? toNumber(evaluateNode(args[3], context)) : 1;
+
+        if (rows < 1 || cols < 1) throw new FormulaError('#CALC!');
+        checkArraySize(rows, cols);
+
+        return Array.from({ length: rows }, (_, row) =>
+            Array.from({ length: cols }, (_, col) => checkNumber(start + (row * cols + col) * step))
+        );
+    },
+
+    // LET(name1, value1, [name2, value2, ...], calculation); each value sees the names before it
+    LET: (args, context) => {
+        if (args.length < 3 || args.length % 2 === 0) throw new FormulaError('#VALUE!');
+        const locals = new Map(context.locals);
+        const scope = { ...context, locals };
+        for (let i = 0; i < args.length - 1; i += 2) {
+            const name = args[i];
+            if (name.type !== 'name' || name.sheet !== undefined) throw new FormulaError('#VALUE!');
+            locals.set(name.name, evaluateLocal(args[i + 1], scope));
+        }
+        return evaluateNode(args[args.length - 1], scope);
+    },
+
+    // A LAMBDA that is never called has no value to show
+    LAMBDA: () => {
+        throw new FormulaError('#CALC!');
+    },
+
+    // MAP(array1, [array2, ...], lambda): the LAMBDA applied to the elements at each position
+    MAP: (args, context) => {
+        if (args.length < 2) throw new FormulaError('#VALUE!');
+        const arrays = args.slice(0, -1).map(arg => evaluateArrayArg(arg, context));
+        const lambda = lambdaArg(args[args.length - 1], arrays.length, context);
+        const [first] = arrays;
+        if (arrays.some(array => array.length !== first.length || array[0].length !== first[0].length)) throw new FormulaError('#VALUE!');
+        return first.map((row, r) => row.map((_, c) => applyLambdaToElement(lambda, arrays.map(array => array[r][c]), context)));
+    },
+
+    // REDUCE(initial_value, array, lambda(accumulator, value)), element by element across rows
+    REDUCE: (args, context) => {
+        expectArgs(args, 3);
+        let accumulator = evaluateNode(args[0], context);
+        const array = evaluateArrayArg(args[1], context);
+        const lambda = lambdaArg(args[2], 2, context);
+        array.forEach(row =>
+            row.forEach(value => {
+                accumulator = toFormulaValue(applyLambda(lambda, [accumulator, value], context));
+            })
+        );
+        return accumulator;
+    },
+
+    // BYROW(array, lambda(row)): one value per row, as a column
+    BYROW: (args, context) => {
+        expectArgs(args, 2);
+        const array = evaluateArrayArg(args[0], context);
+        const lambda = lambdaArg(args[1], 1, context);
+        return array.map(row => [applyLambdaToElement(lambda, [[row]], context)]);
+    },
+
+    // BYCOL(array, lambda(column)): one value per column, as a row
+    BYCOL: (args, context) => {
+        expectArgs(args, 2);
+        const array = evaluateArrayArg(args[0], context);
+        const lambda = lambdaArg(args[1], 1, context);
+        return [transpose(array).map(column => applyLambdaToElement(lambda, [column.map(value => [value])], context))];
+    },
+
+    // TOWEI(amount, [unit]): an amount in the smallest unit, e.g. 1.5 ether in wei
+    TOWEI: (args, context) => {
+        expectArgs(args, 1, 2);
+        const amount = toDecimalValue(evaluateNode(args[0], context));
+        const wei = scaleDecimal(amount, evaluateUnitArg(args[1], context));
+        // Fractions of a wei do not exist
+        if (wei.scale > 0) throw new FormulaError('#NUM!');
+        return simplifyDecimal(wei);
+    },
+
+    FROMWEI: (args, context) => {
+        expectArgs(args, 1, 2);
+        const wei = toDecimalValue(evaluateNode(args[0], context));
+        if (wei.scale > 0) throw new FormulaError('#NUM!');
+        return simplifyDecimal(scaleDecimal(wei, -evaluateUnitArg(args[1], context)));
+    },
+
+    // Up to 256 bits, beyond what a double holds exactly. Exactly ten digits are Excel's 40-bit two's
+    // complement, so "FFFFFFFFFF" is -1; any other length, or a 0x prefix, reads as unsigned
+    HEX2DEC: (args, context) => {
+        expectArgs(args, 1);
+        const value = parseHex(toText(evaluateNode(args[0], context)));
+        if (value === null) throw new FormulaError('#NUM!');
+        return simplifyDecimal({ type: 'decimal', digits: value, scale: 0 });
+    },
+
+    // DEC2HEX(number, [places]); places pad with zeros, except for negative numbers
+    DEC2HEX: (args, context) => {
+        expectArgs(args, 1, 2);
+        const number = toDecimalValue(evaluateNode(args[0], context));
+        const value = number.digits / 10n ** BigInt(number.scale);
+        const hex = formatHex(value);
+        if (hex === null) throw new FormulaError('#NUM!');
+        if (args.length < 2 || value < 0n) return hex;
+        const places = optionalNumberArg(args[1], hex.length, context);
+        if (places < hex.length || places > 64) throw new FormulaError('#NUM!');
+        return hex.padStart(places, '0');
+    },
+
+    // Hashes text as UTF-8, or the bytes of 0x-prefixed hex
+    KECCAK256: (args, context) => {
+        expectArgs(args, 1);
+        return `0x${bytesToHex(keccak256(toHashInput(toText(evaluateNode(args[0], context)))))}`;
+    },
+
+    SHA256: (args, context) => {
+        expectArgs(args, 1);
+        return `0x${bytesToHex(sha256(toHashInput(toText(evaluateNode(args[0], context)))))}`;
+    },
+
+    CHECKSUM_ADDRESS: (args, context) => {
+        expectArgs(args, 1);
+        const address = checksumAddress(toText(evaluateNode(args[0], context)));
+        if (address === null) throw new FormulaError('#VALUE!');
+        return address;
+    },
+
+    // All lowercase and all uppercase addresses carry no checksum to check
+    ISADDRESS: informationFunction(value => typeof value === 'string' && checksumAddress(value) !== null),
+
+    ISPRINCIPAL: informationFunction(value => typeof value === 'string' && isValidPrincipal(value)),
+};
+
+// Functions whose result is a date serial, and the format it is shown with
+const DATE_RESULT_FORMATS: Record<string, string> = {
+    DATE: DATE_FORMAT,
+    TODAY: DATE_FORMAT,
+    EDATE: DATE_FORMAT,
+    EOMONTH: DATE_FORMAT,
+    WORKDAY: DATE_FORMAT,
+    NOW: DATE_TIME_FORMAT,
+};
+
+/**
+ * Number format a formula's result takes on automatically, as in Excel: that
+ * of a date function it returns or of the cell it reads. Adding days or a
+ * time to a date keeps it a date; the difference between two dates is a
+ * plain number of days.
+ */
+function inferNumberFormat(node: FormulaNode, context: EvaluationContext): string | undefined {
+    const cellFormat = (ref: CellReference, sheet: string | undefined) => {
+        const sheetName = sheet === undefined ? undefined : findSheetName(context.workbook.sheets, sheet);
+        const cells = sheet === undefined ? context.cells : sheetName !== undefined ? context.workbook.sheets.get(sheetName) : undefined;
+        const cellData = cells?.get(formatCellReference(ref));
+        if (!cellData) return undefined;
+        if (cellData.formula || cellData.spilledFrom) return cellData.numberFormat;
+        // A date typed into the cell
+        const serial = parseDateText(cellData.value, context.workbook.dateSystem);
+        return serial === null ? undefined : formatForSerial(serial);
+    };
+
+    switch (node.type) {
+        case 'cell':
+        case 'spill':
+            return cellFormat(node.ref, node.sheet);
+        case 'range':
+            return cellFormat(node.start, node.sheet);
+        case 'unary':
+            return node.operator === '+' ? inferNumberFormat(node.operand, context) : undefined;
+        case 'binary': {
+            if (node.operator !== '+' && node.operator !== '-') return undefined;
+            const left = inferNumberFormat(node.left, context);
+            const right = inferNumberFormat(node.right, context);
+            if (node.operator === '-' && isDateFormat(left) && isDateFormat(right)) return undefined;
+            if ([left, right].includes(DATE_FORMAT) && [left, right].includes(TIME_FORMAT)) return DATE_TIME_FORMAT;
+            return left ?? right;
+        }
+        case 'call':
+            if (DATE_RESULT_FORMATS[node.name]) return DATE_RESULT_FORMATS[node.name];
+            if (node.name === 'IF') {
+                return node.args.slice(1).reduce<string | undefined>((format, arg) => format ?? inferNumberFormat(arg, context), undefined);
+            }
+            if (node.name === 'MIN' || node.name === 'MAX') return node.args[0] && inferNumberFormat(node.args[0], context);
+            return undefined;
+        default:
+            return undefined;
     }
+}
 
-    return cells;
+// Other names for functions, such as STDEV for STDEV.S in older workbooks
+getBuiltInFunctions().forEach(info => info.aliases?.forEach(alias => (FUNCTIONS[alias] = FUNCTIONS[info.name])));
+
+/**
+ * Whether a name belongs to a built-in or registered function and so cannot be defined.
+ */
+export function isFunctionName(name: string): boolean {
+    return FUNCTIONS[name.toUpperCase()] !== undefined || getCustomFunction(name) !== undefined;
 }
 
-function getCellValue(cellId: string, cells: Map<string, CellData>): number {
-    const cellData = cells.get(cellId);
-    if (!cellData) return 0;
+// What a formula's final result stores: unrepresentable numbers become #NUM! and empty reads as 0
+function finalizeValue(value: CellValue): CellValue {
+    if (typeof value === 'number' && !isFinite(value)) return errorValue('#NUM!');
+    return value ?? 0;
+}
 
-    const value = cellData.displayValue || cellData.value;
-    const num = parseFloat(value);
-    return isNaN(num) ? 0 : num;
+const DEFAULT_WORKBOOK: WorkbookContext = { sheets: new Map(), dateSystem: '1900', names: [] };
+
+interface FormulaResult {
+    value: FormulaValue;
+    numberFormat?: string;
+    // Some exact decimal had to be converted to a double, losing digits
+    lossy?: boolean;
 }
 
-function getCellText(cellId: string, cells: Map<string, CellData>): string {
-    const cellData = cells.get(cellId);
-    if (!cellData) return '';
-    return cellData.displayValue || cellData.value;
+function evaluateFormulaResult(
+    formula: string,
+    currentCellId: string,
+    cells: Map<string, CellData>,
+    workbook: WorkbookContext,
+    sheetName?: string
+): FormulaResult {
+    if (!formula.startsWith('=')) return { value: parseCellValue(formula, workbook.dateSystem, workbook.exactArithmetic) };
+
+    const lossyConversions = getLossyConversionCount();
+    try {
+        const node = expandNames(parseFormula(formula), workbook.names, sheetName);
+        const context = { cells, currentCellId, workbook, sheetName };
+        const value = evaluateNode(node, context);
+        const numberFormat = inferNumberFormat(node, context);
+        const lossy = getLossyConversionCount() > lossyConversions;
+        if (!Array.isArray(value)) return { value: finalizeValue(value), numberFormat, lossy };
+        if (value.length === 1 && value[0].length === 1) return { value: finalizeValue(value[0][0]), numberFormat, lossy };
+        return { value: value.map(row => row.map(finalizeValue)), numberFormat, lossy };
+    } catch (error) {
+        if (error instanceof FormulaError) return { value: errorValue(error.code) };
+        return { value: errorValue('#ERROR!') };
+    }
 }
 
+/**
+ * Evaluates a formula to its typed result. Errors, including syntax errors,
+ * come back as error values; an empty result reads as 0 like in Excel.
+ * Array results (anything larger than 1x1) are returned whole for spilling.
+ * Dates come back as serial numbers.
+ */
+export function evaluateFormulaValue(
+    formula: string,
+    currentCellId: string,
+    cells: Map<string, CellData>,
+    workbook: WorkbookContext = DEFAULT_WORKBOOK,
+    sheetName?: string
+): FormulaValue {
+    return evaluateFormulaResult(formula, currentCellId, cells, workbook, sheetName).value;
+}
+
+/**
+ * Evaluates a formula to the text shown in its cell, through the number format
+ * it infers; an array result shows its top-left element.
+ */
 export function evaluateFormula(
     formula: string,
     currentCellId: string,
-    cells: Map<string, CellData>
+    cells: Map<string, CellData>,
+    workbook: WorkbookContext = DEFAULT_WORKBOOK,
+    sheetName?: string
 ): string {
     if (!formula.startsWith('=')) return formula;
+    const { value, numberFormat } = evaluateFormulaResult(formula, currentCellId, cells, workbook, sheetName);
+    return formatCellValue(Array.isArray(value) ? value[0][0] : value, numberFormat, workbook.dateSystem);
+}
 
-    const expression = formula.substring(1).trim().toUpperCase();
+export interface CalculationOptions {
+    // Resolve circular references by repeated evaluation instead of flagging them
+    iterative: boolean;
+    maxIterations: number;
+    maxChange: number;
+    // Epoch of date serial numbers; 1904 for workbooks from older Mac Excel
+    dateSystem: DateSystem;
+    // Keep every digit of numbers such as token amounts instead of rounding to doubles
+    exactArithmetic: boolean;
+}
 
-    try {
-        // SUM function
-        if (expression.startsWith('SUM(') && expression.endsWith(')')) {
-            const range = expression.slice(4, -1);
-            const cellIds = parseRange(range);
-            const sum = cellIds.reduce((acc, cellId) => acc + getCellValue(cellId, cells), 0);
-            return sum.toString();
-        }
-
-        // AVERAGE function
-        if (expression.startsWith('AVERAGE(') && expression.endsWith(')')) {
-            const range = expression.slice(8, -1);
-            const cellIds = parseRange(range);
-            if (cellIds.length === 0) return '0';
-            const sum = cellIds.reduce((acc, cellId) => acc + getCellValue(cellId, cells), 0);
-            return (sum / cellIds.length).toString();
-        }
-
-        // MIN function
-        if (expression.startsWith('MIN(') && expression.endsWith(')')) {
-            const range = expression.slice(4, -1);
-            const cellIds = parseRange(range);
-            if (cellIds.length === 0) return '0';
-            const values = cellIds.map(cellId => getCellValue(cellId, cells));
-            return Math.min(...values).toString();
-        }
-
-        // MAX function
-        if (expression.startsWith('MAX(') && expression.endsWith(')')) {
-            const range = expression.slice(4, -1);
-            const cellIds = parseRange(range);
-            if (cellIds.length === 0) return '0';
-            const values = cellIds.map(cellId => getCellValue(cellId, cells));
-            return Math.max(...values).toString();
-        }
-
-        // COUNT function
-        if (expression.startsWith('COUNT(') && expression.endsWith(')')) {
-            const range = expression.slice(6, -1);
-            const cellIds = parseRange(range);
-            return cellIds.filter(cellId => {
-                const val = getCellText(cellId, cells);
-                return val !== '' && !isNaN(parseFloat(val));
-            }).length.toString();
-        }
-
-        // COUNTA function
-        if (expression.startsWith('COUNTA(') && expression.endsWith(')')) {
-            const range = expression.slice(7, -1);
-            const cellIds = parseRange(range);
-            return cellIds.filter(cellId => getCellText(cellId, cells) !== '').length.toString();
-        }
-
-        // ROUND function
-        if (expression.startsWith('ROUND(') && expression.endsWith(')')) {
-            const args = expression.slice(6, -1).split(',');
-            if (args.length !== 2) return '#VALUE!';
-            const value = parseFloat(args[0]);
-            const decimals = parseInt(args[1]);
-            if (isNaN(value) || isNaN(decimals)) return '#VALUE!';
-            return value.toFixed(decimals);
-        }
-
-        // CONCAT function
-        if (expression.startsWith('CONCAT(') && expression.endsWith(')')) {
-            const args = expression.slice(7, -1).split(',');
-            return args.map(arg => {
-                const cellRef = parseCellReference(arg.trim());
-                if (cellRef) {
-                    return getCellText(arg.trim(), cells);
-                }
-                return arg.trim().replace(/^["']|["']$/g, '');
-            }).join('');
-        }
-
-        // LEN function
-        if (expression.startsWith('LEN(') && expression.endsWith(')')) {
-            const arg = expression.slice(4, -1).trim();
-            const cellRef = parseCellReference(arg);
-            const text = cellRef ? getCellText(arg, cells) : arg.replace(/^["']|["']$/g, '');
-            return text.length.toString();
-        }
-
-        // UPPER function
-        if (expression.startsWith('UPPER(') && expression.endsWith(')')) {
-            const arg = expression.slice(6, -1).trim();
-            const cellRef = parseCellReference(arg);
-            const text = cellRef ? getCellText(arg, cells) : arg.replace(/^["']|["']$/g, '');
-            return text.toUpperCase();
-        }
-
-        // LOWER function
-        if (expression.startsWith('LOWER(') && expression.endsWith(')')) {
-            const arg = expression.slice(6, -1).trim();
-            const cellRef = parseCellReference(arg);
-            const text = cellRef ? getCellText(arg, cells) : arg.replace(/^["']|["']$/g, '');
-            return text.toLowerCase();
-        }
-
-        // TODAY function
-        if (expression === 'TODAY()') {
-            return new Date().toLocaleDateString();
-        }
-
-        // NOW function
-        if (expression === 'NOW()') {
-            return new Date().toLocaleString();
-        }
-
-        // IF function
-        const ifMatch = expression.match(/^IF\((.+),(.+),(.+)\)$/);
-        if (ifMatch) {
-            const condition = ifMatch[1].trim();
-            const trueValue = ifMatch[2].trim();
-            const falseValue = ifMatch[3].trim();
-
-            const compMatch = condition.match(/([A-Z0-9]+)\s*([><=!]+)\s*(.+)/);
-            if (compMatch) {
-                const cellRef = compMatch[1];
-                const operator = compMatch[2];
-                const compareValue = parseFloat(compMatch[3]);
-
-                const cellValue = getCellValue(cellRef, cells);
-
-                let result = false;
-                switch (operator) {
-                    case '>':
-                        result = cellValue > compareValue;
-                        break;
-                    case '<':
-                        result = cellValue < compareValue;
-                        break;
-                    case '>=':
-                        result = cellValue >= compareValue;
-                        break;
-                    case '<=':
-                        result = cellValue <= compareValue;
-                        break;
-                    case '==':
-                    case '=':
-                        result = cellValue === compareValue;
-                        break;
-                    case '!=':
-                        result = cellValue !== compareValue;
-                        break;
-                }
-
-                return result ? trueValue.replace(/^["']|["']$/g, '') : falseValue.replace(/^["']|["']$/g, '');
-            }
+export const DEFAULT_CALCULATION_OPTIONS: CalculationOptions = {
+    iterative: false,
+    maxIterations: 100,
+    maxChange: 0.001,
+    dateSystem: '1900',
+    exactArithmetic: false,
+};
+
+export const CIRCULAR_REFERENCE_ERROR = '#CIRCULAR!';
+
+export interface RecalculationResult<T> {
+    sheets: Map<string, Map<string, T>>;
+    // Sheet-qualified ids, e.g. "Sheet1!A1"
+    evaluatedCellIds: string[];
+    circularCellIds: string[];
+    // Evaluated formulas that converted an exact decimal to a double, losing digits
+    lossyCellIds: string[];
+    // Left to calculate by a cancelled calculation; empty when it finished
+    remainingCellIds: string[];
+}
+
+export interface RecalculationProgress {
+    evaluatedCells: number;
+    // Formulas known to need evaluating so far; spills can add more
+    totalCells: number;
+}
+
+// Spilling can uncover or cover cells that other formulas read, which takes
+// another pass; a spill that feeds back on itself gives up after this many
+const MAX_SPILL_PASSES = 16;
+
+function sameValue(left: FormulaValue | undefined, right: FormulaValue | undefined): boolean {
+    if (isErrorValue(left) && isErrorValue(right)) return left.code === right.code;
+    if (isDecimalValue(left) && isDecimalValue(right)) return compareDecimals(left, right) === 0;
+    if (Array.isArray(left) && Array.isArray(right)) {
+        return (
+            left.length === right.length &&
+            left.every((row, r) => row.length === right[r].length && row.every((value, c) => sameValue(value, right[r][c])))
+        );
+    }
+    return left === right;
+}
+
+function forEachCellInRange(range: RangeReference, visit: (cellId: string, row: number, col: number) => void) {
+    for (let row = range.start.row; row <= range.end.row; row++) {
+        for (let col = range.start.col; col <= range.end.col; col++) {
+            visit(formatCellReference({ row, col }), row - range.start.row, col - range.start.col);
         }
+    }
+}
 
-        // VLOOKUP function
-        const vlookupMatch = expression.match(/^VLOOKUP\((.+),([A-Z0-9:]+),(\d+),(.+)\)$/);
-        if (vlookupMatch) {
-            const lookupValue = vlookupMatch[1].trim().replace(/^["']|["']$/g, '');
-            const tableRange = vlookupMatch[2];
-            const columnIndex = parseInt(vlookupMatch[3]);
+/**
+ * Brings the graph up to date for the changed cells (sheet-qualified ids), then
+ * re-evaluates only the formulas downstream of them, and formulas calling a
+ * volatile function, in dependency order across sheets. A sheet's map in the
+ * result is the input map itself when none of its display values changed, so
+ * callers can skip state updates for it.
+ *
+ * Array results spill into the cells below and to the right of their formula,
+ * which are written as cells marked `spilledFrom`. A spill that would overwrite
+ * anything else leaves the formula showing #SPILL! instead.
+ *
+ * Defined names are resolved on the sheet of each formula. Callers start over
+ * with a fresh graph when the names change, as formulas may read them anywhere.
+ */
+export function recalculateWorkbook<T extends CellData>(
+    sheets: Map<string, Map<string, T>>,
+    graph: DependencyGraph,
+    changedCellIds: string[],
+    options: CalculationOptions = DEFAULT_CALCULATION_OPTIONS,
+    names: NameDefinition[] = []
+): RecalculationResult<T> {
+    const steps = recalculateWorkbookSteps(sheets, graph, changedCellIds, options, names);
+    let step = steps.next();
+    while (!step.done) step = steps.next();
+    return step.value;
+}
 
-            const cellIds = parseRange(tableRange);
-            if (cellIds.length === 0) return '#N/A';
+/**
+ * recalculateWorkbook one step at a time, for callers that keep a UI or worker
+ * responsive: it yields its progress after each formula, or each reference
+ * cycle, it evaluates. Passing true to next() cancels the calculation; the
+ * result then holds what was calculated so far, and in remainingCellIds the
+ * cells to pass as changed to a later call to finish the job.
+ */
+export function* recalculateWorkbookSteps<T extends CellData>(
+    sheets: Map<string, Map<string, T>>,
+    graph: DependencyGraph,
+    changedCellIds: string[],
+    options: CalculationOptions = DEFAULT_CALCULATION_OPTIONS,
+    names: NameDefinition[] = []
+): Generator<RecalculationProgress, RecalculationResult<T>, boolean | undefined> {
+    const resolveSheetName = (name: string) => findSheetName(sheets, name) ?? name;
+    const getCellData = (qualifiedCellId: string) => {
+        const { sheetName, cellId } = splitQualifiedCellId(qualifiedCellId);
+        return result.get(sheetName)?.get(cellId);
+    };
 
-            const startRef = parseCellReference(tableRange.split(':')[0]);
-            const endRef = parseCellReference(tableRange.split(':')[1]);
-            if (!startRef || !endRef) return '#N/A';
+    const result = new Map(sheets);
+    const copiedSheets = new Set<string>();
+    const workbook: WorkbookContext = { sheets: result, dateSystem: options.dateSystem, names, exactArithmetic: options.exactArithmetic };
+    const evaluatedCellIds: string[] = [];
+    const circularCellIds: string[] = [];
+    const lossyCellIds = new Set<string>();
+    // Cells whose spilled content changed during the current pass
+    let spillChanges: string[] = [];
 
-            const numCols = endRef.col - startRef.col + 1;
-            const numRows = Math.floor(cellIds.length / numCols);
+    changedCellIds.forEach(cellId => updateCellDependencies(graph, cellId, getCellData(cellId)?.formula, resolveSheetName, names));
 
-            for (let row = 0; row < numRows; row++) {
-                const firstCellId = cellIds[row * numCols];
-                const cellValue = getCellText(firstCellId, cells);
+    const writableSheet = (sheetName: string) => {
+        if (!copiedSheets.has(sheetName)) {
+            result.set(sheetName, new Map(result.get(sheetName)));
+            copiedSheets.add(sheetName);
+        }
+        return result.get(sheetName)!;
+    };
+
+    const setComputedValue = (qualifiedCellId: string, computedValue: FormulaValue, numberFormat?: string) => {
+        const { sheetName, cellId } = splitQualifiedCellId(qualifiedCellId);
+        const cellData = result.get(sheetName)?.get(cellId);
+        const displayValue = formatCellValue(Array.isArray(computedValue) ? computedValue[0][0] : computedValue, numberFormat, options.dateSystem);
+        if (!cellData || (cellData.displayValue === displayValue && sameValue(cellData.computedValue, computedValue))) return;
+        writableSheet(sheetName).set(cellId, { ...cellData, displayValue, computedValue, numberFormat });
+    };
 
-                if (cellValue === lookupValue) {
-                    const targetCellId = cellIds[row * numCols + columnIndex - 1];
-                    return getCellText(targetCellId, cells);
-                }
+    // Writes one element of a spilled array, or clears it when value is undefined
+    const setSpilledValue = (sheetName: string, cellId: string, anchorCellId: string, value: CellValue | undefined, numberFormat?: string) => {
+        const cellData = result.get(sheetName)?.get(cellId);
+        if (value === undefined) {
+            if (!cellData || cellData.spilledFrom !== anchorCellId) return;
+            const cleared = { ...cellData, spilledFrom: undefined, displayValue: undefined, computedValue: undefined, numberFormat: undefined };
+            // Anything else still set, such as formatting, keeps the cell around
+            const keepsData = Object.entries(cleared).some(([key, field]) => key !== 'value' && field !== undefined);
+            if (keepsData) {
+                writableSheet(sheetName).set(cellId, cleared);
+            } else {
+                writableSheet(sheetName).delete(cellId);
             }
+        } else {
+            const displayValue = formatCellValue(value, numberFormat, options.dateSystem);
+            if (cellData?.spilledFrom === anchorCellId && cellData.displayValue === displayValue && sameValue(cellData.computedValue, value)) {
+                return;
+            }
+            const spilled = { ...(cellData ?? { value: '' }), spilledFrom: anchorCellId, displayValue, computedValue: value, numberFormat };
+            writableSheet(sheetName).set(cellId, spilled as T);
+        }
+        spillChanges.push(qualifyCellId(sheetName, cellId));
+    };
+
+    const isOccupied = (cellData: T | undefined, anchorCellId: string) =>
+        !!cellData && (!!cellData.formula || cellData.value !== '' || (!!cellData.spilledFrom && cellData.spilledFrom !== anchorCellId));
+
+    /**
+     * Spills an array result of the formula in the given cell, clearing whatever
+     * its previous result spilled. Returns the value the formula cell should hold.
+     */
+    const spillResult = (qualifiedCellId: string, value: FormulaValue, numberFormat?: string): FormulaValue => {
+        const { sheetName, cellId } = splitQualifiedCellId(qualifiedCellId);
+        const anchor = parseCellReference(cellId);
+        const sheet = result.get(sheetName);
+        const previousArea = graph.spillRanges.get(qualifiedCellId);
+
+        const area: RangeReference | null =
+            anchor && sheet && Array.isArray(value)
+                ? {
+                      sheetName,
+                      start: { row: anchor.row, col: anchor.col },
+                      end: { row: anchor.row + value.length - 1, col: anchor.col + value[0].length - 1 },
+                  }
+                : null;
+        // The intended area is kept even when blocked so that clearing it re-evaluates the formula
+        setSpillRange(graph, qualifiedCellId, area);
 
-            return '#N/A';
+        let blocked = !!area && (area.end.row >= MAX_ROWS || area.end.col >= MAX_COLS);
+        if (area && !blocked) {
+            forEachCellInRange(area, spillCellId => {
+                if (!blocked && spillCellId !== cellId && isOccupied(sheet!.get(spillCellId), cellId)) blocked = true;
+            });
         }
+        const spilled = area && !blocked ? (value as CellValue[][]) : null;
 
-        // Simple cell reference
-        const cellRef = parseCellReference(expression);
-        if (cellRef) {
-            return getCellValue(expression, cells).toString();
+        if (previousArea) {
+            forEachCellInRange(previousArea, (spillCellId, row, col) => {
+                const stillSpilled = spilled && row < spilled.length && col < spilled[0].length;
+                if (!stillSpilled) setSpilledValue(sheetName, spillCellId, cellId, undefined);
+            });
         }
+        if (spilled) {
+            forEachCellInRange(area!, (spillCellId, row, col) => {
+                if (spillCellId !== cellId) setSpilledValue(sheetName, spillCellId, cellId, spilled[row][col], numberFormat);
+            });
+        }
+
+        return area && blocked ? errorValue('#SPILL!') : value;
+    };
+
+    const evaluateCell = (qualifiedCellId: string): FormulaValue | undefined => {
+        const { sheetName, cellId } = splitQualifiedCellId(qualifiedCellId);
+        const formula = result.get(sheetName)?.get(cellId)?.formula;
+        if (!formula) return undefined;
+        const { value, numberFormat, lossy } = evaluateFormulaResult(formula, cellId, result.get(sheetName)!, workbook, sheetName);
+        if (lossy) lossyCellIds.add(qualifiedCellId);
+        const computedValue = spillResult(qualifiedCellId, value, numberFormat);
+        setComputedValue(qualifiedCellId, computedValue, numberFormat);
+        return computedValue;
+    };
 
-        // Try to evaluate as arithmetic expression
-        const sanitized = expression.replace(/[^0-9+\-*/().]/g, '');
-        if (sanitized) {
-            const result = eval(sanitized);
-            return result.toString();
+    const hasFormula = (qualifiedCellId: string) => !!getCellData(qualifiedCellId)?.formula;
+
+    const evaluateStep = (step: RecalculationStep) => {
+        evaluatedCellIds.push(...step.cellIds);
+
+        if (!step.circular) {
+            step.cellIds.forEach(evaluateCell);
+            return;
         }
 
-        return '#NAME?';
-    } catch (error) {
-        return '#ERROR!';
+        if (!options.iterative) {
+            step.cellIds.forEach(cellId => setComputedValue(cellId, spillResult(cellId, errorValue(CIRCULAR_REFERENCE_ERROR))));
+            circularCellIds.push(...step.cellIds);
+            return;
+        }
+
+        // Iterate from the previous values until the cycle settles like Excel does;
+        // errors left over from non-iterative mode would otherwise feed on themselves
+        step.cellIds.forEach(cellId => {
+            if (isErrorValue(getCellData(cellId)?.computedValue)) setComputedValue(cellId, 0);
+        });
+        for (let iteration = 0; iteration < options.maxIterations; iteration++) {
+            let largestChange = 0;
+            step.cellIds.forEach(cellId => {
+                const previous = getCellData(cellId)?.computedValue ?? 0;
+                const current = evaluateCell(cellId) ?? 0;
+                const change =
+                    typeof previous === 'number' && typeof current === 'number'
+                        ? Math.abs(current - previous)
+                        : sameValue(previous, current)
+                          ? 0
+                          : Infinity;
+                largestChange = Math.max(largestChange, change);
+            });
+            if (largestChange <= options.maxChange) break;
+        }
+    };
+
+    // Formulas that were deleted take their spilled cells with them
+    changedCellIds.forEach(cellId => {
+        if (graph.spillRanges.has(cellId) && !hasFormula(cellId)) spillResult(cellId, null);
+    });
+
+    // Volatile formulas are recalculated in a pass of their own once whatever changed
+    // has been: the graph does not know which cells OFFSET and INDIRECT read
+    let pending = changedCellIds;
+    let volatilePending = graph.volatileCells.size > 0;
+    for (let pass = 0; pass < MAX_SPILL_PASSES; pass++) {
+        if (pending.length === 0 && volatilePending) {
+            pending = Array.from(graph.volatileCells);
+            volatilePending = false;
+        }
+        if (pending.length === 0) break;
+
+        // A changed cell inside another formula's spill area may block or unblock it
+        const dirty = new Set(pending);
+        pending.forEach(cellId => {
+            const spilledFrom = getCellData(cellId)?.spilledFrom;
+            const ownAnchor = spilledFrom && qualifyCellId(splitQualifiedCellId(cellId).sheetName, spilledFrom);
+            getSpillAnchors(graph, cellId).forEach(anchor => {
+                if (anchor !== ownAnchor) dirty.add(anchor);
+            });
+        });
+        spillChanges = [];
+
+        const order = getRecalculationOrder(graph, dirty, hasFormula);
+        const totalCells = evaluatedCellIds.length + order.reduce((total, step) => total + step.cellIds.length, 0);
+        for (let i = 0; i < order.length; i++) {
+            evaluateStep(order[i]);
+            const cancel = yield { evaluatedCells: evaluatedCellIds.length, totalCells };
+            if (cancel) {
+                const remainingCellIds = [
+                    ...order.slice(i + 1).flatMap(step => step.cellIds),
+                    ...spillChanges,
+                    ...(volatilePending ? graph.volatileCells : []),
+                ];
+                return { sheets: result, evaluatedCellIds, circularCellIds, lossyCellIds: Array.from(lossyCellIds), remainingCellIds };
+            }
+        }
+
+        pending = spillChanges;
     }
+
+    return { sheets: result, evaluatedCellIds, circularCellIds, lossyCellIds: Array.from(lossyCellIds), remainingCellIds: [] };
 }
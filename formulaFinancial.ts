@@ -0,0 +1,129 @@
+import { FormulaError, checkNumber } from './formulaValues';
+
+/**
+ * Time value of money, following Excel's sign convention: money paid out is
+ * negative and money received is positive. `type` is 1 when payments fall
+ * at the start of each period and 0 when they fall at the end.
+ */
+
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-10;
+
+/**
+ * Newton's method from an initial guess. Fails with #NUM! when it does not
+ * converge, the way IRR, XIRR and RATE report it in Excel.
+ */
+function solveNewton(f: (x: number) => number, derivative: (x: number) => number, guess: number): number {
+    let x = guess;
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+        const value = f(x);
+        const slope = derivative(x);
+        if (!isFinite(value) || !isFinite(slope) || slope === 0) break;
+
+        const next = x - value / slope;
+        if (!isFinite(next)) break;
+        if (Math.abs(next - x) <= TOLERANCE * Math.max(1, Math.abs(next))) return next;
+        x = next;
+    }
+    throw new FormulaError('#NUM!');
+}
+
+// Central difference, for functions whose derivative is unwieldy to write out
+function numericDerivative(f: (x: number) => number): (x: number) => number {
+    return x => {
+        const h = 1e-6 * Math.max(1, Math.abs(x));
+        return (f(x + h) - f(x - h)) / (2 * h);
+    };
+}
+
+// Growth of an annuity of 1 per period: ((1 + rate)^nper - 1) / rate, adjusted for payment timing
+function annuityFactor(rate: number, nper: number, type: number): number {
+    if (rate === 0) return nper;
+    return ((1 + rate * type) * (Math.pow(1 + rate, nper) - 1)) / rate;
+}
+
+export function futureValue(rate: number, nper: number, pmt: number, pv: number, type: number): number {
+    return checkNumber(-(pv * Math.pow(1 + rate, nper) + pmt * annuityFactor(rate, nper, type)));
+}
+
+export function presentValue(rate: number, nper: number, pmt: number, fv: number, type: number): number {
+    return checkNumber(-(fv + pmt * annuityFactor(rate, nper, type)) / Math.pow(1 + rate, nper));
+}
+
+export function payment(rate: number, nper: number, pv: number, fv: number, type: number): number {
+    if (nper === 0) throw new FormulaError('#NUM!');
+    return checkNumber(-(pv * Math.pow(1 + rate, nper) + fv) / annuityFactor(rate, nper, type));
+}
+
+export function periods(rate: number, pmt: number, pv: number, fv: number, type: number): number {
+    if (rate === 0) {
+        if (pmt === 0) throw new FormulaError('#NUM!');
+        return checkNumber(-(pv + fv) / pmt);
+    }
+    const adjusted = pmt * (1 + rate * type);
+    const ratio = (adjusted - fv * rate) / (adjusted + pv * rate);
+    if (ratio <= 0 || rate <= -1) throw new FormulaError('#NUM!');
+    return checkNumber(Math.log(ratio) / Math.log(1 + rate));
+}
+
+export function interestRate(nper: number, pmt: number, pv: number, fv: number, type: number, guess: number): number {
+    if (nper <= 0) throw new FormulaError('#NUM!');
+    const balance = (rate: number) => pv * Math.pow(1 + rate, nper) + pmt * annuityFactor(rate, nper, type) + fv;
+    const rate = solveNewton(balance, numericDerivative(balance), guess);
+    if (rate <= -1) throw new FormulaError('#NUM!');
+    return rate;
+}
+
+/**
+ * Net present value of cash flows one period apart, the first one period
+ * from now.
+ */
+export function netPresentValue(rate: number, values: number[]): number {
+    if (rate === -1) throw new FormulaError('#DIV/0!');
+    return checkNumber(values.reduce((acc, value, i) => acc + value / Math.pow(1 + rate, i + 1), 0));
+}
+
+// IRR and XIRR need money both paid and received, or no rate can balance them
+function checkCashFlows(values: number[]) {
+    if (!values.some(value => value > 0) || !values.some(value => value < 0)) throw new FormulaError('#NUM!');
+}
+
+export function internalRateOfReturn(values: number[], guess: number): number {
+    checkCashFlows(values);
+    // Discounted to the first cash flow rather than a period before it; same root as NPV
+    const npv = (rate: number) => values.reduce((acc, value, i) => acc + value / Math.pow(1 + rate, i), 0);
+    const slope = (rate: number) => values.reduce((acc, value, i) => acc - (i * value) / Math.pow(1 + rate, i + 1), 0);
+    const rate = solveNewton(npv, slope, guess);
+    if (rate <= -1) throw new FormulaError('#NUM!');
+    return rate;
+}
+
+/**
+ * Checks XNPV/XIRR schedules: one whole-day date per value and no date
+ * before the first one.
+ */
+function yearFractions(values: number[], dates: number[]): number[] {
+    if (values.length === 0 || values.length !== dates.length) throw new FormulaError('#NUM!');
+    const first = Math.floor(dates[0]);
+    return dates.map(date => {
+        const days = Math.floor(date) - first;
+        if (days < 0) throw new FormulaError('#NUM!');
+        return days / 365;
+    });
+}
+
+export function scheduledNetPresentValue(rate: number, values: number[], dates: number[]): number {
+    const years = yearFractions(values, dates);
+    if (rate <= -1) throw new FormulaError('#NUM!');
+    return checkNumber(values.reduce((acc, value, i) => acc + value / Math.pow(1 + rate, years[i]), 0));
+}
+
+export function scheduledInternalRateOfReturn(values: number[], dates: number[], guess: number): number {
+    const years = yearFractions(values, dates);
+    checkCashFlows(values);
+    const xnpv = (rate: number) => values.reduce((acc, value, i) => acc + value / Math.pow(1 + rate, years[i]), 0);
+    const slope = (rate: number) => values.reduce((acc, value, i) => acc - (years[i] * value) / Math.pow(1 + rate, years[i] + 1), 0);
+    const rate = solveNewton(xnpv, slope, guess);
+    if (rate <= -1) throw new FormulaError('#NUM!');
+    return rate;
+}
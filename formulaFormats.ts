@@ -0,0 +1,377 @@
+import { formatValue, formatNumber, parseCellValue, getValueType, toNumber } from './formulaValues';
+import type { CellValue } from './formulaValues';
+import { isValidSerial, serialToDate, serialToTime, serialWeekday, MONTH_NAMES, DAY_NAMES } from './formulaDates';
+import type { DateSystem } from './formulaDates';
+
+/**
+ * Number formats decide how a cell's number is shown without changing the
+ * number itself: a date is stored as its serial and only displayed as a date.
+ */
+export const DATE_FORMAT = 'm/d/yyyy';
+export const TIME_FORMAT = 'h:mm AM/PM';
+export const DATE_TIME_FORMAT = 'm/d/yyyy h:mm';
+
+// Shown instead of a date or time the format cannot represent, as in Excel
+const INVALID_DATE_DISPLAY = '#####';
+
+type DateToken =
+    | { type: 'literal'; text: string }
+    | { type: 'year' | 'month' | 'day' | 'hour' | 'minute' | 'second'; length: number }
+    | { type: 'meridiem'; style: 'AM/PM' | 'A/P' };
+
+function tokenizeDateFormat(format: string): DateToken[] {
+    const tokens: DateToken[] = [];
+    let i = 0;
+
+    while (i < format.length) {
+        const char = format[i];
+        const lower = char.toLowerCase();
+
+        if (char === '"') {
+            const end = format.indexOf('"', i + 1);
+            const close = end < 0 ? format.length : end;
+            tokens.push({ type: 'literal', text: format.substring(i + 1, close) });
+            i = close + 1;
+        } else if (char === '\\' && i + 1 < format.length) {
+            tokens.push({ type: 'literal', text: format[i + 1] });
+            i += 2;
+        } else if (format.substring(i, i + 5).toUpperCase() === 'AM/PM') {
+            tokens.push({ type: 'meridiem', style: 'AM/PM' });
+            i += 5;
+        } else if (format.substring(i, i + 3).toUpperCase() === 'A/P') {
+            tokens.push({ type: 'meridiem', style: 'A/P' });
+            i += 3;
+        } else if ('ymdhs'.includes(lower)) {
+            let length = 1;
+            while (format[i + length]?.toLowerCase() === lower) length++;
+            const type = ({ y: 'year', m: 'month', d: 'day', h: 'hour', s: 'second' } as const)[lower as 'y' | 'm' | 'd' | 'h' | 's'];
+            tokens.push({ type, length });
+            i += length;
+        } else {
+            tokens.push({ type: 'literal', text: char });
+            i++;
+        }
+    }
+
+    // "m" and "mm" mean minutes right after hours or right before seconds
+    const parts = tokens.flatMap((token, index) => (token.type === 'literal' || token.type === 'meridiem' ? [] : [index]));
+    parts.forEach((tokenIndex, index) => {
+        const token = tokens[tokenIndex];
+        if (token.type !== 'month' || token.length > 2) return;
+        const previous = tokens[parts[index - 1]];
+        const next = tokens[parts[index + 1]];
+        if (previous?.type === 'hour' || next?.type === 'second') tokens[tokenIndex] = { type: 'minute', length: token.length };
+    });
+    return tokens;
+}
+
+function pad(value: number, length: number): string {
+    return String(value).padStart(length, '0');
+}
+
+/**
+ * Whether a number format shows dates or times, so that the number it is
+ * applied to is a serial.
+ */
+export function isDateFormat(format: string | undefined): boolean {
+    if (!format) return false;
+    return tokenizeDateFormat(format).some(token => token.type !== 'literal');
+}
+
+/**
+ * Renders a serial through a date/time format code such as "yyyy-mm-dd",
+ * "dddd, mmmm d" or "h:mm:ss AM/PM".
+ */
+export function formatSerial(serial: number, format: string, system: DateSystem): string {
+    if (!isValidSerial(serial, system)) return INVALID_DATE_DISPLAY;
+
+    const tokens = tokenizeDateFormat(format);
+    const date = serialToDate(serial, system);
+    const time = serialToTime(serial);
+    const twelveHour = tokens.some(token => token.type === 'meridiem');
+
+    return tokens
+        .map(token => {
+            switch (token.type) {
+                case 'literal':
+                    return token.text;
+                case 'year':
+                    return token.length <= 2 ? pad(date.year % 100, 2) : pad(date.year, 4);
+                case 'month':
+                    if (token.length === 1) return String(date.month);
+                    if (token.length === 2) return pad(date.month, 2);
+                    if (token.length === 3) return MONTH_NAMES[date.month - 1].substring(0, 3);
+                    if (token.length === 4) return MONTH_NAMES[date.month - 1];
+                    return MONTH_NAMES[date.month - 1][0];
+                case 'day': {
+                    if (token.length <= 2) return pad(date.day, token.length);
+                    const weekday = DAY_NAMES[serialWeekday(serial, system)];
+                    return token.length === 3 ? weekday.substring(0, 3) : weekday;
+                }
+                case 'hour': {
+                    const hours = twelveHour ? time.hours % 12 || 12 : time.hours;
+                    return pad(hours, Math.min(token.length, 2));
+                }
+                case 'minute':
+                    return pad(time.minutes, Math.min(token.length, 2));
+                case 'second':
+                    return pad(time.seconds, Math.min(token.length, 2));
+                case 'meridiem': {
+                    const meridiem = time.hours < 12 ? 'AM' : 'PM';
+                    return token.style === 'AM/PM' ? meridiem : meridiem[0];
+                }
+            }
+        })
+        .join('');
+}
+
+/**
+ * Format to show a serial typed into a cell with: a date, a time of day or both.
+ */
+export function formatForSerial(serial: number): string {
+    if (serial < 1) return TIME_FORMAT;
+    return Number.isInteger(serial) ? DATE_FORMAT : DATE_TIME_FORMAT;
+}
+
+type NumberToken =
+    | { type: 'literal'; text: string }
+    | { type: 'digit'; placeholder: '0' | '#' | '?' }
+    | { type: 'point' | 'comma' | 'percent' }
+    | { type: 'exponent'; alwaysSigned: boolean };
+
+function tokenizeNumberFormat(format: string): NumberToken[] {
+    const tokens: NumberToken[] = [];
+    let i = 0;
+
+    while (i < format.length) {
+        const char = format[i];
+
+        if (char === '"') {
+            const end = format.indexOf('"', i + 1);
+            const close = end < 0 ? format.length : end;
+            tokens.push({ type: 'literal', text: format.substring(i + 1, close) });
+            i = close + 1;
+        } else if (char === '\\' && i + 1 < format.length) {
+            tokens.push({ type: 'literal', text: format[i + 1] });
+            i += 2;
+        } else if (char === '_' && i + 1 < format.length) {
+            // Space as wide as the next character, used to line up parentheses
+            tokens.push({ type: 'literal', text: ' ' });
+            i += 2;
+        } else if (char === '*' && i + 1 < format.length) {
+            // Repeats a character to fill the cell; there is no cell width here
+            i += 2;
+        } else if ((char === 'E' || char === 'e') && (format[i + 1] === '+' || format[i + 1] === '-')) {
+            tokens.push({ type: 'exponent', alwaysSigned: format[i + 1] === '+' });
+            i += 2;
+        } else if (char === '0' || char === '#' || char === '?') {
+            tokens.push({ type: 'digit', placeholder: char });
+            i++;
+        } else if (char === '.' && !tokens.some(token => token.type === 'point' || token.type === 'exponent')) {
+            tokens.push({ type: 'point' });
+            i++;
+        } else if (char === ',') {
+            tokens.push({ type: 'comma' });
+            i++;
+        } else if (char === '%') {
+            tokens.push({ type: 'percent' });
+            i++;
+        } else {
+            tokens.push({ type: 'literal', text: char });
+            i++;
+        }
+    }
+    return tokens;
+}
+
+// Rounds half away from zero; the nudge keeps 1.005 from rounding down to 1.00
+function toFixedDigits(value: number, digits: number): string {
+    return (Math.abs(value) * (1 + 2 * Number.EPSILON)).toFixed(digits);
+}
+
+function groupThousands(digits: string): string {
+    return digits.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+}
+
+/**
+ * Renders a number through one section of a numeric format code: digit
+ * placeholders 0 # ?, decimal point, thousands separator (or, trailing, a
+ * scale by 1000), percent, scientific E+ and literal text. The sign is the
+ * caller's business.
+ */
+function formatNumberSection(value: number, section: string): string {
+    const tokens = tokenizeNumberFormat(section);
+    const exponentIndex = tokens.findIndex(token => token.type === 'exponent');
+    const mantissaEnd = exponentIndex < 0 ? tokens.length : exponentIndex;
+    const pointIndex = tokens.findIndex(token => token.type === 'point');
+    const integerEnd = pointIndex >= 0 && pointIndex < mantissaEnd ? pointIndex : mantissaEnd;
+
+    const digitSlots = (from: number, to: number) =>
+        tokens.flatMap((token, index) => (token.type === 'digit' && index >= from && index < to ? [index] : []));
+    const integerSlots = digitSlots(0, integerEnd);
+    const fractionSlots = pointIndex >= 0 && pointIndex < mantissaEnd ? digitSlots(pointIndex + 1, mantissaEnd) : [];
+    const exponentSlots = exponentIndex >= 0 ? digitSlots(exponentIndex + 1, tokens.length) : [];
+    const placeholder = (index: number) => (tokens[index] as { placeholder: string }).placeholder;
+
+    let scaled = Math.abs(value) * Math.pow(100, tokens.filter(token => token.type === 'percent').length);
+
+    // A comma between integer placeholders groups thousands; one after them divides by 1000
+    const commaRoles = new Map<number, 'group' | 'scale'>();
+    tokens.forEach((token, index) => {
+        if (token.type !== 'comma' || index >= integerEnd) return;
+        const digitBefore = integerSlots.some(slot => slot < index);
+        const digitAfter = integerSlots.some(slot => slot > index);
+        if (digitBefore && digitAfter) commaRoles.set(index, 'group');
+        if (digitBefore && !digitAfter) {
+            commaRoles.set(index, 'scale');
+            scaled /= 1000;
+        }
+    });
+    const grouping = Array.from(commaRoles.values()).includes('group');
+
+    let exponent = 0;
+    if (exponentIndex >= 0 && scaled !== 0) {
+        const leadingDigits = Math.max(1, integerSlots.length);
+        exponent = Math.floor(Math.log10(scaled)) - (leadingDigits - 1);
+        // Rounding the mantissa may carry it into another digit
+        if (Number(toFixedDigits(scaled / Math.pow(10, exponent), fractionSlots.length)) >= Math.pow(10, leadingDigits)) exponent++;
+        scaled /= Math.pow(10, exponent);
+    }
+
+    if (scaled >= 1e21) return formatNumber(scaled);
+    const [integerText, fractionText = ''] = toFixedDigits(scaled, fractionSlots.length).split('.');
+
+    const minimumDigits = integerSlots.filter(slot => placeholder(slot) === '0').length;
+    let integerDigits = integerText === '0' && minimumDigits === 0 ? '' : integerText;
+    integerDigits = integerDigits.padStart(minimumDigits, '0');
+
+    const output = new Map<number, string>();
+    if (grouping) {
+        integerSlots.forEach((slot, i) => output.set(slot, i === 0 ? groupThousands(integerDigits) : ''));
+    } else {
+        // Digits fill the placeholders from the right; any left over go in the first one
+        let remaining = integerDigits;
+        for (let i = integerSlots.length - 1; i >= 0; i--) {
+            const slot = integerSlots[i];
+            if (i === 0) {
+                output.set(slot, remaining || (placeholder(slot) === '?' ? ' ' : ''));
+            } else if (remaining) {
+                output.set(slot, remaining[remaining.length - 1]);
+                remaining = remaining.slice(0, -1);
+            } else {
+                output.set(slot, placeholder(slot) === '?' ? ' ' : '');
+            }
+        }
+    }
+
+    // Trailing zeros only show for 0 placeholders
+    let trimming = true;
+    for (let i = fractionSlots.length - 1; i >= 0; i--) {
+        const slot = fractionSlots[i];
+        const digit = fractionText[i];
+        if (trimming && digit === '0' && placeholder(slot) !== '0') {
+            output.set(slot, placeholder(slot) === '?' ? ' ' : '');
+        } else {
+            trimming = false;
+            output.set(slot, digit);
+        }
+    }
+
+    const exponentDigits = String(Math.abs(exponent)).padStart(exponentSlots.length, '0');
+    exponentSlots.forEach((slot, i) => output.set(slot, i === 0 ? exponentDigits : ''));
+
+    return tokens
+        .map((token, index) => {
+            switch (token.type) {
+                case 'literal':
+                    return token.text;
+                case 'digit':
+                    return output.get(index) ?? '';
+                case 'point':
+                    return integerSlots.length === 0 && integerDigits ? integerDigits + '.' : '.';
+                case 'comma':
+                    return commaRoles.has(index) ? '' : ',';
+                case 'percent':
+                    return '%';
+                case 'exponent':
+                    return 'E' + (exponent < 0 ? '-' : token.alwaysSigned ? '+' : '');
+            }
+        })
+        .join('');
+}
+
+// Splits a format code into its ;-separated sections: positive, negative, zero, text
+function splitSections(format: string): string[] {
+    const sections: string[] = [];
+    let current = '';
+    let quoted = false;
+
+    for (let i = 0; i < format.length; i++) {
+        const char = format[i];
+        if (char === '"') quoted = !quoted;
+        if (char === '\\' && !quoted && i + 1 < format.length) {
+            current += char + format[++i];
+        } else if (char === '[' && !quoted) {
+            // Colors and conditions such as [Red] or [>100] are not supported and are dropped
+            const end = format.indexOf(']', i);
+            i = end < 0 ? format.length : end;
+        } else if (char === ';' && !quoted) {
+            sections.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    sections.push(current);
+    return sections;
+}
+
+/**
+ * Formats a number with an Excel format code such as "#,##0.00", "0%",
+ * "0.00E+00", "$#,##0;($#,##0)" or a date code like "yyyy-mm-dd".
+ */
+export function formatNumberWithCode(value: number, format: string, system: DateSystem): string {
+    const sections = splitSections(format);
+    let section = sections[0];
+    let signed = value < 0;
+    if (value < 0 && sections.length > 1) {
+        section = sections[1];
+        signed = false;
+    } else if (value === 0 && sections.length > 2) {
+        section = sections[2];
+    }
+
+    if (isDateFormat(section)) return formatSerial(value, section, system);
+    if (section.trim().toUpperCase() === 'GENERAL') return formatNumber(signed ? value : Math.abs(value));
+
+    const text = formatNumberSection(value, section);
+    return signed && /[1-9]/.test(text) ? '-' + text : text;
+}
+
+/**
+ * Formats any value the way TEXT does: numbers, and text that reads as a
+ * number or date, through the format code; other text through the text
+ * section (where @ stands for the text), or unchanged when there is none.
+ */
+export function formatWithCode(value: CellValue, format: string, system: DateSystem): string {
+    const parsed = typeof value === 'string' ? parseCellValue(value, system) : value;
+    if (getValueType(parsed) === 'number' || parsed === null) return formatNumberWithCode(toNumber(parsed), format, system);
+    if (typeof parsed === 'boolean') return formatValue(parsed);
+
+    const text = value as string;
+    const sections = splitSections(format);
+    const textSection = sections.length > 3 ? sections[3] : sections.find(section => section.includes('@'));
+    if (textSection === undefined) return text;
+    return tokenizeNumberFormat(textSection)
+        .map(token => (token.type === 'literal' ? token.text.replace(/@/g, text) : ''))
+        .join('');
+}
+
+/**
+ * Text shown for a value under a cell's number format; values other than
+ * numbers, and numbers without a format, display as usual.
+ */
+export function formatCellValue(value: CellValue, numberFormat: string | undefined, system: DateSystem): string {
+    if (getValueType(value) !== 'number' || !numberFormat) return formatValue(value);
+    return formatNumberWithCode(toNumber(value), numberFormat, system);
+}
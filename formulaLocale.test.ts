@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { getFormulaLocale, localizeFormula, delocalizeFormula } from './formulaLocale';
+import { getArgumentContext } from './formulaAssist';
+
+const GERMAN = getFormulaLocale('de-DE');
+
+describe('localizeFormula', () => {
+    it('translates function names and separators, leaving strings alone', () => {
+        expect(localizeFormula('=SUM(A1,1.5,"a,b")', GERMAN)).toBe('=SUMME(A1;1,5;"a,b")');
+        expect(delocalizeFormula('=SUMME(A1;1,5;"a,b")', GERMAN)).toBe('=SUM(A1,1.5,"a,b")');
+    });
+
+    it('keeps ; between the rows of an array constant', () => {
+        expect(localizeFormula('=SUM({1.5,2;3,4},5)', GERMAN)).toBe('=SUMME({1,5\\2;3\\4};5)');
+        expect(delocalizeFormula('=SUMME({1,5\\2;3\\4};5)', GERMAN)).toBe('=SUM({1.5,2;3,4},5)');
+    });
+});
+
+describe('getArgumentContext', () => {
+    it('does not count separators inside an array constant', () => {
+        const formula = '=SUMME({1;2;3};';
+        expect(getArgumentContext(formula, formula.length, GERMAN)).toEqual({ name: 'SUM', argumentIndex: 1 });
+    });
+});
@@ -0,0 +1,463 @@
+import { expandYear, daysInMonth } from './formulaDates';
+import { isDecimalValue } from './formulaDecimal';
+import { parseNumericText } from './formulaValues';
+import type { FormulaValue } from './formulaValues';
+
+export type DateOrder = 'mdy' | 'dmy' | 'ymd';
+
+/**
+ * How a spreadsheet's users write numbers, dates and formulas. Cells are
+ * always stored the canonical (en-US) way: numbers with a '.' decimal point
+ * and no grouping, formulas with English function names and ',' between
+ * arguments, dates as the engine reads them. Input is converted from the
+ * locale on entry and back to it for editing, so a workbook calculates the
+ * same whatever locale it is opened in.
+ */
+export interface FormulaLocale {
+    id: string;
+    label: string;
+    decimalSeparator: '.' | ',';
+    // Accepted, and dropped, between groups of three digits in typed numbers
+    thousandsSeparator: ',' | '.' | ' ';
+    // ';' wherever ',' is the decimal separator
+    argumentSeparator: ',' | ';';
+    dateOrder: DateOrder;
+    dateSeparator: '/' | '.' | '-';
+    // Localized names by canonical name; functions not listed keep their English name
+    functionNames: Record<string, string>;
+}
+
+const GERMAN_FUNCTION_NAMES: Record<string, string> = {
+    SUM: 'SUMME',
+    AVERAGE: 'MITTELWERT',
+    COUNT: 'ANZAHL',
+    COUNTA: 'ANZAHL2',
+    ROUND: 'RUNDEN',
+    RAND: 'ZUFALLSZAHL',
+    RANDBETWEEN: 'ZUFALLSBEREICH',
+    SUMIF: 'SUMMEWENN',
+    SUMIFS: 'SUMMEWENNS',
+    COUNTIF: 'ZÄHLENWENN',
+    COUNTIFS: 'ZÄHLENWENNS',
+    AVERAGEIF: 'MITTELWERTWENN',
+    LEN: 'LÄNGE',
+    UPPER: 'GROSS',
+    LOWER: 'KLEIN',
+    LEFT: 'LINKS',
+    RIGHT: 'RECHTS',
+    MID: 'TEIL',
+    FIND: 'FINDEN',
+    SEARCH: 'SUCHEN',
+    SUBSTITUTE: 'WECHSELN',
+    TRIM: 'GLÄTTEN',
+    IF: 'WENN',
+    IFS: 'WENNS',
+    AND: 'UND',
+    OR: 'ODER',
+    NOT: 'NICHT',
+    IFERROR: 'WENNFEHLER',
+    IFNA: 'WENNNV',
+    ISBLANK: 'ISTLEER',
+    ISNUMBER: 'ISTZAHL',
+    ISTEXT: 'ISTTEXT',
+    ISERROR: 'ISTFEHLER',
+    VLOOKUP: 'SVERWEIS',
+    HLOOKUP: 'WVERWEIS',
+    XLOOKUP: 'XVERWEIS',
+    MATCH: 'VERGLEICH',
+    SORT: 'SORTIEREN',
+    UNIQUE: 'EINDEUTIG',
+    OFFSET: 'BEREICH.VERSCHIEBEN',
+    INDIRECT: 'INDIREKT',
+    SEQUENCE: 'SEQUENZ',
+    DATE: 'DATUM',
+    TODAY: 'HEUTE',
+    NOW: 'JETZT',
+    YEAR: 'JAHR',
+    MONTH: 'MONAT',
+    DAY: 'TAG',
+    WEEKDAY: 'WOCHENTAG',
+    PMT: 'RMZ',
+    PV: 'BW',
+    FV: 'ZW',
+    NPV: 'NBW',
+    IRR: 'IKV',
+};
+
+const FRENCH_FUNCTION_NAMES: Record<string, string> = {
+    SUM: 'SOMME',
+    AVERAGE: 'MOYENNE',
+    COUNT: 'NB',
+    COUNTA: 'NBVAL',
+    ROUND: 'ARRONDI',
+    RAND: 'ALEA',
+    RANDBETWEEN: 'ALEA.ENTRE.BORNES',
+    SUMIF: 'SOMME.SI',
+    SUMIFS: 'SOMME.SI.ENS',
+    COUNTIF: 'NB.SI',
+    COUNTIFS: 'NB.SI.ENS',
+    AVERAGEIF: 'MOYENNE.SI',
+    LEN: 'NBCAR',
+    UPPER: 'MAJUSCULE',
+    LOWER: 'MINUSCULE',
+    LEFT: 'GAUCHE',
+    RIGHT: 'DROITE',
+    MID: 'STXT',
+    FIND: 'TROUVE',
+    SEARCH: 'CHERCHE',
+    SUBSTITUTE: 'SUBSTITUE',
+    TRIM: 'SUPPRESPACE',
+    IF: 'SI',
+    IFS: 'SI.CONDITIONS',
+    AND: 'ET',
+    OR: 'OU',
+    NOT: 'NON',
+    IFERROR: 'SIERREUR',
+    IFNA: 'SI.NON.DISP',
+    ISBLANK: 'ESTVIDE',
+    ISNUMBER: 'ESTNUM',
+    ISTEXT: 'ESTTEXTE',
+    ISERROR: 'ESTERREUR',
+    VLOOKUP: 'RECHERCHEV',
+    HLOOKUP: 'RECHERCHEH',
+    XLOOKUP: 'RECHERCHEX',
+    MATCH: 'EQUIV',
+    FILTER: 'FILTRE',
+    SORT: 'TRIER',
+    OFFSET: 'DECALER',
+    TODAY: 'AUJOURDHUI',
+    NOW: 'MAINTENANT',
+    YEAR: 'ANNEE',
+    MONTH: 'MOIS',
+    DAY: 'JOUR',
+    WEEKDAY: 'JOURSEM',
+    PMT: 'VPM',
+    PV: 'VA',
+    FV: 'VC',
+    NPV: 'VAN',
+    IRR: 'TRI',
+};
+
+const SPANISH_FUNCTION_NAMES: Record<string, string> = {
+    SUM: 'SUMA',
+    AVERAGE: 'PROMEDIO',
+    COUNT: 'CONTAR',
+    COUNTA: 'CONTARA',
+    ROUND: 'REDONDEAR',
+    RAND: 'ALEATORIO',
+    RANDBETWEEN: 'ALEATORIO.ENTRE',
+    SUMIF: 'SUMAR.SI',
+    SUMIFS: 'SUMAR.SI.CONJUNTO',
+    COUNTIF: 'CONTAR.SI',
+    COUNTIFS: 'CONTAR.SI.CONJUNTO',
+    AVERAGEIF: 'PROMEDIO.SI',
+    LEN: 'LARGO',
+    UPPER: 'MAYUSC',
+    LOWER: 'MINUSC',
+    LEFT: 'IZQUIERDA',
+    RIGHT: 'DERECHA',
+    MID: 'EXTRAE',
+    FIND: 'ENCONTRAR',
+    SEARCH: 'HALLAR',
+    SUBSTITUTE: 'SUSTITUIR',
+    TRIM: 'ESPACIOS',
+    IF: 'SI',
+    IFS: 'SI.CONJUNTO',
+    AND: 'Y',
+    OR: 'O',
+    NOT: 'NO',
+    IFERROR: 'SI.ERROR',
+    IFNA: 'SI.ND',
+    ISBLANK: 'ESBLANCO',
+    ISNUMBER: 'ESNUMERO',
+    ISTEXT: 'ESTEXTO',
+    ISERROR: 'ESERROR',
+    VLOOKUP: 'BUSCARV',
+    HLOOKUP: 'BUSCARH',
+    XLOOKUP: 'BUSCARX',
+    MATCH: 'COINCIDIR',
+    INDEX: 'INDICE',
+    FILTER: 'FILTRAR',
+    SORT: 'ORDENAR',
+    UNIQUE: 'UNICOS',
+    OFFSET: 'DESREF',
+    INDIRECT: 'INDIRECTO',
+    SEQUENCE: 'SECUENCIA',
+    DATE: 'FECHA',
+    TODAY: 'HOY',
+    NOW: 'AHORA',
+    YEAR: 'AÑO',
+    MONTH: 'MES',
+    DAY: 'DIA',
+    WEEKDAY: 'DIASEM',
+    PMT: 'PAGO',
+    PV: 'VA',
+    FV: 'VF',
+    NPV: 'VNA',
+    IRR: 'TIR',
+};
+
+export const FORMULA_LOCALES: FormulaLocale[] = [
+    { id: 'en-US', label: 'English (United States)', decimalSeparator: '.', thousandsSeparator: ',', argumentSeparator: ',', dateOrder: 'mdy', dateSeparator: '/', functionNames: {} },
+    { id: 'en-GB', label: 'English (United Kingdom)', decimalSeparator: '.', thousandsSeparator: ',', argumentSeparator: ',', dateOrder: 'dmy', dateSeparator: '/', functionNames: {} },
+    { id: 'de-DE', label: 'Deutsch (Deutschland)', decimalSeparator: ',', thousandsSeparator: '.', argumentSeparator: ';', dateOrder: 'dmy', dateSeparator: '.', functionNames: GERMAN_FUNCTION_NAMES },
+    { id: 'fr-FR', label: 'Français (France)', decimalSeparator: ',', thousandsSeparator: ' ', argumentSeparator: ';', dateOrder: 'dmy', dateSeparator: '/', functionNames: FRENCH_FUNCTION_NAMES },
+    { id: 'es-ES', label: 'Español (España)', decimalSeparator: ',', thousandsSeparator: '.', argumentSeparator: ';', dateOrder: 'dmy', dateSeparator: '/', functionNames: SPANISH_FUNCTION_NAMES },
+    { id: 'ja-JP', label: '日本語 (日本)', decimalSeparator: '.', thousandsSeparator: ',', argumentSeparator: ',', dateOrder: 'ymd', dateSeparator: '/', functionNames: {} },
+];
+
+export const DEFAULT_LOCALE_ID = 'en-US';
+
+export function getFormulaLocale(id: string): FormulaLocale {
+    return FORMULA_LOCALES.find(locale => locale.id === id) ?? FORMULA_LOCALES[0];
+}
+
+// The convention every formula is stored in
+const CANONICAL: Pick<FormulaLocale, 'decimalSeparator' | 'argumentSeparator'> = { decimalSeparator: '.', argumentSeparator: ',' };
+
+const IDENTIFIER_START = /[\p{L}_]/u;
+const IDENTIFIER_PART = /[\p{L}\p{N}_.$]/u;
+
+// End of a quoted string or sheet name starting at `start`, doubled quotes included
+function readQuoted(text: string, start: number): number {
+    const quote = text[start];
+    let i = start + 1;
+    while (i < text.length) {
+        if (text[i] === quote && text[i + 1] === quote) {
+            i += 2;
+        } else if (text[i] === quote) {
+            return i + 1;
+        } else {
+            i++;
+        }
+    }
+    return i;
+}
+
+// Between the columns of an array constant; '\' where ',' separates decimals and ';' arguments
+function arrayColumnSeparator(convention: Pick<FormulaLocale, 'argumentSeparator'>): string {
+    return convention.argumentSeparator === ';' ? '\\' : ',';
+}
+
+/**
+ * Rewrites a formula's separators and function names from one convention to
+ * the other, leaving strings, quoted sheet names, references and names as
+ * they are. Only numbers change their decimal separator, and only function
+ * names followed by '(' are translated. Inside an array constant ';' always
+ * separates rows, so only the column separator changes.
+ */
+function translateFormula(
+    formula: string,
+    from: Pick<FormulaLocale, 'decimalSeparator' | 'argumentSeparator'>,
+    to: Pick<FormulaLocale, 'decimalSeparator' | 'argumentSeparator'>,
+    functionNames: Map<string, string>
+): string {
+    let result = '';
+    let inArray = false;
+    let i = 0;
+    while (i < formula.length) {
+        const char = formula[i];
+        const previous = i > 0 ? formula[i - 1] : '';
+        const startsNumber =
+            (/\d/.test(char) || (char === from.decimalSeparator && /\d/.test(formula[i + 1] ?? ''))) && !IDENTIFIER_PART.test(previous);
+
+        if (char === '"' || char === "'") {
+            const end = readQuoted(formula, i);
+            result += formula.slice(i, end);
+            i = end;
+        } else if (startsNumber) {
+            let end = i;
+            while (end < formula.length && /\d/.test(formula[end])) end++;
+            let number = formula.slice(i, end);
+            if (formula[end] === from.decimalSeparator && /\d/.test(formula[end + 1] ?? '')) {
+                const fractionStart = end + 1;
+                end = fractionStart;
+                while (end < formula.length && /\d/.test(formula[end])) end++;
+                number += to.decimalSeparator + formula.slice(fractionStart, end);
+            }
+            const exponent = formula.slice(end).match(/^[eE][+-]?\d+/);
+            if (exponent) {
+                number += exponent[0];
+                end += exponent[0].length;
+            }
+            result += number;
+            i = end;
+        } else if (IDENTIFIER_START.test(char) && !IDENTIFIER_PART.test(previous)) {
+            let end = i + 1;
+            while (end < formula.length && IDENTIFIER_PART.test(formula[end])) end++;
+            const identifier = formula.slice(i, end);
+            const translated = formula[end] === '(' ? functionNames.get(identifier.toUpperCase()) : undefined;
+            result += translated ?? identifier;
+            i = end;
+        } else if (char === '{' || char === '}') {
+            inArray = char === '{';
+            result += char;
+            i++;
+        } else if (inArray && char === arrayColumnSeparator(from)) {
+            result += arrayColumnSeparator(to);
+            i++;
+        } else if (inArray && char === ';') {
+            result += char;
+            i++;
+        } else if (char === from.argumentSeparator) {
+            result += to.argumentSeparator;
+            i++;
+        } else {
+            result += char;
+            i++;
+        }
+    }
+    return result;
+}
+
+const localizedNames = new Map<string, Map<string, string>>();
+const canonicalNames = new Map<string, Map<string, string>>();
+
+function getNameMaps(locale: FormulaLocale) {
+    if (!localizedNames.has(locale.id)) {
+        const entries = Object.entries(locale.functionNames);
+        localizedNames.set(locale.id, new Map(entries));
+        canonicalNames.set(locale.id, new Map(entries.map(([canonical, localized]) => [localized.toUpperCase(), canonical])));
+    }
+    return { localized: localizedNames.get(locale.id)!, canonical: canonicalNames.get(locale.id)! };
+}
+
+// The name the locale writes a function as, e.g. SUMME for SUM in German
+export function localizeFunctionName(name: string, locale: FormulaLocale): string {
+    return getNameMaps(locale).localized.get(name) ?? name;
+}
+
+// The canonical name of a function written in the locale; unknown names come back upper-cased
+export function canonicalFunctionName(name: string, locale: FormulaLocale): string {
+    const upper = name.toUpperCase();
+    return getNameMaps(locale).canonical.get(upper) ?? upper;
+}
+
+/**
+ * A stored formula as the locale writes it, for editing: =SUM(A1,1.5) is
+ * =SUMME(A1;1,5) in German.
+ */
+export function localizeFormula(formula: string, locale: FormulaLocale): string {
+    return translateFormula(formula, CANONICAL, locale, getNameMaps(locale).localized);
+}
+
+/**
+ * A formula typed in the locale, in the canonical form it is stored in.
+ * English function names are understood in every locale.
+ */
+export function delocalizeFormula(formula: string, locale: FormulaLocale): string {
+    return translateFormula(formula, locale, CANONICAL, getNameMaps(locale).canonical);
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Spaces used to group digits: the plain one, and the non-breaking ones French text uses
+const SPACE_SEPARATORS = ' \u00a0\u202f';
+
+function numberPattern(locale: FormulaLocale): RegExp {
+    const thousands = locale.thousandsSeparator === ' ' ? `[${SPACE_SEPARATORS}]` : escapeRegExp(locale.thousandsSeparator);
+    const decimal = escapeRegExp(locale.decimalSeparator);
+    return new RegExp(`^([+-]?)(\\d{1,3}(?:${thousands}\\d{3})+|\\d*)(?:${decimal}(\\d+))?([eE][+-]?\\d+)?$`);
+}
+
+const DATE_PATTERN = /^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})((?:[ T]+)\d{1,2}:\d{2}.*)?$/;
+
+function pad(value: number): string {
+    return String(value).padStart(2, '0');
+}
+
+/**
+ * A typed date in the locale's order, as an ISO date the engine reads in
+ * any locale; null when the text is not one or names no real day.
+ */
+function parseLocaleDate(text: string, locale: FormulaLocale): string | null {
+    const dayAndMonth = text.match(/^(\d{1,2})([./-])(\d{1,2})$/);
+    if (dayAndMonth && dayAndMonth[2] === locale.dateSeparator) {
+        // Without a year, as in 1.5 for the first of May, the date is in the current year
+        const [first, second] = locale.dateOrder === 'dmy' ? [dayAndMonth[3], dayAndMonth[1]] : [dayAndMonth[1], dayAndMonth[3]];
+        return parseLocaleDate(`${new Date().getFullYear()}${locale.dateSeparator}${first}${locale.dateSeparator}${second}`, { ...locale, dateOrder: 'ymd' });
+    }
+
+    const match = text.match(DATE_PATTERN);
+    if (!match) return null;
+    const [, first, second, third, time = ''] = match;
+    let yearText: string;
+    let month: number;
+    let day: number;
+    if (locale.dateOrder === 'ymd') {
+        if (first.length !== 4 || third.length > 2) return null;
+        [yearText, month, day] = [first, parseInt(second, 10), parseInt(third, 10)];
+    } else {
+        if (first.length > 2 || (third.length !== 2 && third.length !== 4)) return null;
+        const [m, d] = locale.dateOrder === 'mdy' ? [first, second] : [second, first];
+        [yearText, month, day] = [third, parseInt(m, 10), parseInt(d, 10)];
+    }
+    const year = expandYear(yearText);
+    if (year < 1900 || year > 9999 || month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) return null;
+    return `${year}-${pad(month)}-${pad(day)}${time}`;
+}
+
+/**
+ * Text typed into a cell, as the canonical text it is stored as: numbers
+ * lose their grouping and get a '.' decimal point, and dates outside the
+ * en-US month/day/year order become ISO dates. Anything else is kept as typed.
+ */
+export function delocalizeValue(text: string, locale: FormulaLocale): string {
+    const trimmed = text.trim();
+    const number = trimmed.match(numberPattern(locale));
+    if (number && (number[2] !== '' || number[3] !== undefined)) {
+        const [, sign, integer, fraction, exponent = ''] = number;
+        const digits = integer.replace(/\D/g, '');
+        return `${sign}${digits}${fraction !== undefined ? `.${fraction}` : ''}${exponent}`;
+    }
+    if (locale.dateOrder !== 'mdy') return parseLocaleDate(trimmed, locale) ?? text;
+    return text;
+}
+
+const CANONICAL_DATE_PATTERN = /^(?:(\d{4})-(\d{1,2})-(\d{1,2})|(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4}))((?:[ T]+)\d{1,2}:\d{2}.*)?$/;
+
+/**
+ * A stored value as the locale writes it, for editing and display: the
+ * decimal point becomes the locale's, and ISO or month/day/year dates are
+ * put in the locale's order. Anything else is shown as stored.
+ */
+export function localizeValue(value: string, locale: FormulaLocale): string {
+    if (parseNumericText(value) !== null) return value.replace('.', locale.decimalSeparator);
+    if (locale.dateOrder === 'mdy') return value;
+
+    const match = value.trim().match(CANONICAL_DATE_PATTERN);
+    if (!match) return value;
+    const year = match[1] ? parseInt(match[1], 10) : expandYear(match[6]);
+    const month = parseInt(match[2] ?? match[4], 10);
+    const day = parseInt(match[3] ?? match[5], 10);
+    const time = match[7] ?? '';
+    const separator = locale.dateSeparator;
+    if (locale.dateOrder === 'ymd') return `${year}${separator}${pad(month)}${separator}${pad(day)}${time}`;
+    return `${pad(day)}${separator}${pad(month)}${separator}${year}${time}`;
+}
+
+/**
+ * What the formula bar shows for a stored formula or value.
+ */
+export function localizeInput(text: string, locale: FormulaLocale): string {
+    return text.startsWith('=') ? localizeFormula(text, locale) : localizeValue(text, locale);
+}
+
+/**
+ * What is stored for text typed into the formula bar or a cell.
+ */
+export function delocalizeInput(text: string, locale: FormulaLocale): string {
+    return text.startsWith('=') ? delocalizeFormula(text, locale) : delocalizeValue(text, locale);
+}
+
+/**
+ * A formula result's displayed text with the locale's separators. Only
+ * numbers are touched, so text results keep their commas and periods.
+ */
+export function localizeDisplayValue(displayValue: string, value: FormulaValue | undefined, locale: FormulaLocale): string {
+    const shown = Array.isArray(value) ? value[0][0] : value;
+    if (locale.decimalSeparator === '.' || (typeof shown !== 'number' && !isDecimalValue(shown))) return displayValue;
+    return displayValue.replace(/[.,]/g, separator => (separator === '.' ? locale.decimalSeparator : locale.thousandsSeparator));
+}
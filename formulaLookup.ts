@@ -0,0 +1,111 @@
+import { isErrorValue, compareValues, getValueType } from './formulaValues';
+import type { CellValue } from './formulaValues';
+import { wildcardToRegExp, hasWildcards } from './formulaCriteria';
+
+/**
+ * How a lookup decides that a value matches: exactly, exactly with * and ?
+ * wildcards in text, or falling back to the nearest smaller/larger value.
+ */
+export type MatchMode = 'exact' | 'wildcard' | 'nextSmaller' | 'nextLarger';
+
+/**
+ * Linear scans in either direction, or binary search over data sorted
+ * ascending or descending.
+ */
+export type SearchMode = 'forward' | 'reverse' | 'binaryAscending' | 'binaryDescending';
+
+// Lookups only ever match values of the lookup value's own type
+function isComparable(value: CellValue, lookup: CellValue): boolean {
+    return value !== null && !isErrorValue(value) && getValueType(value) === getValueType(lookup);
+}
+
+function nextComparable(values: CellValue[], lookup: CellValue, from: number): number {
+    for (let i = from; i < values.length; i++) {
+        if (isComparable(values[i], lookup)) return i;
+    }
+    return -1;
+}
+
+/**
+ * Last position whose value sorts at or before the lookup value: <= for
+ * ascending data, >= for descending. Values of other types are stepped over,
+ * as Excel does, so mixed columns still give a usable answer.
+ */
+function binarySearch(values: CellValue[], lookup: CellValue, descending: boolean): number {
+    let low = 0;
+    let high = values.length - 1;
+    let found = -1;
+
+    while (low <= high) {
+        const mid = Math.floor((low + high) / 2);
+        let probe = mid;
+        while (probe >= low && !isComparable(values[probe], lookup)) probe--;
+        if (probe < low) {
+            low = mid + 1;
+            continue;
+        }
+
+        const comparison = compareValues(values[probe], lookup) * (descending ? -1 : 1);
+        if (comparison <= 0) {
+            found = probe;
+            low = mid + 1;
+        } else {
+            high = probe - 1;
+        }
+    }
+    return found;
+}
+
+function searchSorted(values: CellValue[], lookup: CellValue, matchMode: MatchMode, descending: boolean): number {
+    const found = binarySearch(values, lookup, descending);
+    if (found >= 0 && compareValues(values[found], lookup) === 0) return found;
+
+    // found holds the nearest value on the "before" side of the sort order
+    const before = descending ? 'nextLarger' : 'nextSmaller';
+    if (matchMode === before) return found;
+    if (matchMode === 'exact' || matchMode === 'wildcard') return -1;
+    return nextComparable(values, lookup, found + 1);
+}
+
+function searchLinear(values: CellValue[], lookup: CellValue, matchMode: MatchMode, reverse: boolean): number {
+    const pattern = matchMode === 'wildcard' && typeof lookup === 'string' && hasWildcards(lookup) ? wildcardToRegExp(lookup) : null;
+    let best = -1;
+
+    for (let step = 0; step < values.length; step++) {
+        const i = reverse ? values.length - 1 - step : step;
+        const value = values[i];
+        if (!isComparable(value, lookup)) continue;
+
+        if (pattern) {
+            if (pattern.test(value as string)) return i;
+            continue;
+        }
+
+        const comparison = compareValues(value, lookup);
+        if (comparison === 0) return i;
+
+        // Keep the closest candidate on the requested side; ties go to the first one found
+        if (matchMode === 'nextSmaller' && comparison < 0 && (best < 0 || compareValues(value, values[best]) > 0)) best = i;
+        if (matchMode === 'nextLarger' && comparison > 0 && (best < 0 || compareValues(value, values[best]) < 0)) best = i;
+    }
+    return best;
+}
+
+/**
+ * Position of the lookup value in a row or column of values, or -1 when
+ * nothing matches. Shared by XLOOKUP, MATCH, VLOOKUP and HLOOKUP.
+ */
+export function lookupIndex(values: CellValue[], lookup: CellValue, matchMode: MatchMode, searchMode: SearchMode): number {
+    if (lookup === null || isErrorValue(lookup)) return -1;
+
+    switch (searchMode) {
+        case 'forward':
+            return searchLinear(values, lookup, matchMode, false);
+        case 'reverse':
+            return searchLinear(values, lookup, matchMode, true);
+        case 'binaryAscending':
+            return searchSorted(values, lookup, matchMode, false);
+        case 'binaryDescending':
+            return searchSorted(values, lookup, matchMode, true);
+    }
+}
@@ -0,0 +1,156 @@
+import { parseFormula, FormulaSyntaxError } from './formulaParser';
+import type { FormulaNode } from './formulaParser';
+
+/**
+ * A defined name such as TaxRate. `reference` is the formula text it stands
+ * for, without the leading '=': usually an absolute reference like
+ * Sheet1!$B$2:$B$20, but any expression such as 0.07 works. A name with a
+ * scope is local to that sheet and hides a workbook name spelled the same.
+ */
+export interface NameDefinition {
+    name: string;
+    reference: string;
+    scope?: string;
+}
+
+export const MAX_NAME_LENGTH = 255;
+
+/**
+ * Names follow Excel's rules: a letter or underscore, then letters, digits,
+ * underscores and periods, and nothing a formula would read as a cell
+ * reference (A1, XFD100, R1C1) or a boolean.
+ */
+export function isValidName(name: string): boolean {
+    if (name.length > MAX_NAME_LENGTH || !/^[A-Za-z_][A-Za-z0-9_.]*$/.test(name)) return false;
+    const upper = name.toUpperCase();
+    if (upper === 'TRUE' || upper === 'FALSE') return false;
+    return !/^[A-Z]{1,3}\d+$/.test(upper) && !/^R\d*C?\d*$/.test(upper) && !/^C\d*$/.test(upper);
+}
+
+function sameText(left: string, right: string): boolean {
+    return left.toUpperCase() === right.toUpperCase();
+}
+
+/**
+ * Looks a name up as a formula on the given sheet sees it: the sheet's own
+ * name first, then the workbook's. Names and sheets match ignoring case.
+ */
+export function findName(names: NameDefinition[], name: string, sheetName?: string): NameDefinition | undefined {
+    const matching = names.filter(definition => sameText(definition.name, name));
+    const local = sheetName === undefined ? undefined : matching.find(definition => definition.scope !== undefined && sameText(definition.scope, sheetName));
+    return local ?? matching.find(definition => definition.scope === undefined);
+}
+
+// References without a sheet in a sheet-local name point at that sheet;
+// names in it are already looked up from that sheet
+function qualifyReferences(node: FormulaNode, sheet: string): FormulaNode {
+    switch (node.type) {
+        case 'cell':
+        case 'range':
+        case 'spill':
+            return node.sheet === undefined ? { ...node, sheet } : node;
+        case 'unary':
+        case 'percent':
+            return { ...node, operand: qualifyReferences(node.operand, sheet) };
+        case 'binary':
+            return { ...node, left: qualifyReferences(node.left, sheet), right: qualifyReferences(node.right, sheet) };
+        case 'call':
+            return { ...node, args: node.args.map(arg => qualifyReferences(arg, sheet)) };
+        case 'invoke':
+            return { ...node, callee: qualifyReferences(node.callee, sheet), args: node.args.map(arg => qualifyReferences(arg, sheet)) };
+        default:
+            return node;
+    }
+}
+
+function parseDefinition(definition: NameDefinition): FormulaNode | null {
+    try {
+        const expression = parseFormula(definition.reference);
+        return definition.scope === undefined ? expression : qualifyReferences(expression, definition.scope);
+    } catch (error) {
+        if (error instanceof FormulaSyntaxError) return null;
+        throw error;
+    }
+}
+
+export function isLambdaNode(node: FormulaNode): boolean {
+    return node.type === 'call' && node.name === 'LAMBDA';
+}
+
+/**
+ * `bound` holds the LET and LAMBDA names in scope, which hide defined names;
+ * `expanding` the definitions being expanded, to catch self-reference.
+ */
+function expand(node: FormulaNode, names: NameDefinition[], sheetName: string | undefined, bound: string[], expanding: string[]): FormulaNode {
+    const visit = (child: FormulaNode, innerBound = bound) => expand(child, names, sheetName, innerBound, expanding);
+
+    switch (node.type) {
+        case 'name': {
+            if (node.sheet === undefined && bound.includes(node.name)) return node;
+            const definition = findName(names, node.name, node.sheet ?? sheetName);
+            const expression = definition && parseDefinition(definition);
+            if (!definition || !expression) return { type: 'error', code: '#NAME?' };
+
+            const key = `${definition.scope ?? ''}!${definition.name.toUpperCase()}`;
+            if (expanding.includes(key)) {
+                // A LAMBDA calling itself is looked up again each time it recurses
+                return isLambdaNode(expression) ? { ...node, sheet: node.sheet ?? sheetName } : { type: 'error', code: '#NAME?' };
+            }
+            // A definition does not see the LET and LAMBDA names around its use
+            return expand(expression, names, definition.scope ?? sheetName, [], [...expanding, key]);
+        }
+        case 'call': {
+            if (node.name === 'LET') {
+                // Each value sees the names bound before it; the calculation sees them all
+                const letBound = [...bound];
+                return {
+                    ...node,
+                    args: node.args.map((arg, i) => {
+                        if (i % 2 === 1 || i === node.args.length - 1) {
+                            const expanded = visit(arg, [...letBound]);
+                            const bindingName = node.args[i - 1];
+                            if (i % 2 === 1 && bindingName.type === 'name') letBound.push(bindingName.name);
+                            return expanded;
+                        }
+                        return arg;
+                    }),
+                };
+            }
+            if (node.name === 'LAMBDA') {
+                const params = node.args.slice(0, -1);
+                const lambdaBound = [...bound, ...params.flatMap(param => (param.type === 'name' ? [param.name] : []))];
+                return { ...node, args: [...params, ...node.args.slice(-1).map(body => visit(body, lambdaBound))] };
+            }
+            // A defined LAMBDA called like a function: VESTED(A2, B2)
+            if (!bound.includes(node.name)) {
+                const definition = findName(names, node.name, sheetName);
+                const expression = definition && parseDefinition(definition);
+                if (expression && isLambdaNode(expression)) {
+                    return { type: 'invoke', callee: visit({ type: 'name', name: node.name }), args: node.args.map(arg => visit(arg)) };
+                }
+            }
+            return { ...node, args: node.args.map(arg => visit(arg)) };
+        }
+        case 'invoke':
+            return { ...node, callee: visit(node.callee), args: node.args.map(arg => visit(arg)) };
+        case 'unary':
+        case 'percent':
+            return { ...node, operand: visit(node.operand) };
+        case 'binary':
+            return { ...node, left: visit(node.left), right: visit(node.right) };
+        default:
+            return node;
+    }
+}
+
+/**
+ * Replaces every defined name in a parsed formula with the expression it
+ * stands for, so that evaluation and dependency tracking only ever see cells
+ * and ranges. Unknown names, names whose definition does not parse and names
+ * defined in terms of themselves become #NAME?; names bound by LET and LAMBDA
+ * are left for the evaluator. A call to a name defined as a LAMBDA becomes an
+ * invocation of it, except where it recurses, which stays a name.
+ */
+export function expandNames(node: FormulaNode, names: NameDefinition[], sheetName?: string): FormulaNode {
+    return expand(node, names, sheetName, [], []);
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { tokenize, parseFormula, parseCellReference, formatCellReference, FormulaSyntaxError, MAX_NESTING_DEPTH } from './formulaParser';
+
+describe('tokenize', () => {
+    it('reads numbers, strings with doubled quotes and error literals', () => {
+        expect(tokenize('1.5e3 & "say ""hi""" & #N/A').map(token => [token.type, token.value])).toEqual([
+            ['number', '1.5e3'],
+            ['operator', '&'],
+            ['string', 'say "hi"'],
+            ['operator', '&'],
+            ['error', '#N/A'],
+        ]);
+    });
+
+    it('tells references, sheet prefixes and identifiers apart', () => {
+        expect(tokenize("'My Sheet'!$A$1+Sheet2!b2+log10(x)").map(token => [token.type, token.value])).toEqual([
+            ['sheet', 'My Sheet'],
+            ['cell', '$A$1'],
+            ['operator', '+'],
+            ['sheet', 'Sheet2'],
+            ['cell', 'B2'],
+            ['operator', '+'],
+            ['cell', 'LOG10'],
+            ['lparen', '('],
+            ['identifier', 'X'],
+            ['rparen', ')'],
+        ]);
+    });
+
+    it('reads # after a reference as the spill operator', () => {
+        expect(tokenize('A1#').map(token => token.type)).toEqual(['cell', 'spill']);
+    });
+
+    it('rejects characters outside the grammar', () => {
+        expect(() => tokenize('1 @ 2')).toThrow(FormulaSyntaxError);
+        expect(() => tokenize('"open')).toThrow('Unterminated string literal');
+    });
+});
+
+describe('parseFormula', () => {
+    it('follows Excel precedence', () => {
+        expect(parseFormula('=1+2*3^2')).toEqual({
+            type: 'binary',
+            operator: '+',
+            left: { type: 'number', value: 1, text: '1' },
+            right: {
+                type: 'binary',
+                operator: '*',
+                left: { type: 'number', value: 2, text: '2' },
+                right: { type: 'binary', operator: '^', left: { type: 'number', value: 3, text: '3' }, right: { type: 'number', value: 2, text: '2' } },
+            },
+        });
+    });
+
+    it('normalizes ranges to their top-left and bottom-right corners', () => {
+        expect(parseFormula('=Sheet2!B3:A1')).toMatchObject({
+            type: 'range',
+            start: { col: 0, row: 0 },
+            end: { col: 1, row: 2 },
+            sheet: 'Sheet2',
+        });
+    });
+
+    it('parses omitted arguments as empty', () => {
+        expect(parseFormula('=IF(A1,,1)')).toMatchObject({ type: 'call', name: 'IF', args: [{ type: 'cell' }, { type: 'empty' }, { type: 'number' }] });
+    });
+
+    it('parses a call on a call as invoke', () => {
+        expect(parseFormula('=LAMBDA(x,x+1)(2)')).toMatchObject({ type: 'invoke', callee: { type: 'call', name: 'LAMBDA' } });
+    });
+
+    it('parses array constants row by row', () => {
+        expect(parseFormula('={1,-2;"a",TRUE}')).toEqual({
+            type: 'array',
+            rows: [
+                [{ type: 'number', value: 1, text: '1' }, { type: 'number', value: -2, text: '-2' }],
+                [{ type: 'string', value: 'a' }, { type: 'boolean', value: true }],
+            ],
+        });
+    });
+
+    it('rejects array constants with references or ragged rows', () => {
+        expect(() => parseFormula('={A1,2}')).toThrow(FormulaSyntaxError);
+        expect(() => parseFormula('={1,2;3}')).toThrow('rows of different lengths');
+    });
+
+    it('turns references beyond the grid into #REF!', () => {
+        expect(parseFormula('=XFE1')).toEqual({ type: 'error', code: '#REF!' });
+    });
+
+    it('limits nesting', () => {
+        const nested = '('.repeat(MAX_NESTING_DEPTH + 1) + '1' + ')'.repeat(MAX_NESTING_DEPTH + 1);
+        expect(() => parseFormula(nested)).toThrow('nested more than');
+    });
+
+    it('reports unexpected tokens with their position', () => {
+        expect(() => parseFormula('=1+)')).toThrow("Unexpected ')' at position 2");
+    });
+});
+
+describe('cell references', () => {
+    it('round-trip through parse and format', () => {
+        expect(parseCellReference('$AB$12')).toEqual({ col: 27, row: 11, colAbsolute: true, rowAbsolute: true });
+        expect(formatCellReference({ col: 27, row: 11 })).toBe('AB12');
+        expect(parseCellReference('A0')).toBeNull();
+    });
+});
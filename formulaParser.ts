@@ -0,0 +1,576 @@
+export type TokenType =
+    | 'number'
+    | 'string'
+    | 'identifier'
+    | 'cell'
+    | 'sheet'
+    | 'error'
+    | 'operator'
+    | 'lparen'
+    | 'rparen'
+    | 'comma'
+    | 'colon'
+    | 'spill'
+    | 'lbrace'
+    | 'rbrace'
+    | 'semicolon';
+
+export interface Token {
+    type: TokenType;
+    value: string;
+    position: number;
+}
+
+export interface CellReference {
+    col: number;
+    row: number;
+    // Set for $A / $1 parts, which stay fixed when a formula is copied
+    colAbsolute?: boolean;
+    rowAbsolute?: boolean;
+}
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '^' | '&' | '=' | '<>' | '<' | '>' | '<=' | '>=';
+
+export type FormulaNode =
+    // `text` is the literal as written, for exact arithmetic
+    | { type: 'number'; value: number; text?: string }
+    | { type: 'string'; value: string }
+    | { type: 'boolean'; value: boolean }
+    | { type: 'error'; code: string }
+    | { type: 'empty' }
+    | { type: 'cell'; ref: CellReference; sheet?: string }
+    | { type: 'range'; start: CellReference; end: CellReference; sheet?: string }
+    // An array constant such as {1,2;3,4}: rows of number, string, boolean and error literals
+    | { type: 'array'; rows: FormulaNode[][] }
+    // A1#: the whole array spilled by the formula in A1
+    | { type: 'spill'; ref: CellReference; sheet?: string }
+    // A defined name such as TaxRate, optionally qualified by the sheet it is local to
+    | { type: 'name'; name: string; sheet?: string }
+    | { type: 'unary'; operator: '+' | '-'; operand: FormulaNode }
+    | { type: 'percent'; operand: FormulaNode }
+    | { type: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+    | { type: 'call'; name: string; args: FormulaNode[] }
+    // Calling the function another expression evaluates to: LAMBDA(x, x + 1)(2)
+    | { type: 'invoke'; callee: FormulaNode; args: FormulaNode[] };
+
+export class FormulaSyntaxError extends Error {
+    constructor(message: string, public position: number) {
+        super(message);
+        this.name = 'FormulaSyntaxError';
+    }
+}
+
+// Excel's limits on formula size, function nesting and grid extent
+export const MAX_FORMULA_LENGTH = 8192;
+export const MAX_NESTING_DEPTH = 64;
+export const MAX_ROWS = 1048576;
+export const MAX_COLS = 16384;
+
+const ERROR_LITERALS = ['#DIV/0!', '#N/A', '#NAME?', '#NULL!', '#NUM!', '#REF!', '#VALUE!', '#SPILL!', '#CALC!'];
+
+const COMPARISON_OPERATORS = ['=', '<>', '<', '>', '<=', '>='];
+
+export function parseCellReference(ref: string): CellReference | null {
+    const match = ref.toUpperCase().match(/^(\$?)([A-Z]+)(\$?)(\d+)$/);
+    if (!match) return null;
+
+    const colStr = match[2];
+    const rowStr = match[4];
+
+    let col = 0;
+    for (let i = 0; i < colStr.length; i++) {
+        col = col * 26 + (colStr.charCodeAt(i) - 64);
+    }
+    col -= 1;
+
+    const row = parseInt(rowStr) - 1;
+    if (row < 0 || row >= MAX_ROWS || col >= MAX_COLS) return null;
+
+    const result: CellReference = { col, row };
+    if (match[1]) result.colAbsolute = true;
+    if (match[3]) result.rowAbsolute = true;
+    return result;
+}
+
+export function getColumnLabel(index: number): string {
+    let label = '';
+    let num = index;
+    while (num >= 0) {
+        label = String.fromCharCode(65 + (num % 26)) + label;
+        num = Math.floor(num / 26) - 1;
+    }
+    return label;
+}
+
+/**
+ * Formats a reference as a plain cell id (A1), ignoring $ markers.
+ */
+export function formatCellReference(ref: CellReference): string {
+    return `${getColumnLabel(ref.col)}${ref.row + 1}`;
+}
+
+/**
+ * Formats a reference as formula text, keeping $ markers ($A$1, A$1, $A1).
+ */
+export function formatReferenceText(ref: CellReference): string {
+    return `${ref.colAbsolute ? '$' : ''}${getColumnLabel(ref.col)}${ref.rowAbsolute ? '$' : ''}${ref.row + 1}`;
+}
+
+/**
+ * Formats a sheet name as the prefix of a reference, quoting it ('My Sheet'!)
+ * unless it reads as a plain word.
+ */
+export function formatSheetPrefix(sheetName: string): string {
+    if (/^[A-Za-z_][A-Za-z0-9_.]*$/.test(sheetName)) return `${sheetName}!`;
+    return `'${sheetName.replace(/'/g, "''")}'!`;
+}
+
+/**
+ * Splits a formula expression (without the leading '=') into tokens.
+ * Identifiers are upper-cased; string literals keep their original case.
+ */
+export function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+        const char = expression[i];
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        // Number literal: 12, 1.5, .5, 1e10
+        const numberMatch = expression.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+        if (numberMatch) {
+            tokens.push({ type: 'number', value: numberMatch[0], position: i });
+            i += numberMatch[0].length;
+            continue;
+        }
+
+        // String literal with "" as an escaped quote
+        if (char === '"') {
+            let value = '';
+            let j = i + 1;
+            while (true) {
+                if (j >= expression.length) {
+                    throw new FormulaSyntaxError('Unterminated string literal', i);
+                }
+                if (expression[j] === '"') {
+                    if (expression[j + 1] === '"') {
+                        value += '"';
+                        j += 2;
+                        continue;
+                    }
+                    break;
+                }
+                value += expression[j];
+                j++;
+            }
+            tokens.push({ type: 'string', value, position: i });
+            i = j + 1;
+            continue;
+        }
+
+        // Spill operator directly after a reference: A1#
+        const previous = tokens[tokens.length - 1];
+        if (char === '#' && previous?.type === 'cell' && previous.position + previous.value.length === i) {
+            tokens.push({ type: 'spill', value: char, position: i });
+            i++;
+            continue;
+        }
+
+        // Error literal such as #N/A or #DIV/0!
+        if (char === '#') {
+            const upper = expression.slice(i).toUpperCase();
+            const literal = ERROR_LITERALS.find(error => upper.startsWith(error));
+            if (!literal) {
+                throw new FormulaSyntaxError(`Unknown error literal at position ${i}`, i);
+            }
+            tokens.push({ type: 'error', value: literal, position: i });
+            i += literal.length;
+            continue;
+        }
+
+        // Quoted sheet prefix such as 'My Sheet'! with '' as an escaped quote
+        if (char === "'") {
+            let name = '';
+            let j = i + 1;
+            while (true) {
+                if (j >= expression.length) {
+                    throw new FormulaSyntaxError('Unterminated sheet name', i);
+                }
+                if (expression[j] === "'") {
+                    if (expression[j + 1] === "'") {
+                        name += "'";
+                        j += 2;
+                        continue;
+                    }
+                    break;
+                }
+                name += expression[j];
+                j++;
+            }
+            if (expression[j + 1] !== '!') {
+                throw new FormulaSyntaxError(`Expected '!' after sheet name at position ${j + 1}`, j + 1);
+            }
+            tokens.push({ type: 'sheet', value: name, position: i });
+            i = j + 2;
+            continue;
+        }
+
+        // Absolute or mixed reference: $A$1, $A1, A$1
+        const absoluteMatch = expression.slice(i).match(/^\$?[A-Za-z]{1,3}\$?\d+(?![A-Za-z0-9_.])/);
+        if (absoluteMatch && absoluteMatch[0].includes('$')) {
+            tokens.push({ type: 'cell', value: absoluteMatch[0].toUpperCase(), position: i });
+            i += absoluteMatch[0].length;
+            continue;
+        }
+
+        // Cell reference, unquoted sheet prefix (Sheet2!) or identifier (function name, TRUE/FALSE)
+        const wordMatch = expression.slice(i).match(/^[A-Za-z_][A-Za-z0-9_.]*/);
+        if (wordMatch && expression[i + wordMatch[0].length] === '!') {
+            tokens.push({ type: 'sheet', value: wordMatch[0], position: i });
+            i += wordMatch[0].length + 1;
+            continue;
+        }
+        if (wordMatch) {
+            const word = wordMatch[0].toUpperCase();
+            const type: TokenType = /^[A-Z]{1,3}\d+$/.test(word) ? 'cell' : 'identifier';
+            tokens.push({ type, value: word, position: i });
+            i += wordMatch[0].length;
+            continue;
+        }
+
+        const twoChars = expression.slice(i, i + 2);
+        if (twoChars === '<>' || twoChars === '<=' || twoChars === '>=') {
+            tokens.push({ type: 'operator', value: twoChars, position: i });
+            i += 2;
+            continue;
+        }
+
+        if ('+-*/^&=<>%'.includes(char)) {
+            tokens.push({ type: 'operator', value: char, position: i });
+            i++;
+            continue;
+        }
+
+        if (char === '(') {
+            tokens.push({ type: 'lparen', value: char, position: i });
+        } else if (char === ')') {
+            tokens.push({ type: 'rparen', value: char, position: i });
+        } else if (char === ',') {
+            tokens.push({ type: 'comma', value: char, position: i });
+        } else if (char === ':') {
+            tokens.push({ type: 'colon', value: char, position: i });
+        } else if (char === '{') {
+            tokens.push({ type: 'lbrace', value: char, position: i });
+        } else if (char === '}') {
+            tokens.push({ type: 'rbrace', value: char, position: i });
+        } else if (char === ';') {
+            tokens.push({ type: 'semicolon', value: char, position: i });
+        } else {
+            throw new FormulaSyntaxError(`Unexpected character '${char}' at position ${i}`, i);
+        }
+        i++;
+    }
+
+    return tokens;
+}
+
+/**
+ * Recursive-descent parser producing a FormulaNode tree.
+ * Precedence from loosest to tightest follows Excel:
+ * comparison, &, + -, * /, ^, %, unary minus, range (:).
+ * A sheet prefix applies to the whole reference, so Sheet2!A1:B3 is one range.
+ * Array constants in braces hold literals only, as in Excel: {1,2;3,4}.
+ */
+class Parser {
+    private index = 0;
+    private depth = 0;
+
+    constructor(private tokens: Token[], private source: string) {}
+
+    parse(): FormulaNode {
+        const node = this.parseComparison();
+        const token = this.peek();
+        if (token) {
+            throw new FormulaSyntaxError(`Unexpected '${token.value}' at position ${token.position}`, token.position);
+        }
+        return node;
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.index++];
+        if (!token) {
+            throw new FormulaSyntaxError('Unexpected end of formula', this.source.length);
+        }
+        return token;
+    }
+
+    private isOperator(...operators: string[]): boolean {
+        const token = this.peek();
+        return !!token && token.type === 'operator' && operators.includes(token.value);
+    }
+
+    private expect(type: TokenType): Token {
+        const token = this.next();
+        if (token.type !== type) {
+            throw new FormulaSyntaxError(`Unexpected '${token.value}' at position ${token.position}`, token.position);
+        }
+        return token;
+    }
+
+    private parseComparison(): FormulaNode {
+        let left = this.parseConcat();
+        while (this.isOperator(...COMPARISON_OPERATORS)) {
+            const operator = this.next().value as BinaryOperator;
+            const right = this.parseConcat();
+            left = { type: 'binary', operator, left, right };
+        }
+        return left;
+    }
+
+    private parseConcat(): FormulaNode {
+        let left = this.parseAdditive();
+        while (this.isOperator('&')) {
+            this.next();
+            const right = this.parseAdditive();
+            left = { type: 'binary', operator: '&', left, right };
+        }
+        return left;
+    }
+
+    private parseAdditive(): FormulaNode {
+        let left = this.parseMultiplicative();
+        while (this.isOperator('+', '-')) {
+            const operator = this.next().value as BinaryOperator;
+            const right = this.parseMultiplicative();
+            left = { type: 'binary', operator, left, right };
+        }
+        return left;
+    }
+
+    private parseMultiplicative(): FormulaNode {
+        let left = this.parsePower();
+        while (this.isOperator('*', '/')) {
+            const operator = this.next().value as BinaryOperator;
+            const right = this.parsePower();
+            left = { type: 'binary', operator, left, right };
+        }
+        return left;
+    }
+
+    private parsePower(): FormulaNode {
+        let left = this.parsePercent();
+        while (this.isOperator('^')) {
+            this.next();
+            const right = this.parsePercent();
+            left = { type: 'binary', operator: '^', left, right };
+        }
+        return left;
+    }
+
+    private parsePercent(): FormulaNode {
+        let operand = this.parseUnary();
+        while (this.isOperator('%')) {
+            this.next();
+            operand = { type: 'percent', operand };
+        }
+        return operand;
+    }
+
+    private enter(position: number) {
+        if (++this.depth > MAX_NESTING_DEPTH) {
+            throw new FormulaSyntaxError(`Formula nested more than ${MAX_NESTING_DEPTH} levels deep`, position);
+        }
+    }
+
+    private parseUnary(): FormulaNode {
+        if (this.isOperator('+', '-')) {
+            const token = this.next();
+            this.enter(token.position);
+            const operand = this.parseUnary();
+            this.depth--;
+            return { type: 'unary', operator: token.value as '+' | '-', operand };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): FormulaNode {
+        const token = this.next();
+
+        switch (token.type) {
+            case 'number':
+                return { type: 'number', value: parseFloat(token.value), text: token.value };
+            case 'string':
+                return { type: 'string', value: token.value };
+            case 'error':
+                return { type: 'error', code: token.value };
+            case 'lparen': {
+                this.enter(token.position);
+                const node = this.parseComparison();
+                this.expect('rparen');
+                this.depth--;
+                return node;
+            }
+            case 'lbrace':
+                return this.parseArray(token);
+            case 'cell':
+                // Names like LOG10 look like references but are function calls
+                if (this.peek()?.type === 'lparen') {
+                    return this.parseCall(token.value);
+                }
+                return this.parseReference(token);
+            case 'sheet':
+                if (this.peek()?.type === 'identifier') {
+                    return { type: 'name', name: this.next().value, sheet: token.value };
+                }
+                return this.parseReference(this.expect('cell'), token.value);
+            case 'identifier': {
+                if (this.peek()?.type === 'lparen') {
+                    return this.parseCall(token.value);
+                }
+                if (token.value === 'TRUE' || token.value === 'FALSE') {
+                    return { type: 'boolean', value: token.value === 'TRUE' };
+                }
+                return { type: 'name', name: token.value };
+            }
+            default:
+                throw new FormulaSyntaxError(`Unexpected '${token.value}' at position ${token.position}`, token.position);
+        }
+    }
+
+    // Columns are separated by ',' and rows by ';'; every row needs as many columns as the first
+    private parseArray(open: Token): FormulaNode {
+        const rows: FormulaNode[][] = [[]];
+        while (true) {
+            rows[rows.length - 1].push(this.parseArrayConstant());
+            const separator = this.next();
+            if (separator.type === 'rbrace') break;
+            if (separator.type === 'semicolon') {
+                rows.push([]);
+            } else if (separator.type !== 'comma') {
+                throw new FormulaSyntaxError(`Expected ',', ';' or '}' at position ${separator.position}`, separator.position);
+            }
+        }
+        if (rows.some(row => row.length !== rows[0].length)) {
+            throw new FormulaSyntaxError(`Array constant at position ${open.position} has rows of different lengths`, open.position);
+        }
+        return { type: 'array', rows };
+    }
+
+    private parseArrayConstant(): FormulaNode {
+        const token = this.next();
+        if (token.type === 'operator' && (token.value === '-' || token.value === '+')) {
+            const number = this.expect('number');
+            const text = token.value === '-' ? `-${number.value}` : number.value;
+            return { type: 'number', value: parseFloat(text), text };
+        }
+        switch (token.type) {
+            case 'number':
+                return { type: 'number', value: parseFloat(token.value), text: token.value };
+            case 'string':
+                return { type: 'string', value: token.value };
+            case 'error':
+                return { type: 'error', code: token.value };
+            case 'identifier':
+                if (token.value === 'TRUE' || token.value === 'FALSE') {
+                    return { type: 'boolean', value: token.value === 'TRUE' };
+                }
+                break;
+        }
+        throw new FormulaSyntaxError(`Array constants may only hold numbers, text, TRUE, FALSE and errors (position ${token.position})`, token.position);
+    }
+
+    private parseReference(token: Token, sheet?: string): FormulaNode {
+        const start = parseCellReference(token.value);
+        let end: CellReference | null | undefined;
+        if (this.peek()?.type === 'colon') {
+            this.next();
+            end = parseCellReference(this.expect('cell').value);
+        }
+
+        // References beyond the grid evaluate to #REF! rather than failing to parse
+        if (!start || end === null) {
+            return { type: 'error', code: '#REF!' };
+        }
+        if (!end && this.peek()?.type === 'spill') {
+            this.next();
+            return { type: 'spill', ref: start, sheet };
+        }
+        if (!end) {
+            return { type: 'cell', ref: start, sheet };
+        }
+
+        // Normalize so that start is always the top-left corner
+        const [top, bottom] = start.row <= end.row ? [start, end] : [end, start];
+        const [left, right] = start.col <= end.col ? [start, end] : [end, start];
+        return {
+            type: 'range',
+            start: { col: left.col, row: top.row, colAbsolute: left.colAbsolute, rowAbsolute: top.rowAbsolute },
+            end: { col: right.col, row: bottom.row, colAbsolute: right.colAbsolute, rowAbsolute: bottom.rowAbsolute },
+            sheet,
+        };
+    }
+
+    private parseCall(name: string): FormulaNode {
+        let node: FormulaNode = { type: 'call', name, args: this.parseArguments() };
+        while (this.peek()?.type === 'lparen') {
+            node = { type: 'invoke', callee: node, args: this.parseArguments() };
+        }
+        return node;
+    }
+
+    private parseArguments(): FormulaNode[] {
+        this.enter(this.expect('lparen').position);
+        const args: FormulaNode[] = [];
+
+        if (this.peek()?.type === 'rparen') {
+            this.next();
+            this.depth--;
+            return args;
+        }
+
+        while (true) {
+            // An omitted argument such as IF(A1,,1) evaluates as empty
+            const token = this.peek();
+            if (token?.type === 'comma' || token?.type === 'rparen') {
+                args.push({ type: 'empty' });
+            } else {
+                args.push(this.parseComparison());
+            }
+
+            const separator = this.next();
+            if (separator.type === 'rparen') break;
+            if (separator.type !== 'comma') {
+                throw new FormulaSyntaxError(`Expected ',' or ')' at position ${separator.position}`, separator.position);
+            }
+        }
+
+        this.depth--;
+        return args;
+    }
+}
+
+/**
+ * Parses a formula. Accepts the text with or without its leading '='.
+ * Only the grammar above is accepted: any other character is a syntax error,
+ * never something to strip or pass through.
+ */
+export function parseFormula(formula: string): FormulaNode {
+    if (formula.length > MAX_FORMULA_LENGTH) {
+        throw new FormulaSyntaxError(`Formula longer than ${MAX_FORMULA_LENGTH} characters`, MAX_FORMULA_LENGTH);
+    }
+    const expression = formula.startsWith('=') ? formula.substring(1) : formula;
+    const tokens = tokenize(expression);
+    if (tokens.length === 0) {
+        throw new FormulaSyntaxError('Empty formula', 0);
+    }
+    return new Parser(tokens, expression).parse();
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { shiftFormulaReferences, retargetFormulaReferences } from './formulaReferences';
+
+describe('shiftFormulaReferences', () => {
+    it('moves relative parts and keeps $-anchored ones', () => {
+        expect(shiftFormulaReferences('=A1+$A1+A$1+$A$1', 2, 1)).toBe('=B3+$A3+B$1+$A$1');
+    });
+
+    it('shifts both corners of a range', () => {
+        expect(shiftFormulaReferences('=SUM(A1:B2)', 1, 0)).toBe('=SUM(A2:B3)');
+    });
+
+    it('turns references shifted off the grid into #REF!', () => {
+        expect(shiftFormulaReferences('=A1+SUM(A1:A3)', -1, 0)).toBe('=#REF!+SUM(#REF!)');
+    });
+
+    it('leaves strings and function names alone', () => {
+        expect(shiftFormulaReferences('=LOG10(A1)&"A1"', 1, 0)).toBe('=LOG10(A2)&"A1"');
+    });
+});
+
+describe('retargetFormulaReferences', () => {
+    it('points references at a moved cell to its new place', () => {
+        expect(retargetFormulaReferences('=A1*2+$A$1', 'A1', 'C5')).toBe('=C5*2+$C$5');
+    });
+
+    it('moves a range only when the whole range moved', () => {
+        expect(retargetFormulaReferences('=SUM(A1:A3)+A1+A1:A1', 'A1', 'C5')).toBe('=SUM(A1:A3)+C5+C5:C5');
+    });
+
+    it('follows unqualified references only on the sheet the cell moved on', () => {
+        expect(retargetFormulaReferences('=A1+Sheet2!A1', 'A1', 'B1', 'Sheet2', 'Sheet1')).toBe('=A1+Sheet2!B1');
+        expect(retargetFormulaReferences('=A1+sheet2!A1', 'A1', 'B1', 'Sheet2')).toBe('=B1+sheet2!B1');
+    });
+});
@@ -0,0 +1,111 @@
+import { tokenize, parseCellReference, formatReferenceText, MAX_ROWS, MAX_COLS } from './formulaParser';
+import type { CellReference } from './formulaParser';
+
+interface TextEdit {
+    start: number;
+    end: number;
+    text: string;
+}
+
+/**
+ * Rewrites every cell and range reference in a formula's text while leaving
+ * everything else (spacing, string literals, function names) untouched.
+ * `rewrite` gets a reference's cells, one for a cell and both corners of a
+ * range, and returns them rewritten, or null to turn the reference into #REF!.
+ */
+function rewriteReferences(
+    formula: string,
+    rewrite: (refs: CellReference[], sheet: string | undefined) => CellReference[] | null
+): string {
+    if (!formula.startsWith('=')) return formula;
+
+    const expression = formula.substring(1);
+    let tokens;
+    try {
+        tokens = tokenize(expression);
+    } catch {
+        return formula;
+    }
+
+    const edits: TextEdit[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        // Names like LOG10( look like references but are function calls
+        if (token.type !== 'cell' || tokens[i + 1]?.type === 'lparen') continue;
+
+        const sheetToken = tokens[i - 1]?.type === 'sheet' ? tokens[i - 1] : undefined;
+        const isRange = tokens[i + 1]?.type === 'colon' && tokens[i + 2]?.type === 'cell';
+        const endToken = isRange ? tokens[i + 2] : token;
+
+        const parsed = (isRange ? [token, endToken] : [token]).map(refToken => parseCellReference(refToken.value));
+        const refs = parsed.every(ref => ref !== null) ? rewrite(parsed as CellReference[], sheetToken?.value) : null;
+        const end = endToken.position + endToken.value.length;
+
+        if (refs === null) {
+            edits.push({ start: sheetToken ? sheetToken.position : token.position, end, text: '#REF!' });
+        } else {
+            edits.push({ start: token.position, end, text: refs.map(formatReferenceText).join(':') });
+        }
+
+        if (isRange) i += 2;
+    }
+
+    let result = expression;
+    for (let i = edits.length - 1; i >= 0; i--) {
+        const edit = edits[i];
+        result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    }
+    return `=${result}`;
+}
+
+/**
+ * Shifts the relative parts of every reference by the given offset, as Excel
+ * does when a formula is copied, pasted or filled. $-anchored parts stay put.
+ */
+export function shiftFormulaReferences(formula: string, rowOffset: number, colOffset: number): string {
+    if (rowOffset === 0 && colOffset === 0) return formula;
+
+    return rewriteReferences(formula, refs => {
+        const shifted = refs.map(ref => ({
+            ...ref,
+            row: ref.rowAbsolute ? ref.row : ref.row + rowOffset,
+            col: ref.colAbsolute ? ref.col : ref.col + colOffset,
+        }));
+        // Shifted off the grid becomes #REF!
+        if (shifted.some(ref => ref.row < 0 || ref.col < 0 || ref.row >= MAX_ROWS || ref.col >= MAX_COLS)) return null;
+        return shifted;
+    });
+}
+
+/**
+ * Points references at a moved cell to its new location, keeping their $ markers.
+ * As in Excel, a range follows only when all of it moved, so A1:A3 stays put when A1 moves.
+ * `sheetName` is the sheet the cell moved on and `formulaSheetName` the one holding
+ * the formula; unqualified references follow the move only on that same sheet.
+ * Without a sheet name only unqualified references are followed.
+ */
+export function retargetFormulaReferences(
+    formula: string,
+    fromCellId: string,
+    toCellId: string,
+    sheetName?: string,
+    formulaSheetName = sheetName
+): string {
+    const from = parseCellReference(fromCellId);
+    const to = parseCellReference(toCellId);
+    if (!from || !to) return formula;
+
+    // Sheet names match regardless of case, like in Excel
+    const onMovedSheet = (sheet: string | undefined) =>
+        sheet === undefined
+            ? formulaSheetName?.toUpperCase() === sheetName?.toUpperCase()
+            : sheet.toUpperCase() === sheetName?.toUpperCase();
+
+    let changed = false;
+    const result = rewriteReferences(formula, (refs, sheet) => {
+        if (!onMovedSheet(sheet) || refs.some(ref => ref.row !== from.row || ref.col !== from.col)) return refs;
+        changed = true;
+        return refs.map(ref => ({ ...ref, row: to.row, col: to.col }));
+    });
+    return changed ? result : formula;
+}
@@ -0,0 +1,366 @@
+import type { FormulaValue } from './formulaValues';
+
+/**
+ * How an argument of a registered function is evaluated before it is passed
+ * on: 'number', 'text' and 'boolean' convert a single value the way SUM or LEN
+ * would, failing with #VALUE! for arrays; 'array' always gives a 2D array, a
+ * single value as 1x1; 'any' passes the value as is, errors included; a
+ * 'lambda' argument comes as a function to call.
+ */
+export type ArgumentType = 'number' | 'text' | 'boolean' | 'array' | 'any' | 'lambda';
+
+export interface ArgumentSpec {
+    name: string;
+    type: ArgumentType;
+    optional?: boolean;
+    // The last argument may be given any number of times, like SUM's numbers
+    repeating?: boolean;
+}
+
+export type FunctionCategory =
+    | 'Math'
+    | 'Statistical'
+    | 'Conditional'
+    | 'Text'
+    | 'Date & Time'
+    | 'Financial'
+    | 'Logical'
+    | 'Information'
+    | 'Lookup & Reference'
+    | 'Web3'
+    | 'Custom';
+
+/**
+ * What the Formulas tab, autocomplete and argument hints know about a function.
+ */
+export interface FunctionInfo {
+    name: string;
+    category: FunctionCategory;
+    description: string;
+    args: ArgumentSpec[];
+    // Recalculated whenever anything is, as its result can change without its inputs changing
+    volatile?: boolean;
+    // Other names the function answers to, such as STDEV for STDEV.S
+    aliases?: string[];
+    // The function pack it came from; built-in functions have none
+    pack?: string;
+}
+
+export type LambdaArgument = (...values: FormulaValue[]) => FormulaValue;
+export type ArgumentValue = FormulaValue | LambdaArgument | undefined;
+
+/**
+ * Where a custom function is being evaluated.
+ */
+export interface FunctionCallInfo {
+    cellId: string;
+    sheetName?: string;
+}
+
+/**
+ * A function added from outside the engine. The implementation gets one value
+ * per argument given, converted as its spec says (undefined for an omitted
+ * optional one), and returns a value or an array to spill. Throwing a
+ * FormulaError gives that error; any other exception gives #VALUE!.
+ */
+export interface CustomFunction extends Omit<FunctionInfo, 'category' | 'aliases'> {
+    category?: FunctionCategory;
+    implementation: (args: ArgumentValue[], call: FunctionCallInfo) => FormulaValue;
+}
+
+export interface FunctionPack {
+    name: string;
+    functions: CustomFunction[];
+}
+
+export class FunctionRegistrationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'FunctionRegistrationError';
+    }
+}
+
+/**
+ * Arguments written the way Excel's help shows them: "value, [decimals]" has
+ * an optional second argument and "number1, [number2], ..." repeats the one
+ * before the "...".
+ */
+function parseSignature(signature: string): ArgumentSpec[] {
+    const args: ArgumentSpec[] = [];
+    signature.split(', ').forEach(part => {
+        if (part === '') return;
+        if (part === '...') {
+            args[args.length - 1].repeating = true;
+            return;
+        }
+        const optional = part.startsWith('[');
+        const name = optional ? part.slice(1, -1) : part;
+        args.push({ name, type: name.endsWith('function') ? 'lambda' : 'any', ...(optional && { optional }) });
+    });
+    return args;
+}
+
+function builtIn(
+    category: FunctionCategory,
+    name: string,
+    signature: string,
+    description: string,
+    extra: Pick<FunctionInfo, 'volatile' | 'aliases'> = {}
+): FunctionInfo {
+    return { name, category, description, args: parseSignature(signature), ...extra };
+}
+
+// In the order the Formulas tab lists them. Built-in functions evaluate their own
+// arguments, so their specs only name them for argument hints
+const BUILT_IN_FUNCTIONS: FunctionInfo[] = [
+    builtIn('Math', 'SUM', 'number1, [number2], ...', 'Adds its arguments'),
+    builtIn('Math', 'AVERAGE', 'number1, [number2], ...', 'Returns the average of its arguments'),
+    builtIn('Math', 'MIN', 'number1, [number2], ...', 'Returns the smallest number'),
+    builtIn('Math', 'MAX', 'number1, [number2], ...', 'Returns the largest number'),
+    builtIn('Math', 'COUNT', 'value1, [value2], ...', 'Counts the numbers among its arguments'),
+    builtIn('Math', 'COUNTA', 'value1, [value2], ...', 'Counts the values that are not empty'),
+    builtIn('Math', 'ROUND', 'number, num_digits', 'Rounds a number to a number of digits'),
+    builtIn('Math', 'RAND', '', 'Returns a random number from 0 up to 1', { volatile: true }),
+    builtIn('Math', 'RANDBETWEEN', 'bottom, top', 'Returns a random whole number between two numbers', { volatile: true }),
+
+    builtIn('Statistical', 'MEDIAN', 'number1, [number2], ...', 'Returns the middle number'),
+    builtIn('Statistical', 'MODE.SNGL', 'number1, [number2], ...', 'Returns the most frequent number', { aliases: ['MODE'] }),
+    builtIn('Statistical', 'STDEV.S', 'number1, [number2], ...', 'Estimates standard deviation from a sample', { aliases: ['STDEV'] }),
+    builtIn('Statistical', 'STDEV.P', 'number1, [number2], ...', 'Standard deviation of an entire population', { aliases: ['STDEVP'] }),
+    builtIn('Statistical', 'VAR.S', 'number1, [number2], ...', 'Estimates variance from a sample', { aliases: ['VAR'] }),
+    builtIn('Statistical', 'VAR.P', 'number1, [number2], ...', 'Variance of an entire population', { aliases: ['VARP'] }),
+    builtIn('Statistical', 'PERCENTILE.INC', 'array, k', 'Returns the k-th percentile, k from 0 to 1 inclusive', { aliases: ['PERCENTILE'] }),
+    builtIn('Statistical', 'PERCENTILE.EXC', 'array, k', 'Returns the k-th percentile, k from 0 to 1 exclusive'),
+    builtIn('Statistical', 'QUARTILE.INC', 'array, quart', 'Returns a quartile, 0 to 4', { aliases: ['QUARTILE'] }),
+    builtIn('Statistical', 'QUARTILE.EXC', 'array, quart', 'Returns a quartile, 1 to 3, excluding the ends'),
+    builtIn('Statistical', 'RANK.EQ', 'number, ref, [order]', 'Ranks a number in a list; ties share the top rank', { aliases: ['RANK'] }),
+    builtIn('Statistical', 'RANK.AVG', 'number, ref, [order]', 'Ranks a number in a list; ties share the average rank'),
+    builtIn('Statistical', 'LARGE', 'array, k', 'Returns the k-th largest number'),
+    builtIn('Statistical', 'SMALL', 'array, k', 'Returns the k-th smallest number'),
+    builtIn('Statistical', 'CORREL', 'array1, array2', 'Returns the correlation coefficient of two data sets'),
+    builtIn('Statistical', 'SLOPE', 'known_ys, known_xs', 'Returns the slope of the linear regression line'),
+    builtIn('Statistical', 'INTERCEPT', 'known_ys, known_xs', 'Returns where the linear regression line crosses the y-axis'),
+    builtIn('Statistical', 'FORECAST.LINEAR', 'x, known_ys, known_xs', 'Predicts a value along a linear trend', { aliases: ['FORECAST'] }),
+
+    builtIn('Conditional', 'SUMIF', 'range, criteria, [sum_range]', 'Adds the cells that meet a condition'),
+    builtIn('Conditional', 'SUMIFS', 'sum_range, criteria_range1, criteria1, ...', 'Adds the cells that meet every condition'),
+    builtIn('Conditional', 'COUNTIF', 'range, criteria', 'Counts the cells that meet a condition'),
+    builtIn('Conditional', 'COUNTIFS', 'criteria_range1, criteria1, ...', 'Counts the cells that meet every condition'),
+    builtIn('Conditional', 'AVERAGEIF', 'range, criteria, [average_range]', 'Averages the cells that meet a condition'),
+    builtIn('Conditional', 'AVERAGEIFS', 'average_range, criteria_range1, criteria1, ...', 'Averages the cells that meet every condition'),
+    builtIn('Conditional', 'MAXIFS', 'max_range, criteria_range1, criteria1, ...', 'Largest of the cells that meet every condition'),
+    builtIn('Conditional', 'MINIFS', 'min_range, criteria_range1, criteria1, ...', 'Smallest of the cells that meet every condition'),
+
+    builtIn('Text', 'CONCAT', 'text1, [text2], ...', 'Joins texts together'),
+    builtIn('Text', 'TEXTJOIN', 'delimiter, ignore_empty, text1, [text2], ...', 'Joins texts with a delimiter between them'),
+    builtIn('Text', 'TEXT', 'value, format_text', 'Formats a number as text with a format code'),
+    builtIn('Text', 'LEN', 'text', 'Returns the number of characters in a text'),
+    builtIn('Text', 'UPPER', 'text', 'Converts text to uppercase'),
+    builtIn('Text', 'LOWER', 'text', 'Converts text to lowercase'),
+    builtIn('Text', 'LEFT', 'text, [num_chars]', 'Returns the first characters of a text'),
+    builtIn('Text', 'RIGHT', 'text, [num_chars]', 'Returns the last characters of a text'),
+    builtIn('Text', 'MID', 'text, start_num, num_chars', 'Returns characters from the middle of a text'),
+    builtIn('Text', 'FIND', 'find_text, within_text, [start_num]', 'Finds one text in another, matching case'),
+    builtIn('Text', 'SEARCH', 'find_text, within_text, [start_num]', 'Finds one text in another, ignoring case and allowing wildcards'),
+    builtIn('Text', 'SUBSTITUTE', 'text, old_text, new_text, [instance_num]', 'Replaces occurrences of a text'),
+    builtIn('Text', 'TRIM', 'text', 'Removes extra spaces'),
+    builtIn('Text', 'TEXTSPLIT', 'text, col_delimiter, [row_delimiter], [ignore_empty], [match_mode], [pad_with]', 'Splits text into columns and rows'),
+    builtIn('Text', 'REGEXMATCH', 'text, pattern, [case_sensitivity]', 'Checks whether a text matches a regular expression', { aliases: ['REGEXTEST'] }),
+    builtIn('Text', 'REGEXEXTRACT', 'text, pattern, [return_mode], [case_sensitivity]', 'Extracts the text matching a regular expression'),
+    builtIn('Text', 'REGEXREPLACE', 'text, pattern, replacement, [occurrence], [case_sensitivity]', 'Replaces the text matching a regular expression'),
+
+    builtIn('Financial', 'PMT', 'rate, nper, pv, [fv], [type]', 'Returns the periodic payment of a loan'),
+    builtIn('Financial', 'PV', 'rate, nper, pmt, [fv], [type]', 'Returns the present value of an investment'),
+    builtIn('Financial', 'FV', 'rate, nper, pmt, [pv], [type]', 'Returns the future value of an investment'),
+    builtIn('Financial', 'NPER', 'rate, pmt, pv, [fv], [type]', 'Returns the number of periods of an investment'),
+    builtIn('Financial', 'RATE', 'nper, pmt, pv, [fv], [type], [guess]', 'Returns the interest rate per period of an annuity'),
+    builtIn('Financial', 'NPV', 'rate, value1, [value2], ...', 'Returns the net present value of periodic cash flows'),
+    builtIn('Financial', 'IRR', 'values, [guess]', 'Returns the internal rate of return of periodic cash flows'),
+    builtIn('Financial', 'XNPV', 'rate, values, dates', 'Returns the net present value of dated cash flows'),
+    builtIn('Financial', 'XIRR', 'values, dates, [guess]', 'Returns the internal rate of return of dated cash flows'),
+
+    builtIn('Logical', 'IF', 'logical_test, value_if_true, [value_if_false]', 'Returns one value if a condition is TRUE and another if it is FALSE'),
+    builtIn('Logical', 'IFS', 'logical_test1, value_if_true1, ...', 'Returns the value of the first condition that is TRUE'),
+    builtIn('Logical', 'SWITCH', 'expression, value1, result1, ...', 'Returns the result matching the value of an expression'),
+    builtIn('Logical', 'AND', 'logical1, [logical2], ...', 'TRUE if all of its arguments are TRUE'),
+    builtIn('Logical', 'OR', 'logical1, [logical2], ...', 'TRUE if any of its arguments is TRUE'),
+    builtIn('Logical', 'XOR', 'logical1, [logical2], ...', 'TRUE if an odd number of its arguments are TRUE'),
+    builtIn('Logical', 'NOT', 'logical', 'Reverses TRUE and FALSE'),
+    builtIn('Logical', 'IFERROR', 'value, value_if_error', 'Returns another value if a value is an error'),
+    builtIn('Logical', 'IFNA', 'value, value_if_na', 'Returns another value if a value is #N/A'),
+    builtIn('Logical', 'LET', 'name1, value1, [name2], [value2], ..., calculation', 'Names values to use in a calculation'),
+    builtIn('Logical', 'LAMBDA', '[parameter1], ..., calculation', 'Creates a reusable function'),
+    builtIn('Logical', 'MAP', 'array1, ..., lambda_function', 'Applies a LAMBDA to each value of one or more arrays'),
+    builtIn('Logical', 'REDUCE', 'initial_value, array, lambda_function', 'Accumulates the values of an array with a LAMBDA'),
+    builtIn('Logical', 'BYROW', 'array, lambda_function', 'Applies a LAMBDA to each row of an array'),
+    builtIn('Logical', 'BYCOL', 'array, lambda_function', 'Applies a LAMBDA to each column of an array'),
+
+    builtIn('Information', 'ISBLANK', 'value', 'TRUE if the value is an empty cell'),
+    builtIn('Information', 'ISNUMBER', 'value', 'TRUE if the value is a number'),
+    builtIn('Information', 'ISTEXT', 'value', 'TRUE if the value is text'),
+    builtIn('Information', 'ISNONTEXT', 'value', 'TRUE if the value is not text'),
+    builtIn('Information', 'ISLOGICAL', 'value', 'TRUE if the value is TRUE or FALSE'),
+    builtIn('Information', 'ISERROR', 'value', 'TRUE if the value is any error'),
+    builtIn('Information', 'ISERR', 'value', 'TRUE if the value is an error other than #N/A'),
+    builtIn('Information', 'ISNA', 'value', 'TRUE if the value is #N/A'),
+    builtIn('Information', 'NA', '', 'Returns the #N/A error value'),
+    builtIn('Information', 'ISFORMULA', 'reference', 'TRUE if the cell holds a formula'),
+    builtIn('Information', 'TYPE', 'value', 'Returns the type of a value as a number'),
+
+    builtIn('Lookup & Reference', 'VLOOKUP', 'lookup_value, table_array, col_index_num, [range_lookup]', 'Looks up a value in the first column of a table'),
+    builtIn('Lookup & Reference', 'HLOOKUP', 'lookup_value, table_array, row_index_num, [range_lookup]', 'Looks up a value in the first row of a table'),
+    builtIn('Lookup & Reference', 'XLOOKUP', 'lookup_value, lookup_array, return_array, [if_not_found], [match_mode], [search_mode]', 'Looks up a value and returns the matching item'),
+    builtIn('Lookup & Reference', 'MATCH', 'lookup_value, lookup_array, [match_type]', 'Returns the position of a value in a list'),
+    builtIn('Lookup & Reference', 'INDEX', 'array, row_num, [column_num]', 'Returns the value at a row and column of an array'),
+    builtIn('Lookup & Reference', 'FILTER', 'array, include, [if_empty]', 'Keeps the rows or columns that meet a condition'),
+    builtIn('Lookup & Reference', 'SORT', 'array, [sort_index], [sort_order], [by_col]', 'Sorts the contents of an array'),
+    builtIn('Lookup & Reference', 'UNIQUE', 'array, [by_col], [exactly_once]', 'Returns the distinct rows or columns of an array'),
+    builtIn('Lookup & Reference', 'OFFSET', 'reference, rows, cols, [height], [width]', 'Returns a reference a number of rows and columns away', { volatile: true }),
+    builtIn('Lookup & Reference', 'INDIRECT', 'ref_text, [a1]', 'Returns the reference given as text', { volatile: true }),
+    builtIn('Lookup & Reference', 'SEQUENCE', 'rows, [columns], [start], [step]', 'Generates a sequence of numbers'),
+
+    builtIn('Date & Time', 'DATE', 'year, month, day', 'Returns the date for a year, month and day'),
+    builtIn('Date & Time', 'TODAY', '', "Returns today's date", { volatile: true }),
+    builtIn('Date & Time', 'NOW', '', 'Returns the current date and time', { volatile: true }),
+    builtIn('Date & Time', 'YEAR', 'serial_number', 'Returns the year of a date'),
+    builtIn('Date & Time', 'MONTH', 'serial_number', 'Returns the month of a date, 1 to 12'),
+    builtIn('Date & Time', 'DAY', 'serial_number', 'Returns the day of the month of a date'),
+    builtIn('Date & Time', 'WEEKDAY', 'serial_number, [return_type]', 'Returns the day of the week of a date'),
+    builtIn('Date & Time', 'EDATE', 'start_date, months', 'Returns the date a number of months away'),
+    builtIn('Date & Time', 'EOMONTH', 'start_date, months', 'Returns the last day of the month a number of months away'),
+    builtIn('Date & Time', 'NETWORKDAYS', 'start_date, end_date, [holidays]', 'Counts the working days between two dates'),
+    builtIn('Date & Time', 'WORKDAY', 'start_date, days, [holidays]', 'Returns the date a number of working days away'),
+    builtIn('Date & Time', 'DATEDIF', 'start_date, end_date, unit', 'Returns the difference between two dates in days, months or years'),
+
+    builtIn('Web3', 'TOWEI', 'amount, [unit]', 'Converts an amount of ether or a token to its smallest unit'),
+    builtIn('Web3', 'FROMWEI', 'amount, [unit]', 'Converts an amount in the smallest unit to ether or a token'),
+    builtIn('Web3', 'HEX2DEC', 'number', 'Converts hexadecimal of up to 256 bits to a number; ten digits without 0x are signed as in Excel'),
+    builtIn('Web3', 'DEC2HEX', 'number, [places]', 'Converts a number to hexadecimal of up to 256 bits'),
+    builtIn('Web3', 'KECCAK256', 'data', 'Returns the Keccak-256 hash of text or 0x-prefixed hex'),
+    builtIn('Web3', 'SHA256', 'data', 'Returns the SHA-256 hash of text or 0x-prefixed hex'),
+    builtIn('Web3', 'CHECKSUM_ADDRESS', 'address', 'Formats an Ethereum address with its EIP-55 checksum'),
+    builtIn('Web3', 'ISADDRESS', 'value', 'TRUE if the value is an Ethereum address with a valid checksum'),
+    builtIn('Web3', 'ISPRINCIPAL', 'value', 'TRUE if the value is a valid Internet Computer principal'),
+];
+
+const builtInNames = new Map<string, FunctionInfo>();
+BUILT_IN_FUNCTIONS.forEach(info => {
+    builtInNames.set(info.name, info);
+    info.aliases?.forEach(alias => builtInNames.set(alias, info));
+});
+
+const customFunctions = new Map<string, CustomFunction>();
+const listeners = new Set<() => void>();
+// Rebuilt on change so that listFunctions() returns the same array until then
+let functionList: FunctionInfo[] | null = null;
+
+function notifyListeners() {
+    functionList = null;
+    listeners.forEach(listener => listener());
+}
+
+export function getBuiltInFunctions(): FunctionInfo[] {
+    return BUILT_IN_FUNCTIONS;
+}
+
+/**
+ * Every function a formula can call, built-in ones first in menu order, then
+ * the registered ones by name. The array stays the same until a function is
+ * registered or unregistered.
+ */
+export function listFunctions(): FunctionInfo[] {
+    if (!functionList) {
+        const custom = Array.from(customFunctions.values())
+            .map(({ implementation: _implementation, ...info }): FunctionInfo => ({ ...info, category: info.category ?? 'Custom' }))
+            .sort((a, b) => a.name.localeCompare(b.name));
+        functionList = [...BUILT_IN_FUNCTIONS, ...custom];
+    }
+    return functionList;
+}
+
+/**
+ * Looks a function up by name or alias, ignoring case.
+ */
+export function getFunctionInfo(name: string): FunctionInfo | undefined {
+    const upper = name.toUpperCase();
+    return builtInNames.get(upper) ?? listFunctions().find(info => info.name === upper);
+}
+
+export function getCustomFunction(name: string): CustomFunction | undefined {
+    return customFunctions.get(name.toUpperCase());
+}
+
+/**
+ * Whether any custom function is registered. Their implementations live on the
+ * thread that registered them, so a worker cannot calculate formulas that call them.
+ */
+export function hasCustomFunctions(): boolean {
+    return customFunctions.size > 0;
+}
+
+export function isVolatileFunction(name: string): boolean {
+    return getFunctionInfo(name)?.volatile === true;
+}
+
+const FUNCTION_NAME = /^[A-Z_][A-Z0-9_.]*$/;
+
+function validateFunction(definition: CustomFunction) {
+    const name = definition.name;
+    if (!FUNCTION_NAME.test(name)) {
+        throw new FunctionRegistrationError(`${name} is not a valid function name; use uppercase letters, digits, underscores and periods`);
+    }
+    if (builtInNames.has(name)) throw new FunctionRegistrationError(`${name} is a built-in function`);
+    if (customFunctions.has(name)) throw new FunctionRegistrationError(`${name} is already registered`);
+
+    definition.args.forEach((arg, i) => {
+        const last = i === definition.args.length - 1;
+        if (arg.repeating && !last) throw new FunctionRegistrationError(`${name}: only the last argument can repeat`);
+        if (!arg.optional && definition.args.slice(0, i).some(earlier => earlier.optional)) {
+            throw new FunctionRegistrationError(`${name}: required argument ${arg.name} follows an optional one`);
+        }
+    });
+}
+
+/**
+ * Adds a function formulas can call. Names are uppercase and cannot take over
+ * a built-in function or one already registered. Returns a function that
+ * removes it again. Formulas already calculated pick it up on the next full
+ * recalculation, which the spreadsheet runs when the registry changes.
+ */
+export function registerFunction(definition: CustomFunction): () => void {
+    validateFunction(definition);
+    customFunctions.set(definition.name, definition);
+    notifyListeners();
+    return () => unregisterFunction(definition.name);
+}
+
+/**
+ * Registers every function of a pack, or none of them if any is invalid.
+ */
+export function registerFunctionPack(pack: FunctionPack): () => void {
+    const names = new Set<string>();
+    pack.functions.forEach(definition => {
+        validateFunction(definition);
+        if (names.has(definition.name)) throw new FunctionRegistrationError(`${definition.name} appears twice in ${pack.name}`);
+        names.add(definition.name);
+    });
+    pack.functions.forEach(definition => customFunctions.set(definition.name, { ...definition, pack: pack.name }));
+    notifyListeners();
+    return () => {
+        names.forEach(name => customFunctions.delete(name));
+        notifyListeners();
+    };
+}
+
+export function unregisterFunction(name: string) {
+    if (customFunctions.delete(name.toUpperCase())) notifyListeners();
+}
+
+/**
+ * Calls the listener whenever functions are registered or unregistered;
+ * returns a function that stops listening.
+ */
+export function subscribeToFunctions(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+}
@@ -0,0 +1,131 @@
+import { FormulaError, checkNumber } from './formulaValues';
+
+function mean(numbers: number[]): number {
+    if (numbers.length === 0) throw new FormulaError('#DIV/0!');
+    return checkNumber(numbers.reduce((acc, value) => acc + value, 0) / numbers.length);
+}
+
+/**
+ * Sample variance divides by n - 1 and needs at least two numbers;
+ * population variance divides by n.
+ */
+export function variance(numbers: number[], sample: boolean): number {
+    const count = sample ? numbers.length - 1 : numbers.length;
+    if (count < 1) throw new FormulaError('#DIV/0!');
+    const average = mean(numbers);
+    return checkNumber(numbers.reduce((acc, value) => acc + (value - average) ** 2, 0) / count);
+}
+
+function sorted(numbers: number[]): number[] {
+    return [...numbers].sort((a, b) => a - b);
+}
+
+export function median(numbers: number[]): number {
+    if (numbers.length === 0) throw new FormulaError('#NUM!');
+    const values = sorted(numbers);
+    const middle = Math.floor(values.length / 2);
+    return values.length % 2 === 1 ? values[middle] : (values[middle - 1] + values[middle]) / 2;
+}
+
+/**
+ * Most frequent number; among equally frequent ones the first to appear.
+ * #N/A when no number repeats.
+ */
+export function mode(numbers: number[]): number {
+    const counts = new Map<number, number>();
+    numbers.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+
+    let best: number | null = null;
+    let bestCount = 1;
+    counts.forEach((count, value) => {
+        if (count > bestCount) {
+            best = value;
+            bestCount = count;
+        }
+    });
+    if (best === null) throw new FormulaError('#N/A');
+    return best;
+}
+
+// Linear interpolation at a 1-based, possibly fractional position in sorted values
+function interpolate(values: number[], position: number): number {
+    const lower = Math.floor(position);
+    const fraction = position - lower;
+    if (fraction === 0) return values[lower - 1];
+    return values[lower - 1] + fraction * (values[lower] - values[lower - 1]);
+}
+
+/**
+ * PERCENTILE.INC treats the smallest and largest values as the 0th and 100th
+ * percentiles; PERCENTILE.EXC only allows k strictly between the ranks
+ * 1/(n+1) and n/(n+1).
+ */
+export function percentile(numbers: number[], k: number, exclusive: boolean): number {
+    if (numbers.length === 0) throw new FormulaError('#NUM!');
+    const values = sorted(numbers);
+
+    if (!exclusive) {
+        if (k < 0 || k > 1) throw new FormulaError('#NUM!');
+        return interpolate(values, 1 + k * (values.length - 1));
+    }
+
+    const position = k * (values.length + 1);
+    if (k <= 0 || k >= 1 || position < 1 || position > values.length) throw new FormulaError('#NUM!');
+    return interpolate(values, position);
+}
+
+/**
+ * The k-th largest (or smallest) number, counting from 1.
+ */
+export function kthValue(numbers: number[], k: number, largest: boolean): number {
+    if (k < 1 || k > numbers.length) throw new FormulaError('#NUM!');
+    const values = sorted(numbers);
+    return largest ? values[values.length - k] : values[k - 1];
+}
+
+/**
+ * Rank of a number within a list, 1 for the largest (or, ascending, the
+ * smallest). Ties share the best rank, or with `average` the mean of the
+ * ranks they span.
+ */
+export function rank(value: number, numbers: number[], ascending: boolean, average: boolean): number {
+    const ahead = numbers.filter(other => (ascending ? other < value : other > value)).length;
+    const ties = numbers.filter(other => other === value).length;
+    if (ties === 0) throw new FormulaError('#N/A');
+    return average ? ahead + (ties + 1) / 2 : ahead + 1;
+}
+
+/**
+ * Sums of squares and products of paired samples, shared by CORREL, SLOPE
+ * and INTERCEPT.
+ */
+function pairedMoments(xs: number[], ys: number[]) {
+    if (xs.length === 0) throw new FormulaError('#DIV/0!');
+    const meanX = mean(xs);
+    const meanY = mean(ys);
+    let sxx = 0;
+    let syy = 0;
+    let sxy = 0;
+    xs.forEach((x, i) => {
+        sxx += (x - meanX) ** 2;
+        syy += (ys[i] - meanY) ** 2;
+        sxy += (x - meanX) * (ys[i] - meanY);
+    });
+    return { meanX, meanY, sxx, syy, sxy };
+}
+
+export function correlation(xs: number[], ys: number[]): number {
+    const { sxx, syy, sxy } = pairedMoments(xs, ys);
+    if (sxx === 0 || syy === 0) throw new FormulaError('#DIV/0!');
+    return checkNumber(sxy / Math.sqrt(sxx * syy));
+}
+
+/**
+ * Least-squares line through the points (x, y): y = intercept + slope * x.
+ */
+export function linearFit(xs: number[], ys: number[]): { slope: number; intercept: number } {
+    const { meanX, meanY, sxx, sxy } = pairedMoments(xs, ys);
+    if (sxx === 0) throw new FormulaError('#DIV/0!');
+    const slope = sxy / sxx;
+    return { slope: checkNumber(slope), intercept: checkNumber(meanY - slope * meanX) };
+}
@@ -0,0 +1,196 @@
+import { parseDateText } from './formulaDates';
+import type { DateSystem } from './formulaDates';
+import { isDecimalValue, parseDecimal, toDecimal, decimalToString, compareDecimals, simplifyDecimal, approximateDecimal } from './formulaDecimal';
+import type { DecimalValue } from './formulaDecimal';
+
+/**
+ * Excel's cell value model: every cell holds a number, text, a boolean,
+ * an error or nothing at all, and each operation coerces between them
+ * by the same fixed rules. In exact arithmetic mode a number a double cannot
+ * hold is kept as a DecimalValue, which is a number in every other respect.
+ */
+export interface ErrorValue {
+    type: 'error';
+    code: string;
+}
+
+export type CellValue = number | DecimalValue | string | boolean | ErrorValue | null;
+export type FormulaValue = CellValue | CellValue[][];
+
+export type ValueType = 'number' | 'string' | 'boolean' | 'error' | 'empty';
+
+/**
+ * Thrown to abort evaluation with an Excel error; caught at the top level
+ * (or by IFERROR/ISERROR) and turned back into an error value.
+ */
+export class FormulaError extends Error {
+    constructor(public code: string) {
+        super(code);
+        this.name = 'FormulaError';
+    }
+}
+
+// Error codes recognized when reading a cell's text back as a value
+const ERROR_CODES = ['#DIV/0!', '#N/A', '#NAME?', '#NULL!', '#NUM!', '#REF!', '#VALUE!', '#SPILL!', '#CALC!', '#CIRCULAR!', '#ERROR!'];
+
+// Plain decimal numbers only; Number() would also accept "Infinity", "0x1A" and "1_000"
+const NUMERIC_TEXT = /^\s*[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?\s*$/;
+
+export function errorValue(code: string): ErrorValue {
+    return { type: 'error', code };
+}
+
+export function isErrorValue(value: FormulaValue | undefined): value is ErrorValue {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && value.type === 'error';
+}
+
+export function getValueType(value: CellValue): ValueType {
+    if (value === null) return 'empty';
+    if (isErrorValue(value)) return 'error';
+    if (isDecimalValue(value)) return 'number';
+    return typeof value as 'number' | 'string' | 'boolean';
+}
+
+export function parseNumericText(text: string): number | null {
+    if (!NUMERIC_TEXT.test(text)) return null;
+    const num = Number(text);
+    return isFinite(num) ? num : null;
+}
+
+/**
+ * Types what was entered into a cell: numbers, TRUE/FALSE, error codes and
+ * dates or times (as their serial number) are recognized, anything else
+ * stays text and an empty cell is empty. With `exact`, numbers keep every
+ * digit entered, as a DecimalValue where a double would lose some.
+ */
+export function parseCellValue(text: string, dateSystem: DateSystem = '1900', exact = false): CellValue {
+    if (text === '') return null;
+
+    const decimal = exact && NUMERIC_TEXT.test(text) ? parseDecimal(text) : null;
+    if (decimal) return simplifyDecimal(decimal);
+
+    const num = parseNumericText(text);
+    if (num !== null) return num;
+
+    const upper = text.toUpperCase();
+    if (upper === 'TRUE') return true;
+    if (upper === 'FALSE') return false;
+    if (ERROR_CODES.includes(upper)) return errorValue(upper);
+    return parseDateText(text, dateSystem) ?? text;
+}
+
+/**
+ * Results JavaScript cannot represent (overflow, NaN) become #NUM! instead of
+ * leaking "Infinity" or "NaN" into the sheet.
+ */
+export function checkNumber(value: number): number {
+    if (!isFinite(value)) throw new FormulaError('#NUM!');
+    return value;
+}
+
+/**
+ * Rethrows an error value so it propagates through whatever is using it.
+ */
+export function throwIfError(value: FormulaValue) {
+    if (isErrorValue(value)) throw new FormulaError(value.code);
+}
+
+export function toNumber(value: FormulaValue): number {
+    if (Array.isArray(value)) throw new FormulaError('#VALUE!');
+    throwIfError(value);
+    if (value === null) return 0;
+    if (typeof value === 'number') return value;
+    if (isDecimalValue(value)) return approximateDecimal(value);
+    if (typeof value === 'boolean') return value ? 1 : 0;
+
+    const num = parseNumericText(value as string);
+    if (num === null) throw new FormulaError('#VALUE!');
+    return num;
+}
+
+/**
+ * The exact counterpart of toNumber, for exact arithmetic mode.
+ */
+export function toDecimalValue(value: FormulaValue): DecimalValue {
+    if (Array.isArray(value)) throw new FormulaError('#VALUE!');
+    throwIfError(value);
+    if (isDecimalValue(value)) return value;
+    if (typeof value === 'string') {
+        const decimal = NUMERIC_TEXT.test(value) ? parseDecimal(value) : null;
+        if (!decimal) throw new FormulaError('#VALUE!');
+        return decimal;
+    }
+    return toDecimal(toNumber(value));
+}
+
+export function formatNumber(value: number): string {
+    // Trim binary floating point noise to Excel's 15 significant digits
+    return Number(checkNumber(value).toPrecision(15)).toString();
+}
+
+export function toText(value: FormulaValue): string {
+    if (Array.isArray(value)) throw new FormulaError('#VALUE!');
+    throwIfError(value);
+    if (value === null) return '';
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+    if (typeof value === 'number') return formatNumber(value);
+    if (isDecimalValue(value)) return decimalToString(value);
+    return value as string;
+}
+
+export function toBoolean(value: FormulaValue): boolean {
+    if (Array.isArray(value)) throw new FormulaError('#VALUE!');
+    throwIfError(value);
+    if (value === null) return false;
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'number') return value !== 0;
+    if (isDecimalValue(value)) return value.digits !== 0n;
+
+    const upper = (value as string).toUpperCase();
+    if (upper === 'TRUE') return true;
+    if (upper === 'FALSE') return false;
+    throw new FormulaError('#VALUE!');
+}
+
+/**
+ * Orders values the way Excel does: numbers < text < booleans,
+ * with text compared case-insensitively. An empty cell takes the
+ * type of whatever it is compared with. Errors propagate.
+ */
+export function compareValues(left: CellValue, right: CellValue): number {
+    throwIfError(left);
+    throwIfError(right);
+
+    const blankAs = (other: CellValue) => {
+        const type = getValueType(other);
+        return type === 'number' || type === 'empty' ? 0 : type === 'string' ? '' : false;
+    };
+    if (left === null) left = blankAs(right);
+    if (right === null) right = blankAs(left);
+
+    const rank = (value: CellValue) => {
+        const type = getValueType(value);
+        return type === 'number' ? 0 : type === 'string' ? 1 : 2;
+    };
+    if (rank(left) !== rank(right)) return rank(left) - rank(right);
+
+    if (isDecimalValue(left) || isDecimalValue(right)) return compareDecimals(toDecimalValue(left), toDecimalValue(right));
+
+    if (typeof left === 'string' && typeof right === 'string') {
+        const a = left.toUpperCase();
+        const b = right.toUpperCase();
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+
+    return Number(left) - Number(right);
+}
+
+/**
+ * Text shown in the grid for a formula's result. A formula that returns
+ * an empty cell shows 0, as in Excel.
+ */
+export function formatValue(value: CellValue): string {
+    if (isErrorValue(value)) return value.code;
+    if (value === null) return '0';
+    return toText(value);
+}
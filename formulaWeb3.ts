@@ -0,0 +1,293 @@
+/**
+ * Chain-specific encodings for the web3 functions: Keccak-256 and SHA-256
+ * hashing, EIP-55 checksummed addresses and Internet Computer principal text.
+ * Everything here is pure and works offline.
+ */
+
+/**
+ * Decimals of the named Ethereum units, as in TOWEI(1.5, "gwei"). A token
+ * with its own decimals is given them as a number instead.
+ */
+const ETHER_UNITS: Record<string, number> = {
+    wei: 0,
+    kwei: 3,
+    mwei: 6,
+    gwei: 9,
+    szabo: 12,
+    finney: 15,
+    ether: 18,
+};
+
+// Enough for any amount a 256-bit integer holds
+export const MAX_TOKEN_DECIMALS = 77;
+
+export function unitDecimals(unit: string): number | undefined {
+    return ETHER_UNITS[unit.trim().toLowerCase()];
+}
+
+const UINT256_LIMIT = 1n << 256n;
+
+// Excel's hex functions work in ten digits of two's complement
+const TWOS_COMPLEMENT_LIMIT = 1n << 40n;
+
+/**
+ * Reads hex of up to 64 digits, as an unsigned 256-bit value when it starts
+ * with 0x. Without the prefix, ten digits with the top bit set are negative,
+ * so HEX2DEC("FFFFFFFFFF") is -1 as in Excel. Null when the text is not hex.
+ */
+export function parseHex(text: string): bigint | null {
+    const match = /^(0x)?([0-9a-fA-F]{1,64})$/.exec(text.trim());
+    if (!match) return null;
+    const value = BigInt(`0x${match[2]}`);
+    const negative = !match[1] && match[2].length === 10 && value >= TWOS_COMPLEMENT_LIMIT / 2n;
+    return negative ? value - TWOS_COMPLEMENT_LIMIT : value;
+}
+
+/**
+ * Uppercase hex for an unsigned 256-bit value, or ten digits of two's
+ * complement for a negative one down to -2^39. Null when out of range.
+ */
+export function formatHex(value: bigint): string | null {
+    if (value >= UINT256_LIMIT || value < -TWOS_COMPLEMENT_LIMIT / 2n) return null;
+    return (value < 0n ? value + TWOS_COMPLEMENT_LIMIT : value).toString(16).toUpperCase();
+}
+
+const MASK_64 = (1n << 64n) - 1n;
+
+const KECCAK_ROUND_CONSTANTS = [
+    0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+    0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+    0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+    0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+    0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+    0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+
+// Rotation of lane x + 5y
+const KECCAK_ROTATIONS = [0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14];
+
+// Bytes absorbed per block: 1600 bits of state less twice the 256-bit output
+const KECCAK_256_RATE = 136;
+
+function rotateLeft64(lane: bigint, bits: number): bigint {
+    if (bits === 0) return lane;
+    return ((lane << BigInt(bits)) | (lane >> BigInt(64 - bits))) & MASK_64;
+}
+
+function keccakPermute(state: bigint[]) {
+    const columns: bigint[] = new Array(5);
+    const rotated: bigint[] = new Array(25);
+    KECCAK_ROUND_CONSTANTS.forEach(roundConstant => {
+        // θ: mix each column's parity into its neighbors
+        for (let x = 0; x < 5; x++) columns[x] = state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+        for (let x = 0; x < 5; x++) {
+            const d = columns[(x + 4) % 5] ^ rotateLeft64(columns[(x + 1) % 5], 1);
+            for (let y = 0; y < 25; y += 5) state[x + y] ^= d;
+        }
+        // ρ and π: rotate every lane and move it
+        for (let x = 0; x < 5; x++) {
+            for (let y = 0; y < 5; y++) {
+                rotated[y + 5 * ((2 * x + 3 * y) % 5)] = rotateLeft64(state[x + 5 * y], KECCAK_ROTATIONS[x + 5 * y]);
+            }
+        }
+        // χ: the only non-linear step, along each row
+        for (let y = 0; y < 25; y += 5) {
+            for (let x = 0; x < 5; x++) {
+                state[x + y] = rotated[x + y] ^ (~rotated[((x + 1) % 5) + y] & MASK_64 & rotated[((x + 2) % 5) + y]);
+            }
+        }
+        // ι
+        state[0] ^= roundConstant;
+    });
+}
+
+/**
+ * Keccak-256 as Ethereum uses it, with the original Keccak padding rather
+ * than SHA3-256's.
+ */
+export function keccak256(data: Uint8Array): Uint8Array {
+    const blocks = Math.floor(data.length / KECCAK_256_RATE) + 1;
+    const padded = new Uint8Array(blocks * KECCAK_256_RATE);
+    padded.set(data);
+    padded[data.length] ^= 0x01;
+    padded[padded.length - 1] ^= 0x80;
+
+    const state: bigint[] = new Array(25).fill(0n);
+    for (let offset = 0; offset < padded.length; offset += KECCAK_256_RATE) {
+        for (let lane = 0; lane < KECCAK_256_RATE / 8; lane++) {
+            let value = 0n;
+            for (let byte = 7; byte >= 0; byte--) value = (value << 8n) | BigInt(padded[offset + lane * 8 + byte]);
+            state[lane] ^= value;
+        }
+        keccakPermute(state);
+    }
+
+    const hash = new Uint8Array(32);
+    for (let i = 0; i < 32; i++) hash[i] = Number((state[i >> 3] >> BigInt((i & 7) * 8)) & 0xffn);
+    return hash;
+}
+
+const SHA256_ROUND_CONSTANTS = [
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+function rotateRight32(word: number, bits: number): number {
+    return (word >>> bits) | (word << (32 - bits));
+}
+
+export function sha256(data: Uint8Array): Uint8Array {
+    // Message, a 1 bit, zeros, then the length in bits as a 64-bit big-endian number
+    const blocks = Math.ceil((data.length + 9) / 64);
+    const padded = new Uint8Array(blocks * 64);
+    padded.set(data);
+    padded[data.length] = 0x80;
+    const view = new DataView(padded.buffer);
+    view.setUint32(padded.length - 8, Math.floor(data.length / 0x20000000));
+    view.setUint32(padded.length - 4, (data.length * 8) >>> 0);
+
+    const hash = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+    const words = new Array<number>(64);
+    for (let offset = 0; offset < padded.length; offset += 64) {
+        for (let i = 0; i < 16; i++) words[i] = view.getUint32(offset + i * 4);
+        for (let i = 16; i < 64; i++) {
+            const s0 = rotateRight32(words[i - 15], 7) ^ rotateRight32(words[i - 15], 18) ^ (words[i - 15] >>> 3);
+            const s1 = rotateRight32(words[i - 2], 17) ^ rotateRight32(words[i - 2], 19) ^ (words[i - 2] >>> 10);
+            words[i] = (words[i - 16] + s0 + words[i - 7] + s1) | 0;
+        }
+
+        let [a, b, c, d, e, f, g, h] = hash;
+        for (let i = 0; i < 64; i++) {
+            const s1 = rotateRight32(e, 6) ^ rotateRight32(e, 11) ^ rotateRight32(e, 25);
+            const choice = (e & f) ^ (~e & g);
+            const temp1 = (h + s1 + choice + SHA256_ROUND_CONSTANTS[i] + words[i]) | 0;
+            const s0 = rotateRight32(a, 2) ^ rotateRight32(a, 13) ^ rotateRight32(a, 22);
+            const majority = (a & b) ^ (a & c) ^ (b & c);
+            const temp2 = (s0 + majority) | 0;
+            [h, g, f, e, d, c, b, a] = [g, f, e, (d + temp1) | 0, c, b, a, (temp1 + temp2) | 0];
+        }
+        [a, b, c, d, e, f, g, h].forEach((word, i) => (hash[i] = (hash[i] + word) | 0));
+    }
+
+    const result = new Uint8Array(32);
+    const resultView = new DataView(result.buffer);
+    hash.forEach((word, i) => resultView.setUint32(i * 4, word >>> 0));
+    return result;
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const HEX_BYTES = /^0x((?:[0-9a-fA-F]{2})*)$/;
+
+/**
+ * What a hash function hashes: the bytes of "0x"-prefixed hex such as
+ * 0x68656c6c6f, or else the UTF-8 bytes of the text, as web3 libraries do.
+ */
+export function toHashInput(text: string): Uint8Array {
+    const match = HEX_BYTES.exec(text);
+    if (!match) return new TextEncoder().encode(text);
+    const hex = match[1];
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    return bytes;
+}
+
+const ADDRESS = /^(?:0x)?([0-9a-fA-F]{40})$/;
+
+/**
+ * The EIP-55 form of an Ethereum address: 0x and the hex digits with letters
+ * capitalized where the Keccak-256 hash of the lowercase address has a high
+ * nibble. Null when the text is not an address, or when it already mixes
+ * case and the checksum is wrong.
+ */
+export function checksumAddress(address: string): string | null {
+    const match = ADDRESS.exec(address);
+    if (!match) return null;
+    const hex = match[1].toLowerCase();
+    const hash = bytesToHex(keccak256(new TextEncoder().encode(hex)));
+    const checksummed = Array.from(hex, (char, i) => (parseInt(hash[i], 16) >= 8 ? char.toUpperCase() : char)).join('');
+
+    const digits = match[1];
+    const mixedCase = digits !== digits.toLowerCase() && digits !== digits.toUpperCase();
+    if (mixedCase && digits !== checksummed) return null;
+    return `0x${checksummed}`;
+}
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+    let crc = 0xffffffff;
+    bytes.forEach(byte => (crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)));
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+function base32Encode(bytes: Uint8Array): string {
+    let text = '';
+    let buffer = 0;
+    let bits = 0;
+    bytes.forEach(byte => {
+        buffer = (buffer << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            text += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+        buffer &= (1 << bits) - 1;
+    });
+    if (bits > 0) text += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+    return text;
+}
+
+function base32Decode(text: string): Uint8Array | null {
+    const bytes: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+    for (const char of text) {
+        const value = BASE32_ALPHABET.indexOf(char);
+        if (value < 0) return null;
+        buffer = (buffer << 5) | value;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((buffer >>> (bits - 8)) & 0xff);
+            bits -= 8;
+        }
+        buffer &= (1 << bits) - 1;
+    }
+    return new Uint8Array(bytes);
+}
+
+// A principal is at most 29 bytes
+const MAX_PRINCIPAL_BYTES = 29;
+
+/**
+ * Whether text is an Internet Computer principal in its textual form, such as
+ * aaaaa-aa: the base32 of a CRC-32 checksum followed by up to 29 bytes,
+ * lowercase, in dash-separated groups of five characters.
+ */
+export function isValidPrincipal(text: string): boolean {
+    const encoded = text.replace(/-/g, '');
+    const decoded = base32Decode(encoded);
+    if (!decoded || decoded.length < 4 || decoded.length > 4 + MAX_PRINCIPAL_BYTES) return false;
+
+    const bytes = decoded.slice(4);
+    const checksum = new DataView(decoded.buffer).getUint32(0);
+    if (checksum !== crc32(bytes)) return false;
+
+    // Only the canonical spelling counts, so the text has to encode back the same
+    const grouped = base32Encode(decoded).match(/.{1,5}/g)?.join('-') ?? '';
+    return grouped === text;
+}
@@ -5,6 +5,7 @@ interface CellData {
     formula?: string;
     displayValue?: string;
     format?: CellFormat;
+    spilledFrom?: string;
 }
 
 function getColumnLabel(index: number): string {
@@ -17,7 +18,22 @@ function getColumnLabel(index: number): string {
     return label;
 }
 
-export function exportToCSV(cells: Map<string, CellData>, filename: string) {
+// Saves text as a file through a temporary link; the only part of this module that needs a browser
+function downloadText(text: string, type: string, filename: string) {
+    const blob = new Blob([text], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * The cells' display values as CSV, every cell quoted, from A1 to the last
+ * row and column holding anything.
+ */
+export function cellsToCSV(cells: Map<string, CellData>): string {
     const rows: string[][] = [];
     let maxRow = 0;
     let maxCol = 0;
@@ -43,14 +59,11 @@ export function exportToCSV(cells: Map<string, CellData>, filename: string) {
         rows.push(rowData);
     }
 
-    const csv = rows.map(row => row.join(',')).join('\n');
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${filename}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
+    return rows.map(row => row.join(',')).join('\n');
+}
+
+export function exportToCSV(cells: Map<string, CellData>, filename: string) {
+    downloadText(cellsToCSV(cells), 'text/csv', `${filename}.csv`);
 }
 
 export function exportToXLSX(cells: Map<string, CellData>, sheets: string[], filename: string) {
@@ -59,10 +72,15 @@ export function exportToXLSX(cells: Map<string, CellData>, sheets: string[], fil
     exportToCSV(cells, filename);
 }
 
-export function exportToJSON(cells: Map<string, CellData>, filename: string) {
+/**
+ * The cells as a JSON object keyed by cell id, without spilled values.
+ */
+export function cellsToJSON(cells: Map<string, CellData>): string {
     const data: Record<string, any> = {};
     
     cells.forEach((cellData, cellId) => {
+        // Spilled values are recreated by their formula on import
+        if (cellData.spilledFrom) return;
         data[cellId] = {
             value: cellData.value,
             formula: cellData.formula,
@@ -71,72 +89,92 @@ export function exportToJSON(cells: Map<string, CellData>, filename: string) {
         };
     });
 
-    const json = JSON.stringify(data, null, 2);
-    const blob = new Blob([json], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${filename}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    return JSON.stringify(data, null, 2);
 }
 
-export async function importFromFile(file: File): Promise<Map<string, CellData>> {
-    const cells = new Map<string, CellData>();
+export function exportToJSON(cells: Map<string, CellData>, filename: string) {
+    downloadText(cellsToJSON(cells), 'application/json', `${filename}.json`);
+}
 
-    if (file.name.endsWith('.csv')) {
-        const text = await file.text();
-        const rows = text.split('\n');
-        rows.forEach((row, rowIndex) => {
-            if (!row.trim()) return;
-            
-            // Simple CSV parser (handles quoted values)
-            const values: string[] = [];
-            let current = '';
-            let inQuotes = false;
+/**
+ * JSON.parse reviver keeping cell values written as JSON numbers, such as
+ * "value": 1234567890123456789012, as the text they were written in; as
+ * doubles they would lose digits before exact arithmetic ever saw them.
+ * Browsers without access to the source text fall back to the double.
+ */
+export function keepNumberText(key: string, value: unknown, context?: { source?: string }) {
+    if (typeof value !== 'number' || (key !== 'value' && key !== 'displayValue')) return value;
+    return context?.source ?? String(value);
+}
+
+/**
+ * Cells from CSV text, one row per line; empty values leave no cell.
+ */
+export function parseCSV(text: string): Map<string, CellData> {
+    const cells = new Map<string, CellData>();
+    const rows = text.split('\n');
+    rows.forEach((row, rowIndex) => {
+        if (!row.trim()) return;
+        
+        // Simple CSV parser (handles quoted values)
+        const values: string[] = [];
+        let current = '';
+        let inQuotes = false;
+        
+        for (let i = 0; i < row.length; i++) {
+            const char = row[i];
+            const nextChar = row[i + 1];
             
-            for (let i = 0; i < row.length; i++) {
-                const char = row[i];
-                const nextChar = row[i + 1];
-                
-                if (char === '"' && inQuotes && nextChar === '"') {
-                    current += '"';
-                    i++; // Skip next quote
-                } else if (char === '"') {
-                    inQuotes = !inQuotes;
-                } else if (char === ',' && !inQuotes) {
-                    values.push(current);
-                    current = '';
-                } else {
-                    current += char;
-                }
+            if (char === '"' && inQuotes && nextChar === '"') {
+                current += '"';
+                i++; // Skip next quote
+            } else if (char === '"') {
+                inQuotes = !inQuotes;
+            } else if (char === ',' && !inQuotes) {
+                values.push(current);
+                current = '';
+            } else {
+                current += char;
+            }
+        }
+        values.push(current); // Add last value
+        
+        values.forEach((value, colIndex) => {
+            const trimmedValue = value.trim();
+            if (trimmedValue) {
+                const cellId = `${getColumnLabel(colIndex)}${rowIndex + 1}`;
+                cells.set(cellId, { value: trimmedValue });
             }
-            values.push(current); // Add last value
-            
-            values.forEach((value, colIndex) => {
-                const trimmedValue = value.trim();
-                if (trimmedValue) {
-                    const cellId = `${getColumnLabel(colIndex)}${rowIndex + 1}`;
-                    cells.set(cellId, { value: trimmedValue });
-                }
-            });
         });
-    } else if (file.name.endsWith('.json')) {
-        const text = await file.text();
-        const data = JSON.parse(text);
-        Object.entries(data).forEach(([cellId, cellData]: [string, any]) => {
-            cells.set(cellId, {
-                value: cellData.value || '',
-                formula: cellData.formula,
-                displayValue: cellData.displayValue,
-                format: cellData.format,
-            });
+    });
+
+    return cells;
+}
+
+/**
+ * Cells from JSON written by cellsToJSON.
+ */
+export function parseCellsJSON(text: string): Map<string, CellData> {
+    const cells = new Map<string, CellData>();
+    const data = JSON.parse(text, keepNumberText);
+    Object.entries(data).forEach(([cellId, cellData]: [string, any]) => {
+        cells.set(cellId, {
+            value: cellData.value || '',
+            formula: cellData.formula,
+            displayValue: cellData.displayValue,
+            format: cellData.format,
         });
-    }
+    });
 
     return cells;
 }
 
+export async function importFromFile(file: File): Promise<Map<string, CellData>> {
+    if (file.name.endsWith('.csv')) return parseCSV(await file.text());
+    if (file.name.endsWith('.json')) return parseCellsJSON(await file.text());
+    return new Map();
+}
+
 export async function importFromXLSX(file: File): Promise<Map<string, CellData>> {
     const cells = new Map<string, CellData>();
 
@@ -0,0 +1,9 @@
+import { createRecalculationSession } from './recalculationSession';
+import type { RecalculationRequest } from './recalculationSession';
+
+// The worker's global scope sends and receives messages the way a Worker object does
+const scope = self as unknown as Worker;
+
+const session = createRecalculationSession(response => scope.postMessage(response));
+
+scope.onmessage = (event: MessageEvent<RecalculationRequest>) => session.handle(event.data);
@@ -0,0 +1,262 @@
+import { recalculateWorkbookSteps, DEFAULT_CALCULATION_OPTIONS } from './formulaEngine';
+import type { CalculationOptions, RecalculationProgress } from './formulaEngine';
+import { createDependencyGraph, qualifyCellId } from './dependencyGraph';
+import type { NameDefinition } from './formulaNames';
+import type { FormulaValue } from './formulaValues';
+
+/**
+ * What the engine needs of a cell: what was typed into it.
+ */
+export interface CellInput {
+    value: string;
+    formula?: string;
+}
+
+// A cell typed, changed or (with cell null) cleared since the last update
+export interface CellChange {
+    sheetName: string;
+    cellId: string;
+    cell: CellInput | null;
+}
+
+/**
+ * The calculated side of a cell, every field undefined when it has none any
+ * more, such as a cell an array no longer spills into.
+ */
+export interface ComputedCell {
+    sheetName: string;
+    cellId: string;
+    displayValue?: string;
+    computedValue?: FormulaValue;
+    numberFormat?: string;
+    spilledFrom?: string;
+}
+
+/**
+ * Messages into a session. `configure` starts over with no cells, so the
+ * cells have to be sent again; each `update` recalculates, volatile formulas
+ * included even when it has no changes.
+ */
+export type RecalculationRequest =
+    | { type: 'configure'; options: CalculationOptions; names: NameDefinition[] }
+    | { type: 'update'; runId: number; changes: CellChange[] };
+
+/**
+ * Messages out of a session. A result covers every update up to its runId
+ * and holds the cells whose calculated side changed since the last result.
+ */
+export type RecalculationResponse =
+    | ({ type: 'progress'; runId: number } & RecalculationProgress)
+    | {
+          type: 'result';
+          runId: number;
+          cells: ComputedCell[];
+          circularCellIds: string[];
+          lossyCellIds: string[];
+          // Whether any formula calls a volatile function, for timed recalculation
+          hasVolatile: boolean;
+      };
+
+interface SessionCell extends CellInput {
+    displayValue?: string;
+    computedValue?: FormulaValue;
+    numberFormat?: string;
+    spilledFrom?: string;
+}
+
+type SessionSheets = Map<string, Map<string, SessionCell>>;
+
+export interface RecalculationSession {
+    handle: (request: RecalculationRequest) => void;
+    // Stops calculating and posting; the session cannot be used again
+    dispose: () => void;
+}
+
+// Calculation runs in slices this long between looks at newer messages
+const SLICE_MS = 50;
+
+// Progress is only reported once a calculation has taken this long
+const PROGRESS_DELAY_MS = 250;
+
+// A macrotask, so that messages sent meanwhile are delivered before calculation goes on
+function yieldToMessages(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+function toComputedCell(sheetName: string, cellId: string, cell: SessionCell | undefined): ComputedCell {
+    return {
+        sheetName,
+        cellId,
+        displayValue: cell?.displayValue,
+        computedValue: cell?.computedValue,
+        numberFormat: cell?.numberFormat,
+        spilledFrom: cell?.spilledFrom,
+    };
+}
+
+// Cells that are not the same object in both snapshots; sheets are copied on write
+function diffSheets(previous: SessionSheets, next: SessionSheets): ComputedCell[] {
+    const cells: ComputedCell[] = [];
+    next.forEach((sheet, sheetName) => {
+        const previousSheet = previous.get(sheetName);
+        if (previousSheet === sheet) return;
+        sheet.forEach((cell, cellId) => {
+            if (previousSheet?.get(cellId) !== cell) cells.push(toComputedCell(sheetName, cellId, cell));
+        });
+        previousSheet?.forEach((_, cellId) => {
+            if (!sheet.has(cellId)) cells.push(toComputedCell(sheetName, cellId, undefined));
+        });
+    });
+    return cells;
+}
+
+/**
+ * Holds a workbook's cells and dependency graph and recalculates them as
+ * changes come in, the same in a worker as on the main thread. A calculation
+ * runs in slices; a message arriving during one cancels it, and the next
+ * calculation takes over what it left along with the new changes, so a burst
+ * of edits gets one result rather than one per edit.
+ */
+export function createRecalculationSession(post: (response: RecalculationResponse) => void): RecalculationSession {
+    let sheets: SessionSheets = new Map();
+    // The cells as of the last result, which the next result is relative to
+    let postedSheets: SessionSheets = new Map();
+    let graph = createDependencyGraph();
+    let options: CalculationOptions = DEFAULT_CALCULATION_OPTIONS;
+    let names: NameDefinition[] = [];
+    let circularCellIds = new Set<string>();
+    let lossyCellIds = new Set<string>();
+    // Changed cells not calculated yet, including whatever a cancelled calculation left
+    let pendingCellIds = new Set<string>();
+    let queue: RecalculationRequest[] = [];
+    let running = false;
+    let cancelRequested = false;
+    let disposed = false;
+
+    const applyRequest = (request: RecalculationRequest) => {
+        if (request.type === 'configure') {
+            sheets = new Map();
+            postedSheets = new Map();
+            graph = createDependencyGraph();
+            options = request.options;
+            names = request.names;
+            circularCellIds = new Set();
+            lossyCellIds = new Set();
+            pendingCellIds = new Set();
+            return;
+        }
+
+        const copied = new Set<string>();
+        request.changes.forEach(({ sheetName, cellId, cell }) => {
+            if (!copied.has(sheetName)) {
+                sheets = new Map(sheets).set(sheetName, new Map(sheets.get(sheetName)));
+                copied.add(sheetName);
+            }
+            const sheet = sheets.get(sheetName)!;
+            // A typed cell starts afresh, as it does in the grid
+            if (cell) {
+                sheet.set(cellId, { value: cell.value, formula: cell.formula });
+            } else {
+                sheet.delete(cellId);
+            }
+            pendingCellIds.add(qualifyCellId(sheetName, cellId));
+        });
+    };
+
+    // Whether the calculation finished rather than being cancelled part way
+    const calculate = async (runId: number): Promise<boolean> => {
+        const changedCellIds = Array.from(pendingCellIds);
+        pendingCellIds = new Set();
+
+        const steps = recalculateWorkbookSteps(sheets, graph, changedCellIds, options, names);
+        const startedAt = Date.now();
+        let sliceEndsAt = startedAt + SLICE_MS;
+        let step = steps.next();
+        while (!step.done) {
+            if (Date.now() >= sliceEndsAt) {
+                if (Date.now() - startedAt >= PROGRESS_DELAY_MS) post({ type: 'progress', runId, ...step.value });
+                await yieldToMessages();
+                if (disposed) return false;
+                sliceEndsAt = Date.now() + SLICE_MS;
+            }
+            step = steps.next(cancelRequested);
+        }
+
+        const result = step.value;
+        sheets = result.sheets;
+        [changedCellIds, result.evaluatedCellIds].forEach(cellIds =>
+            cellIds.forEach(cellId => {
+                circularCellIds.delete(cellId);
+                lossyCellIds.delete(cellId);
+            })
+        );
+        result.circularCellIds.forEach(cellId => circularCellIds.add(cellId));
+        result.lossyCellIds.forEach(cellId => lossyCellIds.add(cellId));
+        result.remainingCellIds.forEach(cellId => pendingCellIds.add(cellId));
+        return result.remainingCellIds.length === 0;
+    };
+
+    const run = async () => {
+        running = true;
+        while (queue.length > 0 && !disposed) {
+            const requests = queue;
+            queue = [];
+            requests.forEach(applyRequest);
+            const updates = requests.filter(request => request.type === 'update');
+            if (updates.length === 0) continue;
+
+            const runId = updates[updates.length - 1].runId;
+            cancelRequested = false;
+            const finished = await calculate(runId);
+            if (!finished || disposed) continue;
+
+            post({
+                type: 'result',
+                runId,
+                cells: diffSheets(postedSheets, sheets),
+                circularCellIds: Array.from(circularCellIds),
+                lossyCellIds: Array.from(lossyCellIds),
+                hasVolatile: graph.volatileCells.size > 0,
+            });
+            postedSheets = sheets;
+        }
+        running = false;
+    };
+
+    return {
+        handle: request => {
+            if (disposed) return;
+            queue.push(request);
+            if (running) {
+                // A configure or newer update supersedes the calculation under way
+                cancelRequested = true;
+            } else {
+                void run();
+            }
+        },
+        dispose: () => {
+            disposed = true;
+            queue = [];
+            cancelRequested = true;
+        },
+    };
+}
+
+/**
+ * Writes a result's calculated cells over a sheet's cells, keeping everything
+ * else about them such as formatting. A cell left with nothing to show or keep
+ * is removed, as the engine removes cells a spill no longer covers.
+ */
+export function applyComputedCells<T extends CellInput>(cells: Map<string, T>, computedCells: ComputedCell[]): Map<string, T> {
+    const next = new Map(cells);
+    computedCells.forEach(({ cellId, displayValue, computedValue, numberFormat, spilledFrom }) => {
+        const merged = { ...(next.get(cellId) ?? { value: '' }), displayValue, computedValue, numberFormat, spilledFrom } as T;
+        const keepsData = merged.value !== '' || Object.entries(merged).some(([key, field]) => key !== 'value' && field !== undefined);
+        if (keepsData) {
+            next.set(cellId, merged);
+        } else {
+            next.delete(cellId);
+        }
+    });
+    return next;
+}
@@ -0,0 +1,93 @@
+import { useState, useCallback, useEffect } from 'react';
+import { DEFAULT_CALCULATION_OPTIONS } from '../lib/formulaEngine';
+import type { CalculationOptions } from '../lib/formulaEngine';
+import { DEFAULT_LOCALE_ID } from '../lib/formulaLocale';
+import { useGetCalculationSettings, useSaveCalculationSettings } from './useQueries';
+import type { CalculationSettings as StoredCalculationSettings } from '../backend';
+
+export type CalculationMode = 'automatic' | 'manual';
+
+export interface CalculationSettings extends CalculationOptions {
+  // Manual leaves formulas stale until F9 or Calculate Now
+  mode: CalculationMode;
+  // Seconds between recalculations of volatile formulas such as NOW(); 0 for never
+  volatileInterval: number;
+  // How numbers, dates and formulas are typed and edited; cells are stored the same in every locale
+  locale: string;
+}
+
+export const DEFAULT_CALCULATION_SETTINGS: CalculationSettings = {
+  ...DEFAULT_CALCULATION_OPTIONS,
+  mode: 'automatic',
+  volatileInterval: 0,
+  locale: DEFAULT_LOCALE_ID,
+};
+
+function fromStored(stored: StoredCalculationSettings): CalculationSettings {
+  return {
+    iterative: stored.iterative,
+    maxIterations: Number(stored.maxIterations),
+    maxChange: stored.maxChange,
+    dateSystem: stored.dateSystem === '1904' ? '1904' : '1900',
+    exactArithmetic: stored.exactArithmetic,
+    mode: stored.mode === 'manual' ? 'manual' : 'automatic',
+    volatileInterval: Number(stored.volatileInterval),
+    locale: stored.locale,
+  };
+}
+
+function toStored(settings: CalculationSettings): StoredCalculationSettings {
+  return {
+    iterative: settings.iterative,
+    maxIterations: BigInt(settings.maxIterations),
+    maxChange: settings.maxChange,
+    dateSystem: settings.dateSystem,
+    exactArithmetic: settings.exactArithmetic,
+    mode: settings.mode,
+    volatileInterval: BigInt(settings.volatileInterval),
+    locale: settings.locale,
+  };
+}
+
+// Settings were kept in the browser before they were saved with the spreadsheet
+function storageKey(spreadsheetId: string) {
+  return `calculationSettings:${spreadsheetId}`;
+}
+
+function loadLocalSettings(spreadsheetId: string): CalculationSettings {
+  const stored = localStorage.getItem(storageKey(spreadsheetId));
+  if (!stored) return DEFAULT_CALCULATION_SETTINGS;
+  try {
+    return { ...DEFAULT_CALCULATION_SETTINGS, ...JSON.parse(stored) };
+  } catch {
+    return DEFAULT_CALCULATION_SETTINGS;
+  }
+}
+
+/**
+ * Per-spreadsheet calculation settings, saved with the spreadsheet so that
+ * everyone sharing it calculates the same. Until a spreadsheet has any, the
+ * ones this browser kept for it before then, or the defaults, apply.
+ */
+export function useCalculationSettings(spreadsheetId: string) {
+  const { data: stored } = useGetCalculationSettings(spreadsheetId);
+  const { mutateAsync: saveStoredSettings, isPending: isSaving } = useSaveCalculationSettings();
+  const [settings, setSettings] = useState<CalculationSettings>(() => loadLocalSettings(spreadsheetId));
+
+  // Pick up the saved settings, but not while a change is being saved: they would undo it until then
+  useEffect(() => {
+    if (isSaving) return;
+    setSettings(stored ? fromStored(stored) : loadLocalSettings(spreadsheetId));
+  }, [stored, isSaving, spreadsheetId]);
+
+  const saveSettings = useCallback(async (newSettings: CalculationSettings) => {
+    setSettings(newSettings);
+    await saveStoredSettings({ spreadsheetId, settings: toStored(newSettings) });
+    localStorage.removeItem(storageKey(spreadsheetId));
+  }, [spreadsheetId, saveStoredSettings]);
+
+  return {
+    settings,
+    saveSettings,
+  };
+}
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from 'react';
+import { listFunctions, subscribeToFunctions } from '../lib/formulaRegistry';
+import type { FunctionInfo } from '../lib/formulaRegistry';
+
+/**
+ * Every function formulas can call, built-in and registered, kept current as
+ * function packs are registered and unregistered.
+ */
+export function useFunctions(): FunctionInfo[] {
+  return useSyncExternalStore(subscribeToFunctions, listFunctions);
+}
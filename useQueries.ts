@@ -1,7 +1,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useActor } from './useActor';
 import { useInternetIdentity } from './useInternetIdentity';
-import type { SpreadsheetFile, Sheet, Cell, UserProfile, SpreadsheetPermission, CellFormat, ImageData } from '../backend';
+import type { SpreadsheetFile, Sheet, Cell, UserProfile, SpreadsheetPermission, CellFormat, ImageData, NamedRange, CalculationSettings } from '../backend';
 import { Principal } from '@icp-sdk/core/principal';
 
 // User Profile Hooks
@@ -170,6 +170,10 @@ export function useDeleteSheet() {
             queryClient.invalidateQueries({
                 queryKey: ['sheets', variables.spreadsheetId],
             });
+            // Names local to the sheet are deleted with it
+            queryClient.invalidateQueries({
+                queryKey: ['names', variables.spreadsheetId],
+            });
         },
     });
 }
@@ -417,6 +421,104 @@ export function useDeleteImage() {
     });
 }
 
+// Named Range Hooks
+export function useListNames(spreadsheetId: string | null) {
+    const { actor, isFetching } = useActor();
+
+    return useQuery<NamedRange[]>({
+        queryKey: ['names', spreadsheetId],
+        queryFn: async () => {
+            if (!actor || !spreadsheetId) return [];
+            return actor.listNames(spreadsheetId);
+        },
+        enabled: !!actor && !isFetching && !!spreadsheetId,
+    });
+}
+
+export function useDefineName() {
+    const { actor } = useActor();
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({
+            spreadsheetId,
+            namedRange,
+        }: {
+            spreadsheetId: string;
+            namedRange: NamedRange;
+        }) => {
+            if (!actor) throw new Error('Actor not initialized');
+            return actor.defineName(spreadsheetId, namedRange);
+        },
+        onSuccess: (_, variables) => {
+            queryClient.invalidateQueries({
+                queryKey: ['names', variables.spreadsheetId],
+            });
+        },
+    });
+}
+
+export function useDeleteName() {
+    const { actor } = useActor();
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({
+            spreadsheetId,
+            name,
+            scope,
+        }: {
+            spreadsheetId: string;
+            name: string;
+            scope: string | null;
+        }) => {
+            if (!actor) throw new Error('Actor not initialized');
+            return actor.deleteName(spreadsheetId, name, scope);
+        },
+        onSuccess: (_, variables) => {
+            queryClient.invalidateQueries({
+                queryKey: ['names', variables.spreadsheetId],
+            });
+        },
+    });
+}
+
+// Calculation Settings Hooks
+export function useGetCalculationSettings(spreadsheetId: string | null) {
+    const { actor, isFetching } = useActor();
+
+    return useQuery<CalculationSettings | null>({
+        queryKey: ['calculationSettings', spreadsheetId],
+        queryFn: async () => {
+            if (!actor || !spreadsheetId) return null;
+            return actor.getCalculationSettings(spreadsheetId);
+        },
+        enabled: !!actor && !isFetching && !!spreadsheetId,
+    });
+}
+
+export function useSaveCalculationSettings() {
+    const { actor } = useActor();
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: async ({
+            spreadsheetId,
+            settings,
+        }: {
+            spreadsheetId: string;
+            settings: CalculationSettings;
+        }) => {
+            if (!actor) throw new Error('Actor not initialized');
+            return actor.saveCalculationSettings(spreadsheetId, settings);
+        },
+        onSuccess: (_, variables) => {
+            // Already known; a refetch could return the settings from before a save still in flight
+            queryClient.setQueryData(['calculationSettings', variables.spreadsheetId], variables.settings);
+        },
+    });
+}
+
 // Sharing Hooks
 export function useShareSpreadsheet() {
     const { actor } = useActor();
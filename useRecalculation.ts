@@ -0,0 +1,78 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { createRecalculationSession } from '../lib/recalculationSession';
+import type { CellChange, RecalculationRequest, RecalculationResponse } from '../lib/recalculationSession';
+import type { CalculationOptions, RecalculationProgress } from '../lib/formulaEngine';
+import type { NameDefinition } from '../lib/formulaNames';
+
+export type RecalculationResultMessage = Extract<RecalculationResponse, { type: 'result' }>;
+
+interface RecalculationClient {
+  send: (request: RecalculationRequest) => void;
+  dispose: () => void;
+}
+
+function createWorkerClient(onResponse: (response: RecalculationResponse) => void): RecalculationClient {
+  const worker = new Worker(new URL('../lib/recalculation.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<RecalculationResponse>) => onResponse(event.data);
+  return {
+    send: (request) => worker.postMessage(request),
+    dispose: () => worker.terminate(),
+  };
+}
+
+// The same session on this thread, still calculating in slices between renders
+function createLocalClient(onResponse: (response: RecalculationResponse) => void): RecalculationClient {
+  const session = createRecalculationSession(onResponse);
+  return {
+    send: session.handle,
+    dispose: session.dispose,
+  };
+}
+
+/**
+ * Recalculates formulas in a Web Worker, sending it the cells that changed and
+ * getting back the cells whose values changed. Superseded calculations are
+ * cancelled in the worker; `progress` is set while a long one runs.
+ */
+export function useRecalculation(onResult: (result: RecalculationResultMessage) => void) {
+  const [progress, setProgress] = useState<RecalculationProgress | null>(null);
+  const clientRef = useRef<RecalculationClient | null>(null);
+  const runIdRef = useRef(0);
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+
+  const handleResponse = useCallback((response: RecalculationResponse) => {
+    if (response.type === 'progress') {
+      setProgress({ evaluatedCells: response.evaluatedCells, totalCells: response.totalCells });
+      return;
+    }
+    // Results for older runs still bring values up to date; the newest clears the indicator
+    if (response.runId === runIdRef.current) setProgress(null);
+    onResultRef.current(response);
+  }, []);
+
+  /**
+   * Starts over with no cells, so every cell has to be sent again. Custom
+   * functions only exist on this thread, so a workbook that may call them
+   * calculates here instead of in the worker.
+   */
+  const configure = useCallback((options: CalculationOptions, names: NameDefinition[], inWorker: boolean) => {
+    clientRef.current?.dispose();
+    clientRef.current = inWorker ? createWorkerClient(handleResponse) : createLocalClient(handleResponse);
+    clientRef.current.send({ type: 'configure', options, names });
+    setProgress(null);
+  }, [handleResponse]);
+
+  const update = useCallback((changes: CellChange[]) => {
+    runIdRef.current++;
+    clientRef.current?.send({ type: 'update', runId: runIdRef.current, changes });
+  }, []);
+
+  useEffect(() => () => clientRef.current?.dispose(), []);
+
+  return {
+    progress,
+    configure,
+    update,
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { createWorkbook, loadWorkbook, WorkbookError } from './workbook';
+
+describe('createWorkbook', () => {
+    it('calculates formulas when they are read', () => {
+        const workbook = createWorkbook();
+        workbook.setCell('Sheet1', 'A1', '2');
+        workbook.setCell('Sheet1', 'A2', '=A1*3');
+        expect(workbook.getValue('Sheet1', 'A2')).toBe(6);
+
+        workbook.setCell('Sheet1', 'A1', '5');
+        expect(workbook.getDisplayValue('Sheet1', 'A2')).toBe('15');
+    });
+
+    it('calculates references to other sheets and defined names', () => {
+        const workbook = createWorkbook();
+        workbook.addSheet('Data');
+        workbook.setCell('Data', 'A1', '5');
+        workbook.defineName({ name: 'Rate', reference: 'Data!A1' });
+        workbook.setCell('Sheet1', 'A1', "='data'!A1*2+Rate");
+        expect(workbook.getValue('Sheet1', 'A1')).toBe(15);
+
+        workbook.setCell('Data', 'A1', '7');
+        expect(workbook.getValue('Sheet1', 'A1')).toBe(21);
+    });
+
+    it('spills array results into the cells below and beside', () => {
+        const workbook = createWorkbook();
+        workbook.setCell('Sheet1', 'B1', '=SEQUENCE(2,2)');
+        expect(workbook.getRange('Sheet1', 'B1:C2')).toEqual([
+            [1, 2],
+            [3, 4],
+        ]);
+        expect(workbook.getCell('Sheet1', 'C2')?.spilledFrom).toBe('B1');
+        expect(workbook.evaluate('=SUM(B1#)')).toBe(10);
+    });
+
+    it('shows #SPILL! when the spill area is not empty', () => {
+        const workbook = createWorkbook();
+        workbook.setCell('Sheet1', 'C1', 'x');
+        workbook.setCell('Sheet1', 'B1', '=SEQUENCE(2,2)');
+        expect(workbook.getDisplayValue('Sheet1', 'B1')).toBe('#SPILL!');
+    });
+
+    it('flags circular references', () => {
+        const workbook = createWorkbook();
+        workbook.setCell('Sheet1', 'A1', '=B1');
+        workbook.setCell('Sheet1', 'B1', '=A1+1');
+        expect(workbook.getCircularCellIds().sort()).toEqual(['Sheet1!A1', 'Sheet1!B1']);
+        expect(workbook.getDisplayValue('Sheet1', 'A1')).toBe('#CIRCULAR!');
+    });
+
+    it('resolves circular references iteratively when asked to', () => {
+        const workbook = createWorkbook();
+        workbook.setOptions({ iterative: true, maxIterations: 100, maxChange: 0.0001 });
+        workbook.setCell('Sheet1', 'A1', '=B1/2+1');
+        workbook.setCell('Sheet1', 'B1', '=A1');
+        expect(workbook.getValue('Sheet1', 'A1')).toBeCloseTo(2, 3);
+        expect(workbook.getCircularCellIds()).toEqual([]);
+    });
+
+    it('switches to exact arithmetic', () => {
+        const workbook = createWorkbook();
+        workbook.setCell('Sheet1', 'A1', '=0.1+0.2');
+        workbook.setCell('Sheet1', 'A2', '=123456789012345678901234567890+1');
+        expect(workbook.getValue('Sheet1', 'A1')).toBe(0.30000000000000004);
+
+        workbook.setOptions({ exactArithmetic: true });
+        expect(workbook.getDisplayValue('Sheet1', 'A1')).toBe('0.3');
+        expect(workbook.getDisplayValue('Sheet1', 'A2')).toBe('123456789012345678901234567891');
+    });
+
+    it('rejects invalid sheets, names and cell ids', () => {
+        const workbook = createWorkbook();
+        expect(() => workbook.addSheet('a/b')).toThrow(WorkbookError);
+        expect(() => workbook.addSheet('sheet1')).toThrow('already exists');
+        expect(() => workbook.defineName({ name: 'A1', reference: '1' })).toThrow('not a valid name');
+        expect(() => workbook.setCell('Sheet1', '$A$1', '1')).toThrow('not a cell reference');
+        expect(() => workbook.removeSheet('Sheet1')).toThrow('at least one sheet');
+    });
+});
+
+describe('loadWorkbook', () => {
+    it('reads back what save() wrote, calculating on first read', () => {
+        const workbook = createWorkbook();
+        workbook.addSheet('Data');
+        workbook.setCell('Data', 'A1', '4');
+        workbook.defineName({ name: 'Rate', reference: 'Data!A1' });
+        workbook.setCell('Sheet1', 'A1', '=Rate*2');
+        workbook.setCell('Sheet1', 'B1', '=SEQUENCE(2)');
+
+        const loaded = loadWorkbook(workbook.save());
+        expect(loaded.getSheetNames()).toEqual(['Sheet1', 'Data']);
+        expect(loaded.getValue('Sheet1', 'A1')).toBe(8);
+        expect(loaded.getValue('Sheet1', 'B2')).toBe(2);
+        expect(loaded.toData().sheets[0].cells).toEqual({ A1: { value: '', formula: '=Rate*2' }, B1: { value: '', formula: '=SEQUENCE(2)' } });
+    });
+
+    it('reads values from CSV', () => {
+        const workbook = createWorkbook();
+        workbook.loadCSV('Sheet1', 'a,1\nb,2');
+        workbook.setCell('Sheet1', 'C1', '=SUM(B1:B2)');
+        expect(workbook.getValue('Sheet1', 'C1')).toBe(3);
+    });
+});
@@ -0,0 +1,345 @@
+import type { CellFormat } from '../backend';
+import { recalculateWorkbook, evaluateFormulaValue, getCellValue, findSheetName, DEFAULT_CALCULATION_OPTIONS } from './formulaEngine';
+import type { CalculationOptions, WorkbookContext } from './formulaEngine';
+import { createDependencyGraph, qualifyCellId } from './dependencyGraph';
+import { parseCellReference, formatCellReference } from './formulaParser';
+import { isValidName } from './formulaNames';
+import type { NameDefinition } from './formulaNames';
+import type { CellValue, FormulaValue } from './formulaValues';
+import { cellsToCSV, parseCSV, keepNumberText } from './importExport';
+
+/**
+ * A cell as the workbook holds it: what was typed (`value`, or `formula` for
+ * text starting with '='), its formatting, and the calculated side the engine
+ * fills in.
+ */
+export interface WorkbookCell {
+    value: string;
+    formula?: string;
+    format?: CellFormat;
+    displayValue?: string;
+    computedValue?: FormulaValue;
+    numberFormat?: string;
+    spilledFrom?: string;
+}
+
+// What is saved of a cell; everything else is calculated again on load
+export interface StoredCell {
+    value: string;
+    formula?: string;
+    format?: CellFormat;
+}
+
+/**
+ * A saved workbook, as JSON. Sheets keep their order; cells are keyed by id
+ * (A1) the way the spreadsheet's JSON export writes them.
+ */
+export interface WorkbookData {
+    sheets: { name: string; cells: Record<string, StoredCell> }[];
+    names?: NameDefinition[];
+    options?: Partial<CalculationOptions>;
+}
+
+export class WorkbookError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WorkbookError';
+    }
+}
+
+/**
+ * A workbook without a browser: sheets, cells, defined names and formats, with
+ * the spreadsheet's formula engine. Edits only mark cells as changed; reading
+ * anything calculated brings the formulas downstream of them up to date first.
+ * Sheet names match ignoring case, as they do in formulas.
+ */
+export interface Workbook {
+    getSheetNames(): string[];
+    addSheet(name: string): void;
+    removeSheet(name: string): void;
+
+    // Text starting with '=' is a formula, anything else a value; empty text clears the cell but not its format
+    setCell(sheetName: string, cellId: string, input: string): void;
+    setCellFormat(sheetName: string, cellId: string, format: CellFormat | undefined): void;
+    clearCell(sheetName: string, cellId: string): void;
+    // Replaces the sheet's cells with values read from CSV
+    loadCSV(sheetName: string, text: string): void;
+
+    getNames(): NameDefinition[];
+    // Replaces a name spelled the same with the same scope
+    defineName(definition: NameDefinition): void;
+    removeName(name: string, scope?: string): void;
+
+    getOptions(): CalculationOptions;
+    setOptions(options: Partial<CalculationOptions>): void;
+    // Recalculates changed cells and volatile formulas such as NOW() and RAND()
+    calculate(): void;
+
+    getCell(sheetName: string, cellId: string): WorkbookCell | undefined;
+    // The value formulas see in the cell; null when it is blank
+    getValue(sheetName: string, cellId: string): CellValue;
+    // The text the spreadsheet shows in the cell
+    getDisplayValue(sheetName: string, cellId: string): string;
+    // Values of a range such as A1:C10, row by row
+    getRange(sheetName: string, range: string): CellValue[][];
+    // Evaluates a formula as if typed into a cell, A1 of the first sheet unless given
+    evaluate(formula: string, sheetName?: string, cellId?: string): FormulaValue;
+    // Sheet-qualified ids, e.g. "Sheet1!A1"
+    getCircularCellIds(): string[];
+    getLossyCellIds(): string[];
+
+    toData(): WorkbookData;
+    save(): string;
+    sheetToCSV(sheetName: string): string;
+}
+
+const INVALID_SHEET_NAME = /[\\/?*[\]:]/;
+
+function parseCellId(cellId: string): string {
+    const ref = parseCellReference(cellId);
+    if (!ref || cellId.includes('$')) throw new WorkbookError(`${cellId} is not a cell reference`);
+    return formatCellReference(ref);
+}
+
+function toStoredCell(cell: WorkbookCell): StoredCell {
+    const stored: StoredCell = { value: cell.value };
+    if (cell.formula) stored.formula = cell.formula;
+    if (cell.format) stored.format = cell.format;
+    return stored;
+}
+
+export function createWorkbook(data: WorkbookData = { sheets: [{ name: 'Sheet1', cells: {} }] }): Workbook {
+    let sheets = new Map<string, Map<string, WorkbookCell>>();
+    let names: NameDefinition[] = [];
+    let options: CalculationOptions = { ...DEFAULT_CALCULATION_OPTIONS, ...data.options };
+    let graph = createDependencyGraph();
+    // Sheet-qualified ids of cells edited since the last calculation
+    let changedCellIds = new Set<string>();
+    let circularCellIds = new Set<string>();
+    let lossyCellIds = new Set<string>();
+
+    const getSheet = (sheetName: string) => {
+        const name = findSheetName(sheets, sheetName);
+        if (name === undefined) throw new WorkbookError(`There is no sheet named ${sheetName}`);
+        return { name, cells: sheets.get(name)! };
+    };
+
+    // Sheets and names can change what any formula refers to, so they calculate everything again
+    const invalidateAll = () => {
+        graph = createDependencyGraph();
+        changedCellIds = new Set();
+        circularCellIds = new Set();
+        lossyCellIds = new Set();
+        sheets.forEach((cells, sheetName) => cells.forEach((_, cellId) => changedCellIds.add(qualifyCellId(sheetName, cellId))));
+    };
+
+    const runCalculation = () => {
+        const cellIds = Array.from(changedCellIds);
+        changedCellIds = new Set();
+        const result = recalculateWorkbook(sheets, graph, cellIds, options, names);
+        sheets = result.sheets;
+        [cellIds, result.evaluatedCellIds].forEach(ids =>
+            ids.forEach(cellId => {
+                circularCellIds.delete(cellId);
+                lossyCellIds.delete(cellId);
+            })
+        );
+        result.circularCellIds.forEach(cellId => circularCellIds.add(cellId));
+        result.lossyCellIds.forEach(cellId => lossyCellIds.add(cellId));
+    };
+
+    const ensureCalculated = () => {
+        if (changedCellIds.size > 0) runCalculation();
+    };
+
+    const writeCell = (sheetName: string, cellId: string, cell: WorkbookCell | undefined) => {
+        const sheet = getSheet(sheetName);
+        const id = parseCellId(cellId);
+        if (cell && (cell.value !== '' || cell.formula || cell.format)) {
+            sheet.cells.set(id, cell);
+        } else {
+            sheet.cells.delete(id);
+        }
+        changedCellIds.add(qualifyCellId(sheet.name, id));
+    };
+
+    const addSheet = (name: string) => {
+        const trimmed = name.trim();
+        if (!trimmed || trimmed.length > 31 || INVALID_SHEET_NAME.test(trimmed)) {
+            throw new WorkbookError(`${name} is not a valid sheet name`);
+        }
+        if (findSheetName(sheets, trimmed) !== undefined) throw new WorkbookError(`A sheet named ${name} already exists`);
+        sheets.set(trimmed, new Map());
+    };
+
+    const defineName = (definition: NameDefinition) => {
+        if (!isValidName(definition.name)) throw new WorkbookError(`${definition.name} is not a valid name`);
+        const scope = definition.scope === undefined ? undefined : getSheet(definition.scope).name;
+        const upper = definition.name.toUpperCase();
+        names = [
+            ...names.filter(existing => existing.name.toUpperCase() !== upper || existing.scope !== scope),
+            { name: definition.name, reference: definition.reference.replace(/^=/, ''), scope },
+        ];
+    };
+
+    data.sheets.forEach(sheetData => {
+        addSheet(sheetData.name);
+        Object.entries(sheetData.cells).forEach(([cellId, cell]) =>
+            writeCell(sheetData.name, cellId, { value: cell.value ?? '', formula: cell.formula || undefined, format: cell.format })
+        );
+    });
+    (data.names ?? []).forEach(defineName);
+
+    const toData = (): WorkbookData => ({
+        sheets: Array.from(sheets.entries()).map(([name, cells]) => {
+            const stored: Record<string, StoredCell> = {};
+            cells.forEach((cell, cellId) => {
+                // Spilled values come back when their formula is calculated
+                if (cell.value !== '' || cell.formula || cell.format) stored[cellId] = toStoredCell(cell);
+            });
+            return { name, cells: stored };
+        }),
+        names: names.map(definition => ({ ...definition })),
+        options: { ...options },
+    });
+
+    const workbookContext = (): WorkbookContext => ({
+        sheets,
+        dateSystem: options.dateSystem,
+        names,
+        exactArithmetic: options.exactArithmetic,
+    });
+
+    return {
+        getSheetNames: () => Array.from(sheets.keys()),
+        addSheet: name => {
+            addSheet(name);
+            invalidateAll();
+        },
+        removeSheet: name => {
+            const sheet = getSheet(name);
+            if (sheets.size === 1) throw new WorkbookError('A workbook needs at least one sheet');
+            sheets.delete(sheet.name);
+            names = names.filter(definition => definition.scope !== sheet.name);
+            invalidateAll();
+        },
+
+        setCell: (sheetName, cellId, input) => {
+            const format = getSheet(sheetName).cells.get(parseCellId(cellId))?.format;
+            const isFormula = input.startsWith('=');
+            writeCell(sheetName, cellId, { value: isFormula ? '' : input, formula: isFormula ? input : undefined, format });
+        },
+        setCellFormat: (sheetName, cellId, format) => {
+            const sheet = getSheet(sheetName);
+            const id = parseCellId(cellId);
+            const cell = sheet.cells.get(id);
+            // Formats don't change values, so nothing needs calculating
+            if (cell && (cell.value !== '' || cell.formula || cell.spilledFrom || format)) {
+                sheet.cells.set(id, { ...cell, format });
+            } else if (format) {
+                sheet.cells.set(id, { value: '', format });
+            } else {
+                sheet.cells.delete(id);
+            }
+        },
+        clearCell: (sheetName, cellId) => writeCell(sheetName, cellId, undefined),
+        loadCSV: (sheetName, text) => {
+            const sheet = getSheet(sheetName);
+            sheet.cells.forEach((_, cellId) => changedCellIds.add(qualifyCellId(sheet.name, cellId)));
+            const cells = new Map<string, WorkbookCell>();
+            parseCSV(text).forEach((cell, cellId) => {
+                cells.set(cellId, { value: cell.value });
+                changedCellIds.add(qualifyCellId(sheet.name, cellId));
+            });
+            sheets.set(sheet.name, cells);
+        },
+
+        getNames: () => names.map(definition => ({ ...definition })),
+        defineName: definition => {
+            defineName(definition);
+            invalidateAll();
+        },
+        removeName: (name, scope) => {
+            const upper = name.toUpperCase();
+            const scopeName = scope === undefined ? undefined : getSheet(scope).name;
+            names = names.filter(definition => definition.name.toUpperCase() !== upper || definition.scope !== scopeName);
+            invalidateAll();
+        },
+
+        getOptions: () => ({ ...options }),
+        setOptions: changes => {
+            options = { ...options, ...changes };
+            invalidateAll();
+        },
+        calculate: runCalculation,
+
+        getCell: (sheetName, cellId) => {
+            ensureCalculated();
+            const cell = getSheet(sheetName).cells.get(parseCellId(cellId));
+            return cell && { ...cell };
+        },
+        getValue: (sheetName, cellId) => {
+            ensureCalculated();
+            return getCellValue(parseCellId(cellId), getSheet(sheetName).cells, workbookContext());
+        },
+        getDisplayValue: (sheetName, cellId) => {
+            ensureCalculated();
+            const cell = getSheet(sheetName).cells.get(parseCellId(cellId));
+            return cell?.displayValue ?? cell?.value ?? '';
+        },
+        getRange: (sheetName, range) => {
+            ensureCalculated();
+            const [startId, endId = startId] = range.split(':');
+            const start = parseCellReference(parseCellId(startId));
+            const end = parseCellReference(parseCellId(endId));
+            const cells = getSheet(sheetName).cells;
+            const context = workbookContext();
+            const values: CellValue[][] = [];
+            for (let row = Math.min(start!.row, end!.row); row <= Math.max(start!.row, end!.row); row++) {
+                const rowValues: CellValue[] = [];
+                for (let col = Math.min(start!.col, end!.col); col <= Math.max(start!.col, end!.col); col++) {
+                    rowValues.push(getCellValue(formatCellReference({ row, col }), cells, context));
+                }
+                values.push(rowValues);
+            }
+            return values;
+        },
+        evaluate: (formula, sheetName = Array.from(sheets.keys())[0], cellId = 'A1') => {
+            ensureCalculated();
+            const sheet = getSheet(sheetName);
+            const text = formula.startsWith('=') ? formula : `=${formula}`;
+            return evaluateFormulaValue(text, parseCellId(cellId), sheet.cells, workbookContext(), sheet.name);
+        },
+        getCircularCellIds: () => {
+            ensureCalculated();
+            return Array.from(circularCellIds);
+        },
+        getLossyCellIds: () => {
+            ensureCalculated();
+            return Array.from(lossyCellIds);
+        },
+
+        toData,
+        save: () => JSON.stringify(toData(), null, 2),
+        sheetToCSV: sheetName => {
+            ensureCalculated();
+            return cellsToCSV(getSheet(sheetName).cells);
+        },
+    };
+}
+
+/**
+ * Reads a workbook saved with save(). Cells are calculated when first read.
+ */
+export function loadWorkbook(json: string): Workbook {
+    let data: WorkbookData;
+    try {
+        data = JSON.parse(json, keepNumberText);
+    } catch {
+        throw new WorkbookError('The workbook is not valid JSON');
+    }
+    if (!data || !Array.isArray(data.sheets) || data.sheets.length === 0) {
+        throw new WorkbookError('The workbook has no sheets');
+    }
+    return createWorkbook(data);
+}